@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { StyleSheet, Text, View, Button, Image, Alert, ActivityIndicator } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
-import { uploadTransactionImage } from './api/transactions'; // Import the API function
+import { uploadImportImage } from './api/importService'; // Import the API function
 
 export default function App() {
   const [image, setImage] = useState(null); // Stores the selected image asset object
@@ -55,7 +55,7 @@ export default function App() {
     setSavedTransaction(null);
 
     try {
-      const responseData = await uploadTransactionImage(image);
+      const responseData = await uploadImportImage(image);
       setUploadStatus(responseData.message || 'Upload successful!');
       setSavedTransaction(responseData.transaction); // Store the returned transaction
       // Optionally clear the image after successful upload
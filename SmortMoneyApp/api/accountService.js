@@ -0,0 +1,59 @@
+import axios from 'axios';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/accounts'; // Assuming backend runs on port 3000
+
+// Fetch all accounts, each with its computed balance and transaction count
+export const getAccounts = async () => {
+  try {
+    const response = await axios.get(API_URL);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching accounts:', error);
+    throw error; // Re-throw the error to be handled by the caller
+  }
+};
+
+// Fetch a single account with its transactions and the running balance after each one
+export const getAccount = async (id) => {
+  try {
+    const response = await axios.get(`${API_URL}/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching account ${id}:`, error);
+    throw error;
+  }
+};
+
+// Create a new account
+export const createAccount = async (accountData) => {
+  try {
+    const response = await axios.post(API_URL, accountData);
+    return response.data;
+  } catch (error) {
+    console.error('Error creating account:', error);
+    throw error;
+  }
+};
+
+// Update an existing account
+export const updateAccount = async (id, accountData) => {
+  try {
+    const response = await axios.put(`${API_URL}/${id}`, accountData);
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating account ${id}:`, error);
+    throw error;
+  }
+};
+
+// Delete an account (its transactions are kept, just unlinked)
+export const deleteAccount = async (id) => {
+  try {
+    const response = await axios.delete(`${API_URL}/${id}`);
+    return response.data; // Usually an empty object or success message
+  } catch (error) {
+    console.error(`Error deleting account ${id}:`, error);
+    throw error;
+  }
+};
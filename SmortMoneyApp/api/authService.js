@@ -0,0 +1,142 @@
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/auth'; // Assuming backend runs on port 3000
+
+const TOKEN_STORAGE_KEY = 'smortmoney.authToken';
+
+// Kept in memory so every request doesn't have to hit AsyncStorage
+let cachedToken;
+const unauthorizedListeners = new Set();
+
+/**
+ * Returns the stored session token, or null when signed out.
+ * @returns {Promise<string|null>}
+ */
+export const getAuthToken = async () => {
+  if (cachedToken === undefined) {
+    cachedToken = await AsyncStorage.getItem(TOKEN_STORAGE_KEY);
+  }
+  return cachedToken;
+};
+
+const setAuthToken = async (token) => {
+  cachedToken = token;
+  if (token) {
+    await AsyncStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    await AsyncStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+};
+
+/**
+ * Registers a callback run whenever the backend rejects the stored token.
+ * @param {() => void} listener
+ * @returns {() => void} - Unsubscribe function.
+ */
+export const onUnauthorized = (listener) => {
+  unauthorizedListeners.add(listener);
+  return () => unauthorizedListeners.delete(listener);
+};
+
+const handleUnauthorized = async () => {
+  await setAuthToken(null);
+  unauthorizedListeners.forEach(listener => listener());
+};
+
+/**
+ * fetch() with the session's Authorization header added. A 401 response
+ * clears the stored token so the app returns to the login screen.
+ * @param {string} url
+ * @param {RequestInit} [options]
+ * @returns {Promise<Response>}
+ */
+export const authFetch = async (url, options = {}) => {
+  const token = await getAuthToken();
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      ...options.headers,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  if (response.status === 401) {
+    await handleUnauthorized();
+  }
+  return response;
+};
+
+// Attach the token to every axios request made by the other services
+axios.interceptors.request.use(async (config) => {
+  const token = await getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+axios.interceptors.response.use(
+  response => response,
+  async (error) => {
+    // Wrong credentials on the login form are not an expired session
+    if (error.response?.status === 401 && !error.config?.url?.startsWith(API_URL)) {
+      await handleUnauthorized();
+    }
+    throw error;
+  }
+);
+
+// Create an account and sign in with it
+export const register = async ({ email, password, name }) => {
+  try {
+    const response = await axios.post(`${API_URL}/register`, { email, password, name });
+    await setAuthToken(response.data.token);
+    return response.data.user;
+  } catch (error) {
+    console.error('Error registering:', error);
+    throw error;
+  }
+};
+
+// Sign in with email and password
+export const login = async ({ email, password }) => {
+  try {
+    const response = await axios.post(`${API_URL}/login`, { email, password });
+    await setAuthToken(response.data.token);
+    return response.data.user;
+  } catch (error) {
+    console.error('Error logging in:', error);
+    throw error;
+  }
+};
+
+// End the session on the backend and forget the token locally
+export const logout = async () => {
+  try {
+    await axios.post(`${API_URL}/logout`);
+  } catch (error) {
+    // The token is dropped either way; an expired session is already logged out
+    console.error('Error logging out:', error);
+  } finally {
+    await setAuthToken(null);
+  }
+};
+
+// Fetch the signed-in user, or null when there is no valid session
+export const getCurrentUser = async () => {
+  if (!(await getAuthToken())) {
+    return null;
+  }
+  try {
+    const response = await axios.get(`${API_URL}/me`);
+    return response.data;
+  } catch (error) {
+    if (error.response?.status === 401) {
+      await setAuthToken(null);
+      return null;
+    }
+    console.error('Error fetching current user:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import axios from 'axios';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/backup'; // Assuming backend runs on port 3000
+
+// Download all of the user's data as a backup archive (a JSON object)
+export const getBackup = async () => {
+  try {
+    const response = await axios.get(API_URL);
+    return response.data; // { format, version, exportedAt, data: { categories: [...], ... } }
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw error;
+  }
+};
+
+// Restore a backup archive; mode is 'replace' (delete current data first) or 'merge'
+export const restoreBackup = async (backup, mode) => {
+  try {
+    const response = await axios.post(`${API_URL}/restore`, { backup, mode });
+    return response.data; // { message, mode, results: { categories: { added, skipped }, ... } }
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    throw error;
+  }
+};
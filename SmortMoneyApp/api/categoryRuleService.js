@@ -0,0 +1,70 @@
+import axios from 'axios';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/category-rules'; // Assuming backend runs on port 3000
+
+// Fetch all categorization rules, in the order they are tried
+export const getCategoryRules = async () => {
+  try {
+    const response = await axios.get(API_URL);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching category rules:', error);
+    throw error; // Re-throw the error to be handled by the caller
+  }
+};
+
+// Create a new rule
+export const createCategoryRule = async (ruleData) => {
+  try {
+    const response = await axios.post(API_URL, ruleData);
+    return response.data;
+  } catch (error) {
+    console.error('Error creating category rule:', error);
+    throw error;
+  }
+};
+
+// Update an existing rule (any subset of its fields)
+export const updateCategoryRule = async (id, ruleData) => {
+  try {
+    const response = await axios.put(`${API_URL}/${id}`, ruleData);
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating category rule ${id}:`, error);
+    throw error;
+  }
+};
+
+// Delete a rule (transactions keep the categories it gave them)
+export const deleteCategoryRule = async (id) => {
+  try {
+    const response = await axios.delete(`${API_URL}/${id}`);
+    return response.data; // Usually an empty object or success message
+  } catch (error) {
+    console.error(`Error deleting category rule ${id}:`, error);
+    throw error;
+  }
+};
+
+// List the existing transactions a rule would recategorize: { count, transactions }
+export const previewCategoryRule = async (id, includeCategorized = false) => {
+  try {
+    const response = await axios.get(`${API_URL}/${id}/preview`, { params: { includeCategorized } });
+    return response.data;
+  } catch (error) {
+    console.error(`Error previewing category rule ${id}:`, error);
+    throw error;
+  }
+};
+
+// Recategorize the transactions listed by the preview: { message, count }
+export const applyCategoryRule = async (id, includeCategorized = false) => {
+  try {
+    const response = await axios.post(`${API_URL}/${id}/apply`, { includeCategorized });
+    return response.data;
+  } catch (error) {
+    console.error(`Error applying category rule ${id}:`, error);
+    throw error;
+  }
+};
@@ -1,3 +1,5 @@
+import { authFetch } from './authService';
+
 // Define the base URL for your backend API
 const API_BASE_URL = 'http://localhost:3000/api';
 
@@ -11,7 +13,7 @@ export const clearAllTransactions = async () => {
   console.log(`Clearing all transactions via ${apiUrl}`);
 
   try {
-    const response = await fetch(apiUrl, {
+    const response = await authFetch(apiUrl, {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
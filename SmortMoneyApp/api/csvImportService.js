@@ -0,0 +1,81 @@
+import axios from 'axios';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/transactions/import/csv'; // Assuming backend runs on port 3000
+
+// Read the column names and first rows of a CSV, for the mapping step
+export const getCsvColumns = async (csv, { delimiter, hasHeader } = {}) => {
+  try {
+    const response = await axios.post(`${API_URL}/columns`, { csv, delimiter, hasHeader });
+    return response.data; // { columns: [...], sample: [[...]], rowCount }
+  } catch (error) {
+    console.error('Error reading CSV columns:', error);
+    throw error;
+  }
+};
+
+// Map the CSV without saving anything; returns { summary, rows, errors }
+export const previewCsvImport = async (csv, mapping) => {
+  try {
+    const response = await axios.post(API_URL, { ...mapping, csv, dryRun: true });
+    return response.data;
+  } catch (error) {
+    console.error('Error previewing CSV import:', error);
+    throw error;
+  }
+};
+
+// Save the mapped rows as transactions; returns { message, summary, errors }
+export const importCsv = async (csv, mapping) => {
+  try {
+    const response = await axios.post(API_URL, { ...mapping, csv });
+    return response.data;
+  } catch (error) {
+    console.error('Error importing CSV:', error);
+    throw error;
+  }
+};
+
+// Fetch the saved mapping profiles
+export const getCsvProfiles = async () => {
+  try {
+    const response = await axios.get(`${API_URL}/profiles`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching import profiles:', error);
+    throw error; // Re-throw the error to be handled by the caller
+  }
+};
+
+// Save a mapping as a named profile
+export const createCsvProfile = async (profileData) => {
+  try {
+    const response = await axios.post(`${API_URL}/profiles`, profileData);
+    return response.data;
+  } catch (error) {
+    console.error('Error creating import profile:', error);
+    throw error;
+  }
+};
+
+// Update a saved profile (any subset of its fields)
+export const updateCsvProfile = async (id, profileData) => {
+  try {
+    const response = await axios.put(`${API_URL}/profiles/${id}`, profileData);
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating import profile ${id}:`, error);
+    throw error;
+  }
+};
+
+// Delete a saved profile
+export const deleteCsvProfile = async (id) => {
+  try {
+    const response = await axios.delete(`${API_URL}/profiles/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error deleting import profile ${id}:`, error);
+    throw error;
+  }
+};
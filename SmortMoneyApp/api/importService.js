@@ -0,0 +1,164 @@
+import axios from 'axios';
+import { authFetch } from './authService';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/imports'; // Assuming backend runs on port 3000
+
+// Local URIs of the screenshots behind each batch, by image index. The images stay on the
+// device, so the review screen can show thumbnails for the batches uploaded this session.
+const batchImages = {};
+
+export const rememberBatchImage = (batchId, imageIndex, uri) => {
+  batchImages[batchId] = { ...(batchImages[batchId] || {}), [imageIndex]: uri };
+};
+
+export const getBatchImages = (batchId) => batchImages[batchId] || {};
+
+/**
+ * Uploads a transaction screenshot to the backend for analysis. The extracted transactions are
+ * not saved yet: they come back as drafts of an import batch for the user to review and commit.
+ * @param {object} imageAsset - The image asset object from expo-image-picker (containing uri, base64, etc.), or a PDF statement from expo-document-picker
+ * @param {object} [options]
+ * @param {string|null} [options.accountId] - Optional account the extracted transactions belong to.
+ * @param {string|null} [options.batchId] - Optional open batch to add the drafts to; a new batch is started otherwise.
+ * @returns {Promise<object>} - The response data from the backend: { message, batch (with its drafts), imageIndex, errors? }.
+ *   Likely duplicates are drafts that start out rejected, with duplicateReason and duplicateOf set.
+ * @throws {Error} - Throws an error if the upload or analysis fails.
+ */
+export const uploadImportImage = async (imageAsset, { accountId = null, batchId = null } = {}) => {
+  const apiUrl = API_URL;
+
+  // Create FormData object
+  const formData = new FormData();
+
+  // Determine the filename; the blob below carries the content type
+  const uriParts = imageAsset.uri.split('/');
+  const fileName = uriParts[uriParts.length - 1];
+
+  // --- Fetch the image data as a blob ---
+  // This is often necessary for web environments when working with file URIs
+  const responseBlob = await fetch(imageAsset.uri);
+  const blob = await responseBlob.blob();
+  // --- End fetch blob ---
+
+  // Append the blob data to FormData
+  // The key 'screenshot' must match upload.single('screenshot') in the backend route
+  formData.append('screenshot', blob, fileName); // Use the blob directly
+  if (accountId) {
+    formData.append('accountId', accountId);
+  }
+  if (batchId) {
+    formData.append('batchId', batchId);
+  }
+
+  console.log('Uploading image to:', apiUrl);
+  // console.log('FormData:', formData); // Be careful logging FormData, might be large
+
+  try {
+    const response = await authFetch(apiUrl, {
+      method: 'POST',
+      body: formData,
+      // Let fetch set the Content-Type header automatically for FormData,
+      // including the boundary parameter.
+      headers: {
+         // 'Content-Type': 'multipart/form-data', // REMOVED
+      },
+    });
+
+    const responseData = await response.json();
+
+    if (!response.ok) {
+      // Handle specific error messages from backend if available
+      const errorMessage = responseData.message || `HTTP error! status: ${response.status}`;
+      console.error('Upload failed:', errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    console.log('Upload successful:', responseData);
+    return responseData; // Contains { message: '...', batch: {...} }
+
+  } catch (error) {
+    console.error('Error uploading image:', error);
+    // Re-throw the error to be caught by the calling component
+    throw error;
+  }
+};
+
+// Fetch the imports still waiting for review
+export const getImports = async () => {
+  try {
+    const response = await axios.get(API_URL);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching imports:', error);
+    throw error; // Re-throw the error to be handled by the caller
+  }
+};
+
+// Fetch an import with its drafts
+export const getImport = async (id) => {
+  try {
+    const response = await axios.get(`${API_URL}/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching import ${id}:`, error);
+    throw error;
+  }
+};
+
+// Edit a draft (merchant, amount, direction, date, categoryId, accountId, description, status)
+export const updateDraft = async (batchId, draftId, draftData) => {
+  try {
+    const response = await axios.patch(`${API_URL}/${batchId}/drafts/${draftId}`, draftData);
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating draft ${draftId}:`, error);
+    throw error;
+  }
+};
+
+// Keep a draft, e.g. a flagged duplicate that really is a second transaction
+export const acceptDraft = async (batchId, draftId) => {
+  try {
+    const response = await axios.post(`${API_URL}/${batchId}/drafts/${draftId}/accept`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error accepting draft ${draftId}:`, error);
+    throw error;
+  }
+};
+
+// Leave a draft out when the import is committed
+export const rejectDraft = async (batchId, draftId) => {
+  try {
+    const response = await axios.post(`${API_URL}/${batchId}/drafts/${draftId}/reject`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error rejecting draft ${draftId}:`, error);
+    throw error;
+  }
+};
+
+// Save every draft that isn't rejected as a transaction
+export const commitImport = async (id) => {
+  try {
+    const response = await axios.post(`${API_URL}/${id}/commit`);
+    delete batchImages[id];
+    return response.data;
+  } catch (error) {
+    console.error(`Error committing import ${id}:`, error);
+    throw error;
+  }
+};
+
+// Discard an import and all of its drafts
+export const deleteImport = async (id) => {
+  try {
+    const response = await axios.delete(`${API_URL}/${id}`);
+    delete batchImages[id];
+    return response.data; // Usually an empty object or success message
+  } catch (error) {
+    console.error(`Error deleting import ${id}:`, error);
+    throw error;
+  }
+};
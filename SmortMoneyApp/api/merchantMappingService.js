@@ -0,0 +1,26 @@
+import axios from 'axios';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/merchant-mappings'; // Assuming backend runs on port 3000
+
+// Fetch the merchant categories learned from the user's corrections
+export const getMerchantMappings = async () => {
+  try {
+    const response = await axios.get(API_URL);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching merchant mappings:', error);
+    throw error; // Re-throw the error to be handled by the caller
+  }
+};
+
+// Forget a learned mapping so uploads go back to Gemini's suggestion for that merchant
+export const deleteMerchantMapping = async (id) => {
+  try {
+    const response = await axios.delete(`${API_URL}/${id}`);
+    return response.data; // Usually an empty object or success message
+  } catch (error) {
+    console.error(`Error deleting merchant mapping ${id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { getAuthToken } from './authService';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/receipts'; // Assuming backend runs on port 3000
+
+/**
+ * Builds an <Image> source for a stored receipt. The image is served behind the same
+ * session token as the rest of the API, so the request carries the Authorization header.
+ * @param {string} receiptId
+ * @returns {Promise<{uri: string, headers?: Record<string, string>}>}
+ */
+export const getReceiptImageSource = async (receiptId) => {
+  const token = await getAuthToken();
+  return {
+    uri: `${API_URL}/${receiptId}`,
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  };
+};
@@ -1,114 +1,129 @@
+import { authFetch } from './authService';
+
 // Define the base URL for your backend API
 // Replace with your actual backend URL if different or using environment variables
 const API_BASE_URL = 'http://localhost:3000/api'; // Standardized to port 3000
 
 /**
- * Uploads a transaction screenshot to the backend for analysis.
- * @param {object} imageAsset - The image asset object from expo-image-picker (containing uri, base64, etc.)
- * @returns {Promise<object>} - The response data from the backend (including the saved transaction).
- * @throws {Error} - Throws an error if the upload or analysis fails.
+ * Builds a query string from an object, skipping empty values.
+ * @param {object} params - Query parameters; arrays are sent as comma-separated lists.
+ * @returns {string} - The query string including the leading '?', or an empty string.
  */
-export const uploadTransactionImage = async (imageAsset) => {
-  const apiUrl = `${API_BASE_URL}/transactions/upload`;
-
-  // Create FormData object
-  const formData = new FormData();
-
-  // Determine the filename and type
-  const uriParts = imageAsset.uri.split('/');
-  const fileName = uriParts[uriParts.length - 1];
-  let fileType = '';
-  const uriExtensionMatch = fileName.match(/\.(\w+)$/);
-  if (uriExtensionMatch) {
-    const extension = uriExtensionMatch[1].toLowerCase();
-    if (extension === 'jpg' || extension === 'jpeg') {
-      fileType = 'image/jpeg';
-    } else if (extension === 'png') {
-      fileType = 'image/png';
-    } else if (extension === 'gif') {
-      fileType = 'image/gif';
-    } else {
-      // Fallback or default type if needed
-      fileType = `image/${extension}`;
+const buildQueryString = (params = {}) => {
+  const parts = [];
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(value.join(','))}`);
+      return;
     }
-  } else {
-    // Default if no extension found (might need adjustment)
-    fileType = 'image/jpeg';
-  }
-
-  // --- Fetch the image data as a blob ---
-  // This is often necessary for web environments when working with file URIs
-  const responseBlob = await fetch(imageAsset.uri);
-  const blob = await responseBlob.blob();
-  // --- End fetch blob ---
-
-  // Append the blob data to FormData
-  // The key 'screenshot' must match upload.single('screenshot') in the backend route
-  formData.append('screenshot', blob, fileName); // Use the blob directly
+    parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  });
+  return parts.length > 0 ? `?${parts.join('&')}` : '';
+};
 
-  console.log('Uploading image to:', apiUrl);
-  // console.log('FormData:', formData); // Be careful logging FormData, might be large
+/**
+ * Fetches one page of transactions from the backend.
+ * @param {object} [params] - Optional filters: startDate, endDate, categoryId (string or array, may include 'uncategorized'),
+ *   minAmount, maxAmount, merchant, sortBy ('date' | 'amount' | 'merchant' | 'createdAt'), sortOrder ('asc' | 'desc'),
+ *   limit and cursor (the nextCursor of the previous page).
+ * @returns {Promise<{transactions: Array<object>, nextCursor: string | null}>} - The page of transactions and the cursor for the next one.
+ * @throws {Error} - Throws an error if fetching fails.
+ */
+export const getTransactions = async (params = {}) => {
+  const apiUrl = `${API_BASE_URL}/transactions${buildQueryString(params)}`;
+  console.log(`Fetching transactions from ${apiUrl}`);
 
   try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      body: formData,
-      // Let fetch set the Content-Type header automatically for FormData,
-      // including the boundary parameter.
+    const response = await authFetch(apiUrl, {
+      method: 'GET',
       headers: {
-         // 'Content-Type': 'multipart/form-data', // REMOVED
+        'Content-Type': 'application/json',
       },
     });
 
     const responseData = await response.json();
 
     if (!response.ok) {
-      // Handle specific error messages from backend if available
       const errorMessage = responseData.message || `HTTP error! status: ${response.status}`;
-      console.error('Upload failed:', errorMessage);
+      console.error('Fetch transactions failed:', errorMessage);
       throw new Error(errorMessage);
     }
 
-    console.log('Upload successful:', responseData);
-    return responseData; // Contains { message: '...', transaction: {...} }
+    console.log('Transactions fetched successfully:', responseData.transactions.length);
+    return responseData; // { transactions: [...], nextCursor: '...' | null }
 
   } catch (error) {
-    console.error('Error uploading image:', error);
-    // Re-throw the error to be caught by the calling component
+    console.error('Error fetching transactions:', error);
     throw error;
   }
 };
 
 /**
- * Fetches all transactions from the backend, sorted by date descending.
- * @returns {Promise<Array<object>>} - An array of transaction objects.
- * @throws {Error} - Throws an error if fetching fails.
+ * Exports every transaction matching the filters as a file.
+ * @param {'csv' | 'json' | 'qif'} format - File format.
+ * @param {object} [params] - The same filters as getTransactions; limit and cursor are ignored.
+ * @returns {Promise<{fileName: string, content: string}>} - Suggested file name and the file contents.
+ * @throws {Error} - Throws an error if the export fails.
  */
-export const getAllTransactions = async () => {
+export const exportTransactions = async (format, params = {}) => {
+  const { limit, cursor, ...filters } = params;
+  const apiUrl = `${API_BASE_URL}/transactions/export${buildQueryString({ ...filters, format })}`;
+
+  try {
+    const response = await authFetch(apiUrl, { method: 'GET' });
+
+    if (!response.ok) {
+      const responseData = await response.json().catch(() => ({}));
+      const errorMessage = responseData.message || `HTTP error! status: ${response.status}`;
+      console.error('Export transactions failed:', errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    // The backend suggests a dated name in Content-Disposition
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `transactions.${format}`;
+    return { fileName, content: await response.text() };
+
+  } catch (error) {
+    console.error('Error exporting transactions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Creates a transaction manually (e.g. a cash purchase or a receipt that failed to scan).
+ * @param {object} transactionData - The new transaction (merchant, amount, date, categoryId, description,
+ *   and optionally splits: [{categoryId, amount}] adding up to the amount).
+ * @returns {Promise<object>} - The created transaction object from the backend, including its category.
+ * @throws {Error} - Throws an error if the creation fails.
+ */
+export const createTransaction = async (transactionData) => {
   const apiUrl = `${API_BASE_URL}/transactions`;
-  console.log(`Fetching all transactions from ${apiUrl}`);
+  console.log(`Creating transaction via ${apiUrl}`);
 
   try {
-    const response = await fetch(apiUrl, {
-      method: 'GET',
+    const response = await authFetch(apiUrl, {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
+      body: JSON.stringify(transactionData),
     });
 
     const responseData = await response.json();
 
     if (!response.ok) {
       const errorMessage = responseData.message || `HTTP error! status: ${response.status}`;
-      console.error('Fetch all transactions failed:', errorMessage);
+      console.error('Create transaction failed:', errorMessage);
       throw new Error(errorMessage);
     }
 
-    console.log('All transactions fetched successfully:', responseData.length);
-    return responseData; // Should be an array of transaction objects
+    console.log('Transaction created successfully:', responseData);
+    return responseData; // Contains the created transaction object
 
   } catch (error) {
-    console.error('Error fetching all transactions:', error);
+    console.error('Error creating transaction:', error);
     throw error;
   }
 };
@@ -126,7 +141,7 @@ export const updateTransaction = async (transactionId, transactionData) => {
   console.log('Update data:', transactionData);
 
   try {
-    const response = await fetch(apiUrl, {
+    const response = await authFetch(apiUrl, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -185,7 +200,7 @@ export const deleteTransaction = async (transactionId) => {
       poll();
     });
     
-    const response = await fetch(apiUrl, {
+    const response = await authFetch(apiUrl, {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
@@ -216,10 +231,12 @@ export const deleteTransaction = async (transactionId) => {
 };
 
 /**
- * Fetches the transaction summary (total spent per category) for a given month and year.
+ * Fetches the monthly summary for a given month and year: one row per category
+ * (uncategorized transactions are grouped under categoryId null) plus income/expense totals.
+ * Transfers between accounts are left out of the category rows and reported in totals.transfers.
  * @param {number} month - The month (1-12).
  * @param {number} year - The year.
- * @returns {Promise<Array<{categoryId: string, totalSpent: number}>>} - An array of objects containing categoryId and totalSpent.
+ * @returns {Promise<{month: number, year: number, categories: Array<{categoryId: string | null, categoryName: string, categoryIcon?: string, totalSpent: number, total: number, transactionCount: number}>, totals: {income: number, expenses: number, net: number, transfers: number, transactionCount: number}}>} - The aggregated summary.
  * @throws {Error} - Throws an error if fetching the summary fails.
  */
 export const getTransactionSummary = async (month, year) => {
@@ -228,7 +245,7 @@ export const getTransactionSummary = async (month, year) => {
   console.log(`Fetching transaction summary for ${year}-${month} from ${apiUrl}`);
 
   try {
-    const response = await fetch(`${apiUrl}?month=${month}&year=${year}`, { // Send month/year as query params
+    const response = await authFetch(`${apiUrl}?month=${month}&year=${year}`, { // Send month/year as query params
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -244,7 +261,7 @@ export const getTransactionSummary = async (month, year) => {
     }
 
     console.log('Transaction summary fetched successfully:', responseData);
-    return responseData; // Should be an array like [{categoryId: '...', totalSpent: ...}]
+    return responseData; // { categories: [...], totals: {...} }
 
   } catch (error) {
     console.error(`Error fetching transaction summary for ${year}-${month}:`, error);
@@ -253,39 +270,61 @@ export const getTransactionSummary = async (month, year) => {
 };
 
 /**
- * Updates the category of a specific transaction.
+ * Partially updates a transaction. Only the fields present in `fields` are sent and changed.
  * @param {string} transactionId - The ID of the transaction to update.
- * @param {string | null} categoryId - The new category ID (or null to remove category).
- * @returns {Promise<{id: string, merchant: string, amount: number, date: string, categoryId: string | null, category?: {id: string, name: string, iconName?: string | null}}>} - The updated transaction object from the backend, including the nested category.
+ * @param {object} fields - Any subset of merchant, amount, date, categoryId, description and splits
+ *   (an array of {categoryId, amount} adding up to the amount; an empty array removes the split).
+ * @returns {Promise<object>} - The updated transaction object from the backend, including the nested category.
  * @throws {Error} - Throws an error if the update fails.
  */
-export const updateTransactionCategory = async (transactionId, categoryId) => {
+export const patchTransaction = async (transactionId, fields) => {
   const apiUrl = `${API_BASE_URL}/transactions/${transactionId}`;
-
-  console.log(`Updating transaction ${transactionId} category to ${categoryId} via ${apiUrl}`);
+  console.log(`Patching transaction ${transactionId} via ${apiUrl}`, fields);
 
   try {
-    const response = await fetch(apiUrl, {
-      method: 'PUT',
+    const response = await authFetch(apiUrl, {
+      method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ categoryId: categoryId }), // Send categoryId in the body
+      body: JSON.stringify(fields), // Send only the changed fields
     });
 
     const responseData = await response.json();
 
     if (!response.ok) {
       const errorMessage = responseData.message || `HTTP error! status: ${response.status}`;
-      console.error('Update failed:', errorMessage);
+      console.error('Patch transaction failed:', errorMessage, responseData.errors);
       throw new Error(errorMessage);
     }
 
-    console.log('Transaction category updated successfully:', responseData);
+    console.log('Transaction patched successfully:', responseData);
     return responseData; // Contains the updated transaction object
 
   } catch (error) {
-    console.error(`Error updating category for transaction ${transactionId}:`, error);
+    console.error(`Error patching transaction ${transactionId}:`, error);
     throw error;
   }
 };
+
+/**
+ * Updates the category of a specific transaction.
+ * @param {string} transactionId - The ID of the transaction to update.
+ * @param {string | null} categoryId - The new category ID (or null to remove category).
+ * @returns {Promise<{id: string, merchant: string, amount: number, date: string, categoryId: string | null, category?: {id: string, name: string, iconName?: string | null}}>} - The updated transaction object from the backend, including the nested category.
+ * @throws {Error} - Throws an error if the update fails.
+ */
+export const updateTransactionCategory = async (transactionId, categoryId) => {
+  return patchTransaction(transactionId, { categoryId: categoryId });
+};
+
+/**
+ * Updates the description of a specific transaction.
+ * @param {string} transactionId - The ID of the transaction to update.
+ * @param {string | null} description - The new description (or null/empty to remove it).
+ * @returns {Promise<object>} - The updated transaction object from the backend.
+ * @throws {Error} - Throws an error if the update fails.
+ */
+export const updateTransactionDescription = async (transactionId, description) => {
+  return patchTransaction(transactionId, { description: description || null });
+};
@@ -0,0 +1,48 @@
+import axios from 'axios';
+
+// TODO: Replace with your actual backend URL
+const API_URL = 'http://localhost:3000/api/transfers'; // Assuming backend runs on port 3000
+
+// Fetch all transfers, each with its from/to accounts and both legs
+export const getTransfers = async () => {
+  try {
+    const response = await axios.get(API_URL);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching transfers:', error);
+    throw error; // Re-throw the error to be handled by the caller
+  }
+};
+
+// Create a transfer; the backend records one leg in each account
+export const createTransfer = async (transferData) => {
+  try {
+    const response = await axios.post(API_URL, transferData);
+    return response.data;
+  } catch (error) {
+    console.error('Error creating transfer:', error);
+    throw error;
+  }
+};
+
+// Update a transfer (accounts, amount, date or description); both legs follow
+export const updateTransfer = async (id, transferData) => {
+  try {
+    const response = await axios.put(`${API_URL}/${id}`, transferData);
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating transfer ${id}:`, error);
+    throw error;
+  }
+};
+
+// Delete a transfer together with both legs
+export const deleteTransfer = async (id) => {
+  try {
+    const response = await axios.delete(`${API_URL}/${id}`);
+    return response.data; // Usually an empty object or success message
+  } catch (error) {
+    console.error(`Error deleting transfer ${id}:`, error);
+    throw error;
+  }
+};
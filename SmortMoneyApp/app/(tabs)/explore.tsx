@@ -19,6 +19,7 @@ import { getCategories } from '../../api/categoryService';
 import { getBudgets } from '../../api/budgetService';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useAuth } from '@/hooks/useAuth';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 
 // Get screen dimensions for responsive layout
@@ -34,8 +35,23 @@ interface Category {
 }
 
 interface SpendingSummaryItem {
-  categoryId: string;
+  categoryId: string | null;
+  categoryName: string;
   totalSpent: number;
+  transactionCount: number;
+}
+
+interface PeriodTotals {
+  income: number;
+  expenses: number;
+  net: number;
+  transfers: number;
+  transactionCount: number;
+}
+
+interface MonthlySummary {
+  categories: SpendingSummaryItem[];
+  totals: PeriodTotals;
 }
 
 interface PieChartData {
@@ -65,10 +81,12 @@ interface BarChartData {
 
 export default function ExploreScreen() {
   const colorScheme = useColorScheme();
+  const { user, signOut } = useAuth();
   const colors = Colors[colorScheme];
 
   const [pieChartData, setPieChartData] = useState<PieChartData[]>([]);
   const [barChartData, setBarChartData] = useState<BarChartData | null>(null);
+  const [periodTotals, setPeriodTotals] = useState<PeriodTotals | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -80,11 +98,13 @@ export default function ExploreScreen() {
       const currentYear = new Date().getFullYear();
 
       // Fetch summary, categories, and budgets
-      const [summary, categories, budgets] = await Promise.all([
-        getTransactionSummary(currentMonth, currentYear),
+      const [summaryResponse, categories, budgets] = await Promise.all([
+        getTransactionSummary(currentMonth, currentYear) as Promise<MonthlySummary>,
         getCategories(),
         getBudgets(currentMonth, currentYear),
       ]);
+      const summary = summaryResponse.categories;
+      setPeriodTotals(summaryResponse.totals);
 
       // Generate colors for pie chart
       const chartColors = [
@@ -100,21 +120,16 @@ export default function ExploreScreen() {
       ];
 
       // --- Process data for PieChart ---
-      const processedPieData = summary
-        .map((item: SpendingSummaryItem, index: number) => {
-          const category = categories.find((cat: Category) => cat.id === item.categoryId);
-          if (!category || item.totalSpent <= 0) {
-            return null; // Skip items with no category or zero/negative spending
-          }
-          return {
-            name: category.name,
-            population: item.totalSpent,
-            color: chartColors[index % chartColors.length],
-            legendFontColor: colors.text,
-            legendFontSize: 12,
-          };
-        })
-        .filter((item: PieChartData | null): item is PieChartData => item !== null);
+      // The summary is already grouped per category (uncategorized included), biggest first
+      const processedPieData: PieChartData[] = summary
+        .filter((item: SpendingSummaryItem) => item.totalSpent > 0) // Skip categories with no spending
+        .map((item: SpendingSummaryItem, index: number) => ({
+          name: item.categoryName,
+          population: item.totalSpent,
+          color: chartColors[index % chartColors.length],
+          legendFontColor: colors.text,
+          legendFontSize: 12,
+        }));
 
       setPieChartData(processedPieData);
 
@@ -230,6 +245,36 @@ export default function ExploreScreen() {
             </TouchableOpacity>
           </View>
 
+          {/* Income / Expense Totals */}
+          {!isLoading && !error && periodTotals && (
+            <Card style={styles.chartCard}>
+              <View style={styles.totalsRow}>
+                <View style={styles.totalItem}>
+                  <ThemedText style={styles.totalLabel}>Income</ThemedText>
+                  <ThemedText type="defaultSemiBold" style={[styles.totalAmount, { color: colors.success }]}>
+                    ${periodTotals.income.toFixed(2)}
+                  </ThemedText>
+                </View>
+                <View style={styles.totalItem}>
+                  <ThemedText style={styles.totalLabel}>Expenses</ThemedText>
+                  <ThemedText type="defaultSemiBold" style={[styles.totalAmount, { color: colors.bad }]}>
+                    ${periodTotals.expenses.toFixed(2)}
+                  </ThemedText>
+                </View>
+                <View style={styles.totalItem}>
+                  <ThemedText style={styles.totalLabel}>Net</ThemedText>
+                  <ThemedText type="defaultSemiBold" style={styles.totalAmount}>
+                    {periodTotals.net < 0 ? '-' : ''}${Math.abs(periodTotals.net).toFixed(2)}
+                  </ThemedText>
+                </View>
+              </View>
+              <ThemedText style={styles.totalsCaption}>
+                {periodTotals.transactionCount} transaction(s) this month
+                {periodTotals.transfers > 0 ? ` · $${periodTotals.transfers.toFixed(2)} moved between accounts` : ''}
+              </ThemedText>
+            </Card>
+          )}
+
           {/* Spending Chart Section */}
           <Card style={styles.chartCard}>
             <ThemedText type="subtitle" style={styles.sectionTitle}>
@@ -340,6 +385,27 @@ export default function ExploreScreen() {
               leftIcon={<MaterialCommunityIcons name="tag-multiple" size={18} color={colors.primary} />}
               style={[styles.button, {marginTop: 12}]}
             />
+            <Button
+              title="Manage Accounts"
+              onPress={() => router.push('/accounts')}
+              variant="outline"
+              leftIcon={<MaterialCommunityIcons name="bank" size={18} color={colors.primary} />}
+              style={StyleSheet.flatten([styles.button, {marginTop: 12}])}
+            />
+            <Button
+              title="Backup & Restore"
+              onPress={() => router.push('/backup')}
+              variant="outline"
+              leftIcon={<MaterialCommunityIcons name="database-export" size={18} color={colors.primary} />}
+              style={StyleSheet.flatten([styles.button, {marginTop: 12}])}
+            />
+            <Button
+              title={user ? `Log Out (${user.email})` : 'Log Out'}
+              onPress={signOut}
+              variant="ghost"
+              leftIcon={<MaterialCommunityIcons name="logout" size={18} color={colors.primary} />}
+              style={StyleSheet.flatten([styles.button, {marginTop: 12}])}
+            />
           </View>
         </View>
       </ScrollView>
@@ -392,6 +458,28 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     padding: 12,
   },
+  totalsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  totalItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  totalLabel: {
+    fontSize: 13,
+    marginBottom: 4,
+    opacity: 0.7,
+  },
+  totalAmount: {
+    fontSize: 16,
+  },
+  totalsCaption: {
+    marginTop: 8,
+    fontSize: 12,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
   sectionTitle: {
     fontSize: 16,
     marginBottom: 16,
@@ -7,13 +7,15 @@ import {
   ActivityIndicator, 
   ScrollView, 
   TouchableOpacity,
-  Text as RNText,
   Dimensions
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
+import { router, useFocusEffect } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
-import { uploadTransactionImage, updateTransactionCategory } from '../../api/transactions';
-import { getCategories } from '../../api/categoryService';
+import * as DocumentPicker from 'expo-document-picker';
+import { Picker } from '@react-native-picker/picker';
+import { uploadImportImage, rememberBatchImage, getImports } from '../../api/importService';
+import { getAccounts } from '../../api/accountService';
 import { Colors } from '../../constants/Colors';
 import { useColorScheme } from '../../hooks/useColorScheme';
 import { ThemedView } from '../../components/ThemedView';
@@ -26,21 +28,13 @@ import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityI
 const { width } = Dimensions.get('window');
 const containerPadding = 16;
 const contentWidth = width - (containerPadding * 2);
+// Statements are uploaded as PDFs; the backend reads them page by page
+const PDF_MIME_TYPE = 'application/pdf';
 
 // Define interfaces for type safety
-interface CategoryType {
+interface AccountType {
   id: string;
   name: string;
-  iconName?: string | null;
-}
-
-interface TransactionType {
-  id: string;
-  merchant: string;
-  amount: number;
-  date: string;
-  categoryId: string | null;
-  category?: CategoryType;
 }
 
 interface ApiError {
@@ -49,9 +43,19 @@ interface ApiError {
   error?: string;
 }
 
+// An import whose drafts haven't been committed yet
+interface PendingImportType {
+  id: string;
+  imageCount: number;
+  createdAt: string;
+  account?: AccountType | null;
+  _count: { drafts: number };
+}
+
 interface ApiResponse {
   message: string;
-  transactions: TransactionType[];
+  batch: { id: string };
+  imageIndex: number;
   errors?: ApiError[];
 }
 
@@ -59,30 +63,45 @@ export default function HomeScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light']; // Added fallback for colorScheme
 
-  // State to hold multiple images
-  const [images, setImages] = useState<ImagePicker.ImagePickerAsset[]>([]);
+  // State to hold multiple images, or PDF statements picked as documents
+  const [images, setImages] = useState<(ImagePicker.ImagePickerAsset | DocumentPicker.DocumentPickerAsset)[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [isUpdatingCategory, setIsUpdatingCategory] = useState<string | null>(null);
   // Store status per image or overall
   const [uploadStatus, setUploadStatus] = useState('');
-  // Aggregate transactions from all uploads
-  const [savedTransactions, setSavedTransactions] = useState<TransactionType[]>([]);
-  const [categories, setCategories] = useState<CategoryType[]>([]);
+  const [accounts, setAccounts] = useState<AccountType[]>([]);
+  // Account applied to every transaction extracted from this upload batch
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  // Earlier uploads still waiting for review
+  const [pendingImports, setPendingImports] = useState<PendingImportType[]>([]);
 
-  // Fetch categories on mount
+  // Fetch accounts on mount
   useEffect(() => {
-    const fetchCategories = async () => {
+    const fetchAccounts = async () => {
       try {
-        const fetchedCategories = await getCategories();
-        setCategories(fetchedCategories);
+        const fetchedAccounts = await getAccounts();
+        setAccounts(fetchedAccounts);
       } catch (error) {
-        console.error("Failed to fetch categories:", error);
-        Alert.alert("Error", "Could not load categories. Category editing may not work correctly.");
+        console.error("Failed to fetch accounts:", error);
       }
     };
-    fetchCategories();
+    fetchAccounts();
   }, []);
 
+  // Refetch pending imports when the screen comes back into focus (e.g. after a review)
+  useFocusEffect(
+    useCallback(() => {
+      const fetchPendingImports = async () => {
+        try {
+          const fetchedImports = await getImports();
+          setPendingImports(fetchedImports);
+        } catch (error) {
+          console.error("Failed to fetch pending imports:", error);
+        }
+      };
+      fetchPendingImports();
+    }, [])
+  );
+
   const pickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -100,7 +119,20 @@ export default function HomeScreen() {
     if (!result.canceled && result.assets) {
       setImages(result.assets); // Store the array of selected assets
       setUploadStatus('');
-      setSavedTransactions([]);
+    }
+  };
+
+  // Bank and card statements usually come as PDFs, which the image library doesn't offer
+  const pickStatement = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: PDF_MIME_TYPE,
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+
+    if (!result.canceled && result.assets) {
+      setImages(result.assets);
+      setUploadStatus('');
     }
   };
 
@@ -112,7 +144,8 @@ export default function HomeScreen() {
 
     setIsLoading(true);
     setUploadStatus(`Uploading ${images.length} image(s)...`);
-    let cumulativeTransactions: TransactionType[] = [];
+    // Every image goes into the same batch, started by the first successful upload
+    let batchId: string | null = null;
     let cumulativeErrors: ApiError[] = [];
     let successCount = 0;
     let failCount = 0;
@@ -121,16 +154,10 @@ export default function HomeScreen() {
       const image = images[i];
       setUploadStatus(`Uploading image ${i + 1} of ${images.length}...`);
       try {
-        const responseData = await uploadTransactionImage(image) as ApiResponse;
+        const responseData = await uploadImportImage(image, { accountId: selectedAccountId, batchId }) as ApiResponse;
         successCount++;
-        if (responseData.transactions) {
-          // Ensure category data is populated if available from upload response
-          const transactionsWithCategory = responseData.transactions.map(t => ({
-            ...t,
-            category: categories.find(c => c.id === t.categoryId)
-          }));
-          cumulativeTransactions = [...cumulativeTransactions, ...transactionsWithCategory];
-        }
+        batchId = responseData.batch.id;
+        rememberBatchImage(batchId, responseData.imageIndex, image.uri);
         if (responseData.errors) {
           cumulativeErrors = [...cumulativeErrors, ...responseData.errors];
         }
@@ -142,72 +169,22 @@ export default function HomeScreen() {
       }
     }
 
-    // Update final status and transactions list
+    // Update final status
     let finalStatus = `Processed ${images.length} image(s). ${successCount} succeeded, ${failCount} failed.`;
     if (cumulativeErrors.length > 0) {
       finalStatus += ` ${cumulativeErrors.length} error(s) encountered.`;
       // Optionally log detailed errors here or show a summary
     }
     setUploadStatus(finalStatus);
-    setSavedTransactions(cumulativeTransactions);
     setIsLoading(false);
-  };
-
-  // Category Change Handling
-  const handleChangeCategory = (transaction: TransactionType) => {
-    if (isUpdatingCategory) return; // Prevent multiple updates at once
 
-    const categoryOptions: Array<{ text: string; onPress?: () => void; style?: 'default' | 'cancel' | 'destructive' }> = categories.map(cat => ({
-      text: cat.name,
-      onPress: () => updateCategory(transaction.id, cat.id),
-    }));
-
-    // Add "Uncategorized" option
-    categoryOptions.push({
-      text: 'Uncategorized',
-      onPress: () => updateCategory(transaction.id, null),
-    });
-
-    // Add Cancel button
-    categoryOptions.push({
-      text: 'Cancel',
-      style: 'cancel',
-    });
-
-    Alert.alert(
-      'Change Category',
-      `Select a new category for "${transaction.merchant}"`,
-      categoryOptions,
-      { cancelable: true }
-    );
-  };
-
-  const updateCategory = async (transactionId: string, newCategoryId: string | null) => {
-    setIsUpdatingCategory(transactionId);
-    try {
-      const updatedTransaction = await updateTransactionCategory(transactionId, newCategoryId) as TransactionType;
-
-      // Update local state immediately for better UX
-      setSavedTransactions(prevTransactions =>
-        prevTransactions.map(t =>
-          t.id === transactionId ? { ...t, categoryId: newCategoryId, category: updatedTransaction.category } : t
-        )
-      );
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : 'An unknown error occurred.';
-      Alert.alert('Update Failed', `Could not update category: ${message}`);
-    } finally {
-      setIsUpdatingCategory(null);
+    // Nothing is saved yet: the extracted drafts are reviewed before committing
+    if (batchId) {
+      setImages([]);
+      router.push({ pathname: '/import-review', params: { batchId } });
     }
   };
 
-  // Helper to get category name
-  const getCategoryName = useCallback((categoryId: string | null): string => {
-    if (!categoryId) return 'Uncategorized';
-    const category = categories.find(cat => cat.id === categoryId);
-    return category ? category.name : 'Unknown Category';
-  }, [categories]);
-
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleDateString(undefined, { 
@@ -249,6 +226,27 @@ export default function HomeScreen() {
                 leftIcon={<MaterialCommunityIcons name="image-multiple" size={18} color="#fff" />} // Updated icon
                 style={styles.uploadButton}
               />
+              <Button
+                title="Select PDF Statement"
+                onPress={pickStatement}
+                variant="outline"
+                leftIcon={<MaterialCommunityIcons name="file-pdf-box" size={18} color={colors.primary} />}
+                style={StyleSheet.flatten([styles.uploadButton, styles.manualButton])}
+              />
+              <Button
+                title="Enter Manually"
+                onPress={() => router.push('/add-transaction')}
+                variant="outline"
+                leftIcon={<MaterialCommunityIcons name="pencil-plus" size={18} color={colors.primary} />}
+                style={StyleSheet.flatten([styles.uploadButton, styles.manualButton])}
+              />
+              <Button
+                title="Import CSV"
+                onPress={() => router.push('/import-csv')}
+                variant="outline"
+                leftIcon={<MaterialCommunityIcons name="file-delimited-outline" size={18} color={colors.primary} />}
+                style={StyleSheet.flatten([styles.uploadButton, styles.manualButton])}
+              />
             </View>
           </Card>
         ) : (
@@ -258,10 +256,30 @@ export default function HomeScreen() {
              <ThemedText style={styles.selectedInfoText}>
                {images.length} image(s) selected.
              </ThemedText>
-             {/* Optional: Add a ScrollView with Image thumbnails here */}
-             {/* <ScrollView horizontal>
-               {images.map(img => <Image key={img.uri} source={{uri: img.uri}} style={styles.thumbnail} />)}
-             </ScrollView> */}
+             <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+               {images.map(img => img.mimeType === PDF_MIME_TYPE
+                 ? (
+                   <View key={img.uri} style={[styles.thumbnail, styles.pdfThumbnail]}>
+                     <MaterialCommunityIcons name="file-pdf-box" size={40} color={colors.primary} />
+                   </View>
+                 )
+                 : <Image key={img.uri} source={{uri: img.uri}} style={styles.thumbnail} />)}
+             </ScrollView>
+             {/* Account selector, only shown once accounts exist */}
+             {accounts.length > 0 && (
+               <View style={[styles.accountPicker, { borderColor: colors.inputBorder }]}>
+                 <Picker
+                   selectedValue={selectedAccountId}
+                   onValueChange={(itemValue: string | null) => setSelectedAccountId(itemValue)}
+                   enabled={!isLoading}
+                 >
+                   <Picker.Item label="-- No Account --" value={null} />
+                   {accounts.map(account => (
+                     <Picker.Item key={account.id} label={account.name} value={account.id} />
+                   ))}
+                 </Picker>
+               </View>
+             )}
             <View style={styles.buttonContainer}>
               <Button
                 title={`Upload ${images.length}`}
@@ -276,7 +294,6 @@ export default function HomeScreen() {
                 onPress={() => {
                   setImages([]); // Clear the images array
                   setUploadStatus('');
-                  setSavedTransactions([]);
                 }}
                 disabled={isLoading}
                 variant="outline"
@@ -309,57 +326,35 @@ export default function HomeScreen() {
           </View>
         )}
 
-        {/* Transactions List */}
-        {savedTransactions.length > 0 && (
+        {/* Imports waiting for review */}
+        {pendingImports.length > 0 && (
           <View style={styles.transactionsContainer}>
             <ThemedText type="subtitle" style={styles.sectionTitle}>
-              Processed Transactions
+              Waiting for Review
             </ThemedText>
-            
-            {savedTransactions.map((transaction) => (
-              <Card key={transaction.id} style={styles.transactionCard}>
-                <View style={styles.transactionHeader}>
-                  <ThemedText type="defaultSemiBold" style={styles.merchantName}>
-                    {transaction.merchant}
-                  </ThemedText>
-                  <ThemedText style={styles.transactionDate}>
-                    {formatDate(transaction.date)}
-                  </ThemedText>
-                </View>
-                
-                <View style={styles.transactionDetails}>
-                  <View style={styles.amountContainer}>
-                    <ThemedText type="defaultSemiBold" style={styles.amountText}>
-                      ${transaction.amount.toFixed(2)}
+
+            {pendingImports.map((pendingImport) => (
+              <TouchableOpacity
+                key={pendingImport.id}
+                onPress={() => router.push({ pathname: '/import-review', params: { batchId: pendingImport.id } })}
+              >
+                <Card style={styles.transactionCard}>
+                  <View style={styles.transactionHeader}>
+                    <ThemedText type="defaultSemiBold" style={styles.merchantName}>
+                      {pendingImport._count.drafts} draft(s) from {pendingImport.imageCount} image(s)
                     </ThemedText>
+                    <ThemedText style={styles.transactionDate}>
+                      {formatDate(pendingImport.createdAt)}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.transactionDetails}>
+                    <ThemedText style={styles.transactionDate}>
+                      {pendingImport.account?.name ?? 'No account'}
+                    </ThemedText>
+                    <MaterialCommunityIcons name="chevron-right" size={20} color={colors.icon} />
                   </View>
-                  
-                  <TouchableOpacity
-                    onPress={() => handleChangeCategory(transaction)}
-                    disabled={isUpdatingCategory === transaction.id}
-                    style={[
-                      styles.categoryChip,
-                      { backgroundColor: colors.primary + '20' } // 20% opacity
-                    ]}
-                  >
-                    {isUpdatingCategory === transaction.id ? (
-                      <ActivityIndicator size="small" color={colors.primary} />
-                    ) : (
-                      <>
-                        <MaterialCommunityIcons 
-                          name={transaction.category?.iconName || "tag-outline"} 
-                          size={16} 
-                          color={colors.primary} 
-                          style={styles.categoryIcon}
-                        />
-                        <RNText style={[styles.categoryText, { color: colors.primary }]}>
-                          {getCategoryName(transaction.categoryId)}
-                        </RNText>
-                      </>
-                    )}
-                  </TouchableOpacity>
-                </View>
-              </Card>
+                </Card>
+              </TouchableOpacity>
             ))}
           </View>
         )}
@@ -416,6 +411,9 @@ const styles = StyleSheet.create({
   uploadButton: {
     minWidth: 150,
   },
+  manualButton: {
+    marginTop: 8,
+  },
   imageCard: {
     marginVertical: 12,
     padding: 15, // Added padding for consistency
@@ -426,14 +424,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontStyle: 'italic',
   },
-  // Optional thumbnail style
-  // thumbnail: {
-  //   width: 60,
-  //   height: 60,
-  //   borderRadius: 4,
-  //   marginRight: 8,
-  //   marginBottom: 12,
-  // },
+  accountPicker: {
+    borderWidth: 1,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    width: 60,
+    height: 60,
+    borderRadius: 4,
+    marginRight: 8,
+    marginBottom: 12,
+  },
+  pdfThumbnail: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -479,28 +485,4 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
-  amountContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  amountText: {
-    fontSize: 16,
-  },
-  categoryChip: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingVertical: 4,
-    paddingHorizontal: 8,
-    borderRadius: 16,
-    minHeight: 28,
-    minWidth: 90, // Adjusted minWidth
-    justifyContent: 'center', // Center content in chip
-  },
-  categoryIcon: {
-    marginRight: 4,
-  },
-  categoryText: {
-    fontSize: 13,
-    fontWeight: '500',
-  },
 });
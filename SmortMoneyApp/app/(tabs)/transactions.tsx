@@ -1,17 +1,26 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import { View, FlatList, StyleSheet, ActivityIndicator, Alert, TouchableOpacity, Modal, Platform } from 'react-native'; // Removed Dimensions as it wasn't used here
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Card } from '@/components/Card';
 import { Button } from '@/components/Button';
 import { Input } from '@/components/Input';
+import { DirectionSelector } from '@/components/DirectionSelector';
+import { SplitEditor, SplitLine, splitLinesTotal } from '@/components/SplitEditor';
+import { ReceiptImage } from '@/components/ReceiptImage';
+import { LineItemList, LineItem } from '@/components/LineItemList';
+import ExportTransactionsModal from '@/components/ExportTransactionsModal';
 import { ContainerLayout } from '@/components/ContainerLayout'; // Assuming this component exists and provides necessary layout
-import { getAllTransactions, updateTransaction as apiUpdateTransaction, deleteTransaction as apiDeleteTransaction } from '@/api/transactions';
+import { router, useFocusEffect } from 'expo-router';
+import { getTransactions, patchTransaction as apiPatchTransaction, deleteTransaction as apiDeleteTransaction } from '@/api/transactions';
 import { getCategories } from '@/api/categoryService';
+import { getAccounts } from '@/api/accountService';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { Picker } from '@react-native-picker/picker';
 import { Colors } from '@/constants/Colors';
+import { TransactionDirection, formatTransactionAmount } from '@/constants/Transactions';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 
 // --- Define Types Locally ---
 interface Category {
@@ -20,26 +29,66 @@ interface Category {
   iconName?: string | null;
 }
 
+interface Account {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface TransactionSplit {
+  id: string;
+  categoryId?: string | null;
+  amount: number;
+  category?: Category | null;
+}
+
 interface Transaction {
   id: string;
   merchant: string;
   amount: number;
+  direction: TransactionDirection;
   date: string;
   description?: string | null;
   categoryId?: string | null;
+  accountId?: string | null;
+  transferId?: string | null; // Set on both legs of a transfer between accounts
+  receiptId?: string | null; // Stored screenshot the transaction was extracted from
+  splits?: TransactionSplit[];
+  lineItems?: LineItem[]; // Itemized lines read from the receipt, if any
+  needsReview?: boolean; // Extraction wasn't sure of the merchant, amount or date
+  reviewReason?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
 interface TransactionWithCategory extends Transaction {
   category?: Category | null;
+  account?: Account | null;
 }
+
+interface TransactionPage {
+  transactions: TransactionWithCategory[];
+  nextCursor: string | null;
+}
+
+type SortOption = 'newest' | 'oldest' | 'largest' | 'smallest';
 // --- End Type Definitions ---
 
+const PAGE_SIZE = 30;
+
+// Sort options cycled by the sort button, mapped onto the API's sortBy/sortOrder
+const SORT_OPTIONS: Record<SortOption, { label: string; sortBy: string; sortOrder: 'asc' | 'desc'; next: SortOption }> = {
+  newest: { label: 'Newest', sortBy: 'date', sortOrder: 'desc', next: 'oldest' },
+  oldest: { label: 'Oldest', sortBy: 'date', sortOrder: 'asc', next: 'largest' },
+  largest: { label: 'Largest', sortBy: 'amount', sortOrder: 'desc', next: 'smallest' },
+  smallest: { label: 'Smallest', sortBy: 'amount', sortOrder: 'asc', next: 'newest' },
+};
+
 
 export default function TransactionsScreen() {
   const [transactions, setTransactions] = useState<TransactionWithCategory[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
@@ -47,24 +96,49 @@ export default function TransactionsScreen() {
   const [editFormData, setEditFormData] = useState({
     merchant: '',
     amount: '',
+    direction: 'expense' as TransactionDirection,
     date: new Date(),
     categoryId: null as string | null,
+    accountId: null as string | null,
     description: '',
+    splits: [] as SplitLine[],
   });
   const [showDatePicker, setShowDatePicker] = useState(false);
+  // Pagination and filter state
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [merchantFilter, setMerchantFilter] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null); // null = all, 'uncategorized' = none
+  const [sortOption, setSortOption] = useState<SortOption>('newest');
+  const [reviewFilter, setReviewFilter] = useState(false); // Only transactions flagged for review
+  const [isExportModalVisible, setIsExportModalVisible] = useState(false);
   const colorScheme = useColorScheme(); // Get color scheme once
   const colors = Colors[colorScheme ?? 'light']; // Get colors once
 
+  // Query parameters shared by the first page and every following page
+  const buildQueryParams = useCallback(() => ({
+    merchant: merchantFilter,
+    categoryId: categoryFilter,
+    needsReview: reviewFilter ? true : undefined,
+    sortBy: SORT_OPTIONS[sortOption].sortBy,
+    sortOrder: SORT_OPTIONS[sortOption].sortOrder,
+    limit: PAGE_SIZE,
+  }), [merchantFilter, categoryFilter, reviewFilter, sortOption]);
+
   const fetchData = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const [fetchedTransactions, fetchedCategories] = await Promise.all([
-        getAllTransactions(),
-        getCategories()
+      const [fetchedPage, fetchedCategories, fetchedAccounts] = await Promise.all([
+        getTransactions(buildQueryParams()) as Promise<TransactionPage>,
+        getCategories(),
+        getAccounts()
       ]);
-      setTransactions(fetchedTransactions as TransactionWithCategory[]);
+      setTransactions(fetchedPage.transactions);
+      setNextCursor(fetchedPage.nextCursor);
       setCategories(fetchedCategories);
+      setAccounts(fetchedAccounts);
     } catch (err: any) {
       console.error("Error fetching data:", err);
       setError(err.message || 'Failed to fetch data');
@@ -72,20 +146,43 @@ export default function TransactionsScreen() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [buildQueryParams]);
 
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  // Append the next page when the list is scrolled near its end
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore || loading) return;
+    setLoadingMore(true);
+    try {
+      const fetchedPage = await getTransactions({ ...buildQueryParams(), cursor: nextCursor }) as TransactionPage;
+      setTransactions(current => [...current, ...fetchedPage.transactions]);
+      setNextCursor(fetchedPage.nextCursor);
+    } catch (err: any) {
+      console.error("Error loading more transactions:", err);
+      Alert.alert('Error', 'Could not load more transactions.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Refetch whenever the tab gains focus (so entries added from the quick-add screen show up)
+  // and whenever the filters change
+  useFocusEffect(
+    useCallback(() => {
+      fetchData();
+    }, [fetchData])
+  );
 
   const openEditModal = (transaction: TransactionWithCategory) => {
     setSelectedTransaction(transaction);
     setEditFormData({
       merchant: transaction.merchant,
       amount: transaction.amount.toString(),
+      direction: transaction.direction ?? 'expense',
       date: new Date(transaction.date),
       categoryId: transaction.categoryId ?? null,
+      accountId: transaction.accountId ?? null,
       description: transaction.description || '',
+      splits: (transaction.splits ?? []).map(split => ({ categoryId: split.categoryId ?? null, amount: split.amount.toString() })),
     });
     setIsEditModalVisible(true);
   };
@@ -95,7 +192,7 @@ export default function TransactionsScreen() {
     setSelectedTransaction(null);
   };
 
-  const handleInputChange = (name: keyof typeof editFormData, value: string | Date | null) => {
+  const handleInputChange = (name: keyof typeof editFormData, value: string | Date | TransactionDirection | null) => {
     setEditFormData(prev => ({ ...prev, [name]: value }));
   };
 
@@ -118,19 +215,47 @@ export default function TransactionsScreen() {
         return;
     }
     const amountNumber = parseFloat(editFormData.amount);
-    if (isNaN(amountNumber)) {
-        Alert.alert('Validation Error', 'Amount must be a valid number.');
+    if (isNaN(amountNumber) || amountNumber <= 0) {
+        Alert.alert('Validation Error', 'Amount must be a positive number.');
+        return;
+    }
+
+    const splitLines = editFormData.splits.map(line => ({ categoryId: line.categoryId, amount: parseFloat(line.amount) }));
+    if (splitLines.some(line => isNaN(line.amount) || line.amount <= 0)) {
+        Alert.alert('Validation Error', 'Every split line needs a positive amount.');
+        return;
+    }
+    if (splitLines.length > 0 && Math.abs(splitLinesTotal(editFormData.splits) - amountNumber) >= 0.005) {
+        Alert.alert('Validation Error', 'Split lines must add up to the transaction amount.');
         return;
     }
 
+    // Only send the fields that actually changed, so single-field edits stay single-field
+    const changedFields: Record<string, string | number | boolean | null | { categoryId: string | null; amount: number }[]> = {};
+    if (editFormData.merchant !== selectedTransaction.merchant) changedFields.merchant = editFormData.merchant;
+    if (amountNumber !== selectedTransaction.amount) changedFields.amount = amountNumber;
+    if (editFormData.direction !== selectedTransaction.direction) changedFields.direction = editFormData.direction;
+    if (editFormData.date.getTime() !== new Date(selectedTransaction.date).getTime()) {
+      changedFields.date = editFormData.date.toISOString();
+    }
+    if (editFormData.categoryId !== (selectedTransaction.categoryId ?? null)) changedFields.categoryId = editFormData.categoryId;
+    if (editFormData.accountId !== (selectedTransaction.accountId ?? null)) changedFields.accountId = editFormData.accountId;
+    if (editFormData.description !== (selectedTransaction.description || '')) {
+      changedFields.description = editFormData.description || null;
+    }
+    const originalSplits = (selectedTransaction.splits ?? []).map(split => ({ categoryId: split.categoryId ?? null, amount: split.amount }));
+    if (JSON.stringify(splitLines) !== JSON.stringify(originalSplits)) changedFields.splits = splitLines;
+    // Saving a flagged transaction means its extracted fields have been checked
+    if (selectedTransaction.needsReview) changedFields.needsReview = false;
+
+    if (Object.keys(changedFields).length === 0) {
+      closeEditModal();
+      return;
+    }
+
     try {
       setLoading(true);
-      const updatedData = {
-        ...editFormData,
-        amount: amountNumber,
-        date: editFormData.date.toISOString(),
-      };
-      await apiUpdateTransaction(selectedTransaction.id, updatedData);
+      await apiPatchTransaction(selectedTransaction.id, changedFields);
       closeEditModal();
       await fetchData(); // Refresh the list after update
       Alert.alert('Success', 'Transaction updated successfully.');
@@ -143,10 +268,13 @@ export default function TransactionsScreen() {
     }
   };
 
-  const handleDeleteTransaction = (transactionId: string) => {
+  const handleDeleteTransaction = (transaction: TransactionWithCategory) => {
+    const transactionId = transaction.id;
     Alert.alert(
       'Confirm Deletion',
-      'Are you sure you want to delete this transaction?',
+      transaction.transferId
+        ? 'This is one side of a transfer. Deleting it removes the transfer from both accounts. Continue?'
+        : 'Are you sure you want to delete this transaction?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -157,8 +285,9 @@ export default function TransactionsScreen() {
             try {
               await apiDeleteTransaction(transactionId);
               // Update local state immediately for better UX
+              // (both legs disappear when a transfer is deleted)
               setTransactions(currentTransactions =>
-                currentTransactions.filter(t => t.id !== transactionId)
+                currentTransactions.filter(t => t.id !== transactionId && (!transaction.transferId || t.transferId !== transaction.transferId))
               );
               Alert.alert('Success', 'Transaction deleted successfully.');
             } catch (err: any) {
@@ -180,7 +309,7 @@ export default function TransactionsScreen() {
   const handleClearAllTransactions = async () => {
     Alert.alert(
       'Confirm Clear All',
-      'Are you sure you want to delete ALL transactions? This cannot be undone.',
+      'Are you sure you want to delete ALL transactions? This cannot be undone; create a backup first under Reports > Backup & Restore.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -222,19 +351,37 @@ export default function TransactionsScreen() {
       <View style={styles.transactionRow}>
         <View style={styles.transactionDetails}>
           <ThemedText style={styles.merchant}>{item.merchant}</ThemedText>
+          {item.needsReview && (
+            <View style={[styles.reviewBadge, { backgroundColor: colors.warning + '20' }]}>
+              <MaterialCommunityIcons name="alert-circle-outline" size={14} color={colors.warning} />
+              <ThemedText style={[styles.reviewBadgeText, { color: colors.warning }]}>Needs review</ThemedText>
+            </View>
+          )}
           <ThemedText style={[styles.date, { color: colors.muted }]}>{new Date(item.date).toLocaleDateString()}</ThemedText>
           <ThemedText style={[styles.category, { color: colors.text }]}>
-            Category: {item.category?.name || 'Uncategorized'}
+            {item.splits && item.splits.length > 0
+              ? `Split: ${item.splits.map(split => `${split.category?.name || 'Uncategorized'} $${split.amount.toFixed(2)}`).join(', ')}`
+              : `Category: ${item.category?.name || 'Uncategorized'}`}
           </ThemedText>
+          {item.account && <ThemedText style={[styles.description, { color: colors.muted }]}>Account: {item.account.name}</ThemedText>}
           {item.description && <ThemedText style={[styles.description, { color: colors.muted }]}>Desc: {item.description}</ThemedText>}
+          {item.lineItems && <LineItemList items={item.lineItems} />}
         </View>
         <View style={styles.transactionAmountContainer}>
-            <ThemedText style={styles.amount}>${item.amount.toFixed(2)}</ThemedText>
+            <ThemedText
+              style={[
+                styles.amount,
+                item.direction === 'income' && { color: colors.success },
+                item.direction === 'transfer' && { color: colors.muted },
+              ]}
+            >
+              {formatTransactionAmount(item.amount, item.direction)}
+            </ThemedText>
         </View>
       </View>
       <View style={styles.actionsRow}>
         <Button title="Edit" onPress={() => openEditModal(item)} style={styles.actionButton} />
-        <Button title="Delete" onPress={() => handleDeleteTransaction(item.id)} style={StyleSheet.flatten([styles.actionButton, styles.deleteButton])} textStyle={styles.deleteButtonText} />
+        <Button title="Delete" onPress={() => handleDeleteTransaction(item)} style={StyleSheet.flatten([styles.actionButton, styles.deleteButton])} textStyle={styles.deleteButtonText} />
       </View>
     </Card>
   );
@@ -262,9 +409,23 @@ export default function TransactionsScreen() {
   // --- Main Return Block (Using ContainerLayout as root) ---
   return (
     // Changed root element to ContainerLayout for consistency
-    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer} noScroll>
       <View style={styles.headerRow}>
         <ThemedText type="title" style={styles.title}>All Transactions</ThemedText>
+        <Button
+          title="Add"
+          onPress={() => router.push('/add-transaction')}
+          variant="primary"
+          size="small"
+          style={styles.addButton}
+        />
+        <Button
+          title="Export"
+          onPress={() => setIsExportModalVisible(true)}
+          variant="outline"
+          size="small"
+          style={styles.addButton}
+        />
         <Button 
           title="Clear All" 
           onPress={handleClearAllTransactions} 
@@ -273,6 +434,46 @@ export default function TransactionsScreen() {
           style={styles.clearButton}
         />
       </View>
+      {/* Filters */}
+      <View style={styles.filterRow}>
+        <Input
+          value={searchText}
+          onChangeText={setSearchText}
+          onSubmitEditing={() => setMerchantFilter(searchText.trim())}
+          onBlur={() => setMerchantFilter(searchText.trim())}
+          placeholder="Search merchant"
+          returnKeyType="search"
+          containerStyle={styles.searchInput}
+        />
+        <Button
+          title={SORT_OPTIONS[sortOption].label}
+          onPress={() => setSortOption(SORT_OPTIONS[sortOption].next)}
+          variant="outline"
+          size="small"
+          style={styles.sortButton}
+        />
+        <Button
+          title="Needs Review"
+          onPress={() => setReviewFilter(prev => !prev)}
+          variant={reviewFilter ? 'primary' : 'outline'}
+          size="small"
+          style={styles.sortButton}
+        />
+      </View>
+      <View style={styles.filterPickerContainer}>
+        <Picker
+          selectedValue={categoryFilter}
+          onValueChange={(itemValue: string | null) => setCategoryFilter(itemValue)}
+          style={styles.picker}
+        >
+          <Picker.Item label="All Categories" value={null} />
+          <Picker.Item label="Uncategorized" value="uncategorized" />
+          {categories.map((cat) => (
+            <Picker.Item key={cat.id} label={cat.name} value={cat.id} />
+          ))}
+        </Picker>
+      </View>
+
       {/* Show inline loader during updates/deletes */}
       {loading && <ActivityIndicator style={styles.inlineLoader} color={colors.primary} />}
       <FlatList
@@ -280,10 +481,19 @@ export default function TransactionsScreen() {
         renderItem={renderTransactionItem}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.footerLoader} color={colors.primary} /> : null}
         ListEmptyComponent={<ThemedText style={styles.emptyText}>No transactions found.</ThemedText>}
       />
 
       {/* Edit Modal */}
+      <ExportTransactionsModal
+        isVisible={isExportModalVisible}
+        onClose={() => setIsExportModalVisible(false)}
+        filters={buildQueryParams()}
+      />
+
       <Modal
         animationType="slide"
         transparent={true}
@@ -295,6 +505,26 @@ export default function TransactionsScreen() {
           <ThemedView style={styles.modalContent}>
             <ThemedText type="subtitle" style={styles.modalTitle}>Edit Transaction</ThemedText>
 
+            {selectedTransaction?.receiptId && (
+              <ReceiptImage receiptId={selectedTransaction.receiptId} style={styles.receiptImage} />
+            )}
+            {selectedTransaction?.needsReview && (
+              <ThemedText style={[styles.description, { color: colors.warning }]}>
+                {selectedTransaction.reviewReason || 'Check the details read from the receipt'}. Saving marks it as reviewed.
+              </ThemedText>
+            )}
+
+            <DirectionSelector
+              value={editFormData.direction}
+              onChange={(direction) => handleInputChange('direction', direction)}
+              disabled={!!selectedTransaction?.transferId}
+            />
+            {selectedTransaction?.transferId && (
+              <ThemedText style={[styles.description, { color: colors.muted }]}>
+                Amount, date and description changes apply to both sides of this transfer.
+              </ThemedText>
+            )}
+
             <Input
               label="Merchant"
               value={editFormData.merchant}
@@ -328,7 +558,8 @@ export default function TransactionsScreen() {
                 )}
             </View>
 
-            {/* Category Picker */}
+            {/* Category Picker (replaced by the split lines once the transaction is split) */}
+            {editFormData.splits.length === 0 && (
              <View style={styles.pickerContainer}>
                 <ThemedText style={styles.label}>Category</ThemedText>
                 <Picker
@@ -343,6 +574,35 @@ export default function TransactionsScreen() {
                     ))}
                 </Picker>
             </View>
+            )}
+
+            {/* Split Editor (transfers are never split) */}
+            {!selectedTransaction?.transferId && editFormData.direction !== 'transfer' && (
+              <SplitEditor
+                splits={editFormData.splits}
+                onChange={(splits) => setEditFormData(prev => ({ ...prev, splits }))}
+                categories={categories}
+                totalAmount={parseFloat(editFormData.amount) || 0}
+              />
+            )}
+
+            {/* Account Picker */}
+            {accounts.length > 0 && !selectedTransaction?.transferId && (
+              <View style={styles.pickerContainer}>
+                  <ThemedText style={styles.label}>Account</ThemedText>
+                  <Picker
+                      selectedValue={editFormData.accountId}
+                      onValueChange={(itemValue: string | null) => handleInputChange('accountId', itemValue)}
+                      style={styles.picker}
+                      itemStyle={styles.pickerItem}
+                  >
+                      <Picker.Item label="-- No Account --" value={null} />
+                      {accounts.map((account) => (
+                      <Picker.Item key={account.id} label={account.name} value={account.id} />
+                      ))}
+                  </Picker>
+              </View>
+            )}
 
             <Input
               label="Description (Optional)"
@@ -383,6 +643,10 @@ const styles = StyleSheet.create({
   title: {
     flex: 1,
   },
+  addButton: {
+    minWidth: 70,
+    marginRight: 8,
+  },
   clearButton: {
     minWidth: 100,
   },
@@ -406,6 +670,28 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchInput: {
+    flex: 1,
+    marginBottom: 8,
+  },
+  sortButton: {
+    minWidth: 90,
+    marginLeft: 8,
+    marginBottom: 8,
+  },
+  filterPickerContainer: {
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: '#ccc', // Using static color since the colors variable is not accessible here
+    borderRadius: 4,
+  },
+  footerLoader: {
+    marginVertical: 12,
+  },
   card: {
     marginBottom: 8, // Reduced margin
     padding: 10, // Reduced padding
@@ -427,6 +713,19 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 15, // Slightly smaller font
   },
+  reviewBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginTop: 2,
+  },
+  reviewBadgeText: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
   amount: {
     fontWeight: 'bold',
     fontSize: 15, // Slightly smaller font
@@ -491,6 +790,12 @@ const styles = StyleSheet.create({
     marginBottom: 12, // Reduced margin
     textAlign: 'center',
   },
+  receiptImage: {
+    width: '100%',
+    height: 160,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
   input: {
     marginBottom: 10, // Reduced margin
   },
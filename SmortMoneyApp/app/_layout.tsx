@@ -1,6 +1,6 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Stack, router, useSegments } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
@@ -9,10 +9,65 @@ import { View, StyleSheet } from 'react-native';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { AuthProvider, useAuth } from '@/hooks/useAuth';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+// Screens reachable without a session
+const PUBLIC_ROUTES = ['login', 'register'];
+
+// Sends signed-out users to the login screen and signed-in users away from it
+function useProtectedRoute() {
+  const { user, loading } = useAuth();
+  const segments = useSegments();
+
+  useEffect(() => {
+    if (loading) return;
+    const onPublicRoute = PUBLIC_ROUTES.includes(segments[0] ?? '');
+    if (!user && !onPublicRoute) {
+      router.replace('/login');
+    } else if (user && onPublicRoute) {
+      router.replace('/');
+    }
+  }, [user, loading, segments]);
+}
+
+function RootNavigator() {
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerRight: () => <ThemeToggle style={styles.themeToggle} />,
+        contentStyle: {
+          alignItems: 'center', // Center content horizontally
+        },
+      }}
+    >
+      <Stack.Screen 
+        name="(tabs)" 
+        options={{ 
+          headerShown: false,
+        }} 
+      />
+      <Stack.Screen name="+not-found" />
+      <Stack.Screen name="login" options={{ title: 'Log In', headerBackVisible: false }} />
+      <Stack.Screen name="register" options={{ title: 'Create Account' }} />
+      <Stack.Screen name="budgets" options={{ title: 'Budgets' }} />
+      <Stack.Screen name="categories" options={{ title: 'Categories' }} />
+      <Stack.Screen name="rules" options={{ title: 'Category Rules' }} />
+      <Stack.Screen name="merchant-mappings" options={{ title: 'Learned Merchants' }} />
+      <Stack.Screen name="accounts" options={{ title: 'Accounts' }} />
+      <Stack.Screen name="add-transaction" options={{ title: 'Add Transaction' }} />
+      <Stack.Screen name="add-transfer" options={{ title: 'New Transfer' }} />
+      <Stack.Screen name="import-review" options={{ title: 'Review Import' }} />
+      <Stack.Screen name="import-csv" options={{ title: 'Import CSV' }} />
+      <Stack.Screen name="backup" options={{ title: 'Backup & Restore' }} />
+    </Stack>
+  );
+}
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [loaded] = useFonts({
@@ -52,24 +107,9 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? customDarkTheme : customLightTheme}>
-      <Stack
-        screenOptions={{
-          headerRight: () => <ThemeToggle style={styles.themeToggle} />,
-          contentStyle: {
-            alignItems: 'center', // Center content horizontally
-          },
-        }}
-      >
-        <Stack.Screen 
-          name="(tabs)" 
-          options={{ 
-            headerShown: false,
-          }} 
-        />
-        <Stack.Screen name="+not-found" />
-        <Stack.Screen name="budgets" options={{ title: 'Budgets' }} />
-        <Stack.Screen name="categories" options={{ title: 'Categories' }} />
-      </Stack>
+      <AuthProvider>
+        <RootNavigator />
+      </AuthProvider>
       <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
     </ThemeProvider>
   );
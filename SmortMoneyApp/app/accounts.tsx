@@ -0,0 +1,383 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  TouchableOpacity
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  getAccounts,
+  deleteAccount,
+  createAccount,
+  updateAccount
+} from '../api/accountService';
+import AccountFormModal, { ACCOUNT_TYPES } from '../components/AccountFormModal';
+import { ThemedView } from '../components/ThemedView';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+// Define Account type
+interface Account {
+  id: string;
+  name: string;
+  type: string;
+  openingBalance: number;
+  balance: number;
+  transactionCount: number;
+  ledgerBalance: number | null; // Balance the bank reported in the latest OFX statement
+  ledgerBalanceDate: string | null;
+}
+
+// Define AccountData type for the form
+interface AccountData {
+  name: string;
+  type: string;
+  openingBalance: number;
+}
+
+export default function AccountsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalMode, setModalMode] = useState<'add' | 'edit'>('add');
+  const [currentAccount, setCurrentAccount] = useState<Account | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await getAccounts();
+      setAccounts(data);
+    } catch (err) {
+      setError('Failed to fetch accounts. Please try again.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Refetch on focus so balances pick up transfers added from the transfer screen
+  useFocusEffect(
+    useCallback(() => {
+      fetchAccounts();
+    }, [fetchAccounts])
+  );
+
+  // Modal Handling
+  const openAddModal = () => {
+    setModalMode('add');
+    setCurrentAccount(null);
+    setIsModalVisible(true);
+  };
+
+  const openEditModal = (account: Account) => {
+    setModalMode('edit');
+    setCurrentAccount(account);
+    setIsModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setIsModalVisible(false);
+    setCurrentAccount(null);
+  };
+
+  const handleSaveAccount = async (accountData: AccountData) => {
+    try {
+      if (modalMode === 'add') {
+        await createAccount(accountData);
+        Alert.alert('Success', 'Account added successfully.');
+      } else if (modalMode === 'edit' && currentAccount) {
+        await updateAccount(currentAccount.id, accountData);
+        Alert.alert('Success', 'Account updated successfully.');
+      }
+      closeModal();
+      fetchAccounts();
+    } catch (err) {
+      Alert.alert('Error', `Failed to ${modalMode} account.`);
+      console.error(`${modalMode} error:`, err);
+      throw err;
+    }
+  };
+
+  // Delete Handling
+  const handleDeleteAccount = (id: string, name: string) => {
+    Alert.alert(
+      'Delete Account',
+      `Are you sure you want to delete "${name}"? Its transactions will be kept without an account.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAccount(id);
+              fetchAccounts();
+              Alert.alert('Success', 'Account deleted successfully.');
+            } catch (err: any) {
+              Alert.alert('Error', err.response?.data?.message || 'Failed to delete account.');
+              console.error('Delete error:', err);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getTypeIcon = (type: string): string =>
+    ACCOUNT_TYPES.find(option => option.value === type)?.icon ?? 'wallet';
+
+  const formatBalance = (balance: number): string =>
+    `${balance < 0 ? '-' : ''}$${Math.abs(balance).toFixed(2)}`;
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Accounts</ThemedText>
+      </View>
+
+      <View style={styles.actionContainer}>
+        <Button
+          title="Add New Account"
+          onPress={openAddModal}
+          variant="primary"
+          leftIcon={<MaterialCommunityIcons name="plus" size={18} color="#fff" />}
+        />
+        <Button
+          title="New Transfer"
+          onPress={() => router.push('/add-transfer')}
+          variant="outline"
+          disabled={accounts.length < 2}
+          leftIcon={<MaterialCommunityIcons name="bank-transfer" size={18} color={colors.primary} />}
+          style={styles.transferButton}
+        />
+      </View>
+
+      {isLoading && (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <ThemedText style={styles.loadingText}>Loading accounts...</ThemedText>
+        </View>
+      )}
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <MaterialCommunityIcons
+            name="alert-circle-outline"
+            size={24}
+            color={colors.error}
+          />
+          <ThemedText style={[styles.errorText, {color: colors.error}]}>
+            {error}
+          </ThemedText>
+        </View>
+      )}
+
+      {!isLoading && !error && (
+        <FlatList
+          data={accounts}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <Card style={styles.accountCard}>
+              <View style={styles.accountHeader}>
+                <View style={styles.accountInfo}>
+                  <MaterialCommunityIcons
+                    name={getTypeIcon(item.type)}
+                    size={24}
+                    color={colors.primary}
+                    style={styles.accountIcon}
+                  />
+                  <View>
+                    <ThemedText type="defaultSemiBold" style={styles.accountName}>
+                      {item.name}
+                    </ThemedText>
+                    <ThemedText style={styles.accountMeta}>
+                      {item.type} · {item.transactionCount} transaction(s)
+                    </ThemedText>
+                    {item.ledgerBalance !== null && item.ledgerBalanceDate && (
+                      <ThemedText style={styles.ledgerBalance}>
+                        Bank: {formatBalance(item.ledgerBalance)} on {new Date(item.ledgerBalanceDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                      </ThemedText>
+                    )}
+                  </View>
+                </View>
+                <ThemedText
+                  type="defaultSemiBold"
+                  style={[styles.balance, { color: item.balance < 0 ? colors.bad : colors.text }]}
+                >
+                  {formatBalance(item.balance)}
+                </ThemedText>
+              </View>
+              <View style={styles.accountActions}>
+                <TouchableOpacity
+                  onPress={() => openEditModal(item)}
+                  style={[styles.actionButton, { backgroundColor: colors.primary + '10' }]}
+                >
+                  <MaterialCommunityIcons
+                    name="pencil"
+                    size={20}
+                    color={colors.primary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleDeleteAccount(item.id, item.name)}
+                  style={[styles.actionButton, { backgroundColor: colors.error + '10' }]}
+                >
+                  <MaterialCommunityIcons
+                    name="delete"
+                    size={20}
+                    color={colors.error}
+                  />
+                </TouchableOpacity>
+              </View>
+            </Card>
+          )}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={(
+            <View style={styles.emptyContainer}>
+              <MaterialCommunityIcons
+                name="bank-plus"
+                size={48}
+                color={colors.muted}
+              />
+              <ThemedText style={styles.emptyText}>
+                No accounts found. Add your first card or bank account!
+              </ThemedText>
+            </View>
+          )}
+          refreshing={isLoading}
+          onRefresh={fetchAccounts}
+        />
+      )}
+
+      {/* Bottom navigation button */}
+      <View style={styles.footer}>
+        <Button
+          title="Back to Home"
+          onPress={() => router.push('/(tabs)')}
+          variant="outline"
+          fullWidth
+        />
+      </View>
+
+      <AccountFormModal
+        isVisible={isModalVisible}
+        onClose={closeModal}
+        onSave={handleSaveAccount}
+        initialData={currentAccount || undefined}
+        mode={modalMode}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  actionContainer: {
+    marginBottom: 16,
+  },
+  transferButton: {
+    marginTop: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    marginBottom: 16,
+  },
+  errorText: {
+    marginLeft: 8,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  accountCard: {
+    marginBottom: 10,
+  },
+  accountHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  accountInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  accountIcon: {
+    marginRight: 12,
+  },
+  accountName: {
+    fontSize: 16,
+  },
+  accountMeta: {
+    fontSize: 12,
+    opacity: 0.7,
+    textTransform: 'capitalize',
+  },
+  ledgerBalance: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  balance: {
+    fontSize: 16,
+  },
+  accountActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    marginTop: 16,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 16,
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Alert,
+  TouchableOpacity,
+  Platform
+} from 'react-native';
+import { router } from 'expo-router';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Picker } from '@react-native-picker/picker';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { createTransaction } from '../api/transactions';
+import { getCategories } from '../api/categoryService';
+import { getAccounts } from '../api/accountService';
+import { ContainerLayout } from '../components/ContainerLayout';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { DirectionSelector } from '../components/DirectionSelector';
+import { Colors } from '../constants/Colors';
+import { TransactionDirection } from '../constants/Transactions';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+// Define Category type
+interface Category {
+  id: string;
+  name: string;
+  iconName?: string | null;
+}
+
+// Define Account type
+interface Account {
+  id: string;
+  name: string;
+}
+
+const emptyForm = () => ({
+  merchant: '',
+  amount: '',
+  direction: 'expense' as TransactionDirection,
+  date: new Date(),
+  categoryId: null as string | null,
+  accountId: null as string | null,
+  description: '',
+});
+
+export default function AddTransactionScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [formData, setFormData] = useState(emptyForm());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fetch categories on mount
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const fetchedCategories = await getCategories();
+        setCategories(fetchedCategories);
+      } catch (error) {
+        console.error("Failed to fetch categories:", error);
+        Alert.alert("Error", "Could not load categories. You can still save the transaction uncategorized.");
+      }
+    };
+    const fetchAccounts = async () => {
+      try {
+        const fetchedAccounts = await getAccounts();
+        setAccounts(fetchedAccounts);
+      } catch (error) {
+        console.error("Failed to fetch accounts:", error);
+      }
+    };
+    fetchCategories();
+    fetchAccounts();
+  }, []);
+
+  const handleInputChange = (name: keyof typeof formData, value: string | Date | null) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleDateChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      handleInputChange('date', selectedDate);
+    }
+  };
+
+  const handleSave = async (addAnother: boolean) => {
+    if (!formData.merchant.trim() || !formData.amount || !formData.date) {
+      Alert.alert('Validation Error', 'Merchant, Amount, and Date are required.');
+      return;
+    }
+    const amountNumber = parseFloat(formData.amount);
+    if (isNaN(amountNumber) || amountNumber <= 0) {
+      Alert.alert('Validation Error', 'Amount must be a positive number.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createTransaction({
+        ...formData,
+        merchant: formData.merchant.trim(),
+        amount: amountNumber,
+        date: formData.date.toISOString(),
+      });
+      if (addAnother) {
+        // Keep the date, direction, category and account, they are usually shared by a run of entries
+        setFormData(prev => ({ ...emptyForm(), date: prev.date, direction: prev.direction, categoryId: prev.categoryId, accountId: prev.accountId }));
+        Alert.alert('Success', 'Transaction added.');
+      } else {
+        router.back();
+      }
+    } catch (err: any) {
+      console.error("Error creating transaction:", err);
+      Alert.alert('Error', `Could not add transaction: ${err.message || 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Add Transaction</ThemedText>
+        <ThemedText style={styles.subtitle}>Record a cash purchase or a receipt that could not be scanned</ThemedText>
+      </View>
+
+      <Card style={styles.formCard}>
+        <DirectionSelector
+          value={formData.direction}
+          onChange={(direction) => setFormData(prev => ({ ...prev, direction }))}
+          disabled={isSaving}
+        />
+        <Input
+          label="Merchant"
+          value={formData.merchant}
+          onChangeText={(text) => handleInputChange('merchant', text)}
+          placeholder="Enter merchant name"
+          editable={!isSaving}
+        />
+        <Input
+          label="Amount"
+          value={formData.amount}
+          onChangeText={(text) => handleInputChange('amount', text)}
+          placeholder="Enter amount"
+          keyboardType="numeric"
+          editable={!isSaving}
+          leftIcon={<MaterialCommunityIcons name="currency-usd" size={18} color={colors.icon} />}
+        />
+
+        {/* Date Picker */}
+        <View style={styles.datePickerContainer}>
+          <ThemedText style={styles.label}>Date</ThemedText>
+          <TouchableOpacity
+            onPress={() => setShowDatePicker(true)}
+            style={[styles.dateDisplay, { borderColor: colors.inputBorder }]}
+          >
+            <ThemedText>{formData.date.toLocaleDateString()}</ThemedText>
+          </TouchableOpacity>
+          {showDatePicker && (
+            <DateTimePicker
+              testID="dateTimePicker"
+              value={formData.date}
+              mode="date"
+              display="default"
+              onChange={handleDateChange}
+            />
+          )}
+        </View>
+
+        {/* Category Picker */}
+        <View style={styles.pickerSection}>
+          <ThemedText style={styles.label}>Category</ThemedText>
+          <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+            <Picker
+              selectedValue={formData.categoryId}
+              onValueChange={(itemValue: string | null) => handleInputChange('categoryId', itemValue)}
+              style={styles.picker}
+              enabled={!isSaving}
+            >
+              <Picker.Item label="-- Uncategorized --" value={null} />
+              {categories.map((cat) => (
+                <Picker.Item key={cat.id} label={cat.name} value={cat.id} />
+              ))}
+            </Picker>
+          </View>
+        </View>
+
+        {/* Account Picker */}
+        {accounts.length > 0 && (
+          <View style={styles.pickerSection}>
+            <ThemedText style={styles.label}>Account</ThemedText>
+            <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+              <Picker
+                selectedValue={formData.accountId}
+                onValueChange={(itemValue: string | null) => handleInputChange('accountId', itemValue)}
+                style={styles.picker}
+                enabled={!isSaving}
+              >
+                <Picker.Item label="-- No Account --" value={null} />
+                {accounts.map((account) => (
+                  <Picker.Item key={account.id} label={account.name} value={account.id} />
+                ))}
+              </Picker>
+            </View>
+          </View>
+        )}
+
+        <Input
+          label="Description (Optional)"
+          value={formData.description}
+          onChangeText={(text) => handleInputChange('description', text)}
+          placeholder="Enter description"
+          editable={!isSaving}
+          multiline
+        />
+
+        <View style={styles.buttonContainer}>
+          <Button
+            title="Save & Add Another"
+            onPress={() => handleSave(true)}
+            disabled={isSaving}
+            variant="outline"
+            style={styles.secondaryButton}
+          />
+          <Button
+            title={isSaving ? 'Saving...' : 'Save'}
+            onPress={() => handleSave(false)}
+            disabled={isSaving}
+            loading={isSaving}
+            variant="primary"
+            style={styles.primaryButton}
+          />
+        </View>
+      </Card>
+
+      {/* Bottom navigation button */}
+      <View style={styles.footer}>
+        <Button
+          title="Cancel"
+          onPress={() => router.back()}
+          variant="ghost"
+          disabled={isSaving}
+          fullWidth
+        />
+      </View>
+    </ContainerLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    maxWidth: 600,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 6,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  formCard: {
+    marginBottom: 12,
+  },
+  datePickerContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  dateDisplay: {
+    borderWidth: 1,
+    padding: 12,
+    borderRadius: 8,
+  },
+  pickerSection: {
+    marginBottom: 16,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  picker: {
+    width: '100%',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  primaryButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 12,
+  },
+});
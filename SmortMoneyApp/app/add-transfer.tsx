@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Alert,
+  TouchableOpacity,
+  Platform
+} from 'react-native';
+import { router } from 'expo-router';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Picker } from '@react-native-picker/picker';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { createTransfer } from '../api/transferService';
+import { getAccounts } from '../api/accountService';
+import { ContainerLayout } from '../components/ContainerLayout';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+// Define Account type
+interface Account {
+  id: string;
+  name: string;
+}
+
+export default function AddTransferScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [formData, setFormData] = useState({
+    fromAccountId: null as string | null,
+    toAccountId: null as string | null,
+    amount: '',
+    date: new Date(),
+    description: '',
+  });
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fetch accounts on mount
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      try {
+        const fetchedAccounts = await getAccounts();
+        setAccounts(fetchedAccounts);
+      } catch (error) {
+        console.error("Failed to fetch accounts:", error);
+        Alert.alert("Error", "Could not load accounts.");
+      }
+    };
+    fetchAccounts();
+  }, []);
+
+  const handleInputChange = (name: keyof typeof formData, value: string | Date | null) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleDateChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      handleInputChange('date', selectedDate);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!formData.fromAccountId || !formData.toAccountId) {
+      Alert.alert('Validation Error', 'Please choose both accounts.');
+      return;
+    }
+    if (formData.fromAccountId === formData.toAccountId) {
+      Alert.alert('Validation Error', 'Choose two different accounts.');
+      return;
+    }
+    const amountNumber = parseFloat(formData.amount);
+    if (isNaN(amountNumber) || amountNumber <= 0) {
+      Alert.alert('Validation Error', 'Amount must be a positive number.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createTransfer({
+        ...formData,
+        amount: amountNumber,
+        date: formData.date.toISOString(),
+      });
+      router.back();
+    } catch (err: any) {
+      console.error("Error creating transfer:", err);
+      Alert.alert('Error', `Could not add transfer: ${err.response?.data?.message || err.message || 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderAccountPicker = (label: string, field: 'fromAccountId' | 'toAccountId') => (
+    <View style={styles.pickerSection}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+        <Picker
+          selectedValue={formData[field]}
+          onValueChange={(itemValue: string | null) => handleInputChange(field, itemValue)}
+          style={styles.picker}
+          enabled={!isSaving}
+        >
+          <Picker.Item label="-- Select Account --" value={null} />
+          {accounts.map((account) => (
+            <Picker.Item key={account.id} label={account.name} value={account.id} />
+          ))}
+        </Picker>
+      </View>
+    </View>
+  );
+
+  return (
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>New Transfer</ThemedText>
+        <ThemedText style={styles.subtitle}>Card payments and savings moves are not counted as spending</ThemedText>
+      </View>
+
+      <Card style={styles.formCard}>
+        {renderAccountPicker('From', 'fromAccountId')}
+        {renderAccountPicker('To', 'toAccountId')}
+        <Input
+          label="Amount"
+          value={formData.amount}
+          onChangeText={(text) => handleInputChange('amount', text)}
+          placeholder="Enter amount"
+          keyboardType="numeric"
+          editable={!isSaving}
+          leftIcon={<MaterialCommunityIcons name="currency-usd" size={18} color={colors.icon} />}
+        />
+
+        {/* Date Picker */}
+        <View style={styles.datePickerContainer}>
+          <ThemedText style={styles.label}>Date</ThemedText>
+          <TouchableOpacity
+            onPress={() => setShowDatePicker(true)}
+            style={[styles.dateDisplay, { borderColor: colors.inputBorder }]}
+          >
+            <ThemedText>{formData.date.toLocaleDateString()}</ThemedText>
+          </TouchableOpacity>
+          {showDatePicker && (
+            <DateTimePicker
+              testID="dateTimePicker"
+              value={formData.date}
+              mode="date"
+              display="default"
+              onChange={handleDateChange}
+            />
+          )}
+        </View>
+
+        <Input
+          label="Description (Optional)"
+          value={formData.description}
+          onChangeText={(text) => handleInputChange('description', text)}
+          placeholder="e.g. Visa payment"
+          editable={!isSaving}
+        />
+
+        <Button
+          title={isSaving ? 'Saving...' : 'Save Transfer'}
+          onPress={handleSave}
+          disabled={isSaving || accounts.length < 2}
+          loading={isSaving}
+          variant="primary"
+          fullWidth
+        />
+        {accounts.length < 2 && (
+          <ThemedText style={[styles.hint, { color: colors.muted }]}>
+            Add at least two accounts to record a transfer.
+          </ThemedText>
+        )}
+      </Card>
+
+      {/* Bottom navigation button */}
+      <View style={styles.footer}>
+        <Button
+          title="Cancel"
+          onPress={() => router.back()}
+          variant="ghost"
+          disabled={isSaving}
+          fullWidth
+        />
+      </View>
+    </ContainerLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    maxWidth: 600,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 6,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  formCard: {
+    marginBottom: 12,
+  },
+  datePickerContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  dateDisplay: {
+    borderWidth: 1,
+    padding: 12,
+    borderRadius: 8,
+  },
+  pickerSection: {
+    marginBottom: 16,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  picker: {
+    width: '100%',
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 12,
+  },
+});
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Alert
+} from 'react-native';
+import { getBackup, restoreBackup } from '../api/backupService';
+import { ContainerLayout } from '../components/ContainerLayout';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { shareFile, pickTextFile } from '../utils/files';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+type RestoreMode = 'replace' | 'merge';
+
+interface RestoreResult {
+  message: string;
+  mode: RestoreMode;
+  results: Record<string, { added: number; skipped: number }>;
+}
+
+// Names of the archive's tables, as shown after a restore
+const TABLE_LABELS: Record<string, string> = {
+  categories: 'Categories',
+  accounts: 'Accounts',
+  transfers: 'Transfers',
+  transactions: 'Transactions',
+  transactionSplits: 'Split lines',
+  transactionLineItems: 'Receipt lines',
+  budgets: 'Budgets',
+  categoryRules: 'Category rules',
+  merchantMappings: 'Learned merchants',
+  csvImportProfiles: 'CSV import profiles',
+};
+
+export default function BackupScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [busy, setBusy] = useState<'backup' | 'restore' | null>(null);
+  const [lastResult, setLastResult] = useState<RestoreResult | null>(null);
+
+  const errorMessage = (err: any) => err.response?.data?.message || err.message || 'Unknown error';
+
+  const handleBackup = async () => {
+    setBusy('backup');
+    try {
+      const archive = await getBackup();
+      const fileName = `smortmoney-backup-${archive.exportedAt.slice(0, 10)}.json`;
+      await shareFile(fileName, JSON.stringify(archive, null, 2), 'application/json');
+    } catch (err: any) {
+      Alert.alert('Error', `Could not create the backup: ${errorMessage(err)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runRestore = async (backup: unknown) => {
+    setBusy('restore');
+    try {
+      const result: RestoreResult = await restoreBackup(backup, mode);
+      setLastResult(result);
+      Alert.alert('Restore Complete', result.message);
+    } catch (err: any) {
+      Alert.alert('Error', `Could not restore the backup: ${errorMessage(err)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    let backup: unknown;
+    try {
+      const file = await pickTextFile(['application/json']);
+      if (!file) return; // Picker cancelled
+      backup = JSON.parse(file.content);
+    } catch (err: any) {
+      Alert.alert('Error', `The file is not a SmortMoney backup: ${err.message}`);
+      return;
+    }
+
+    if (mode === 'merge') {
+      runRestore(backup);
+      return;
+    }
+    Alert.alert(
+      'Confirm Replace',
+      'This deletes your current transactions, categories, accounts and budgets and replaces them with the backup. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => runRestore(backup) },
+      ]
+    );
+  };
+
+  return (
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Backup & Restore</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          Keep a copy of your data outside the app
+        </ThemedText>
+      </View>
+
+      <Card style={styles.card}>
+        <ThemedText type="subtitle" style={styles.cardTitle}>Back Up</ThemedText>
+        <ThemedText style={styles.cardText}>
+          Saves your transactions, categories, accounts, budgets, rules and import profiles to a JSON file.
+          Receipt images are not included.
+        </ThemedText>
+        <Button
+          title="Create Backup"
+          onPress={handleBackup}
+          loading={busy === 'backup'}
+          disabled={busy !== null}
+          variant="primary"
+          leftIcon={<MaterialCommunityIcons name="cloud-download-outline" size={18} color="#fff" />}
+          fullWidth
+        />
+      </Card>
+
+      <Card style={styles.card}>
+        <ThemedText type="subtitle" style={styles.cardTitle}>Restore</ThemedText>
+        <View style={styles.modeRow}>
+          <Button
+            title="Merge"
+            onPress={() => setMode('merge')}
+            variant={mode === 'merge' ? 'primary' : 'outline'}
+            size="small"
+            disabled={busy !== null}
+            style={styles.modeButton}
+          />
+          <Button
+            title="Replace"
+            onPress={() => setMode('replace')}
+            variant={mode === 'replace' ? 'danger' : 'outline'}
+            size="small"
+            disabled={busy !== null}
+            style={styles.modeButton}
+          />
+        </View>
+        <ThemedText style={styles.cardText}>
+          {mode === 'merge'
+            ? 'Adds what is missing from your current data. Categories and accounts with the same name are combined.'
+            : 'Deletes your current data and restores the backup exactly as it was.'}
+        </ThemedText>
+        <Button
+          title="Restore from File"
+          onPress={handleRestore}
+          loading={busy === 'restore'}
+          disabled={busy !== null}
+          variant="outline"
+          leftIcon={<MaterialCommunityIcons name="cloud-upload-outline" size={18} color={colors.primary} />}
+          fullWidth
+        />
+
+        {lastResult && (
+          <View style={[styles.results, { borderColor: colors.border }]}>
+            {Object.entries(lastResult.results).map(([table, result]) => (
+              <View key={table} style={styles.resultRow}>
+                <ThemedText style={styles.resultLabel}>{TABLE_LABELS[table] ?? table}</ThemedText>
+                <ThemedText style={[styles.resultCount, { color: colors.muted }]}>
+                  {result.added} added{result.skipped > 0 ? `, ${result.skipped} already there` : ''}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        )}
+      </Card>
+    </ContainerLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    maxWidth: 600,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 6,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  cardTitle: {
+    marginBottom: 8,
+  },
+  cardText: {
+    fontSize: 14,
+    opacity: 0.8,
+    marginBottom: 12,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  modeButton: {
+    marginRight: 8,
+  },
+  results: {
+    borderTopWidth: 1,
+    marginTop: 16,
+    paddingTop: 8,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  resultLabel: {
+    fontSize: 14,
+  },
+  resultCount: {
+    fontSize: 14,
+  },
+});
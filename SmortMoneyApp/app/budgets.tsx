@@ -19,6 +19,7 @@ import { ThemedText } from '../components/ThemedText';
 import { Button } from '../components/Button';
 import { Card } from '../components/Card';
 import { Colors } from '../constants/Colors';
+import { sumAmounts } from '../constants/Transactions';
 import { useColorScheme } from '../hooks/useColorScheme';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 
@@ -53,8 +54,20 @@ interface DisplayBudget {
 }
 
 interface SpendingSummaryItem {
-  categoryId: string;
+  categoryId: string | null;
   totalSpent: number;
+  transactionCount: number;
+}
+
+interface MonthlySummary {
+  categories: SpendingSummaryItem[];
+  totals: {
+    income: number;
+    expenses: number;
+    net: number;
+    transfers: number;
+    transactionCount: number;
+  };
 }
 
 // Helper function to get month name
@@ -91,7 +104,7 @@ export default function BudgetsScreen() {
       ]);
       setBudgets(fetchedBudgets);
       setCategories(fetchedCategories);
-      setSpendingSummary(fetchedSummary);
+      setSpendingSummary((fetchedSummary as MonthlySummary).categories);
     } catch (err) {
       setError('Failed to fetch data. Please try again.');
       console.error(err);
@@ -106,9 +119,11 @@ export default function BudgetsScreen() {
 
   // Combine categories, budgets, and spending summary for display and editing state
   useEffect(() => {
+    const budgetMap = new Map(budgets.map(b => [b.categoryId, b]));
+    const summaryMap = new Map(spendingSummary.map(s => [s.categoryId, s]));
     const combined = categories.map(cat => {
-      const budget = budgets.find(b => b.categoryId === cat.id);
-      const summary = spendingSummary.find(s => s.categoryId === cat.id);
+      const budget = budgetMap.get(cat.id);
+      const summary = summaryMap.get(cat.id);
       const budgetAmount = budget?.amount ?? 0;
       const spentAmount = summary?.totalSpent ?? 0;
 
@@ -201,15 +216,9 @@ export default function BudgetsScreen() {
   };
   
   // Calculate spending totals
-  const totalBudgeted = editableBudgets.reduce(
-    (sum, budget) => sum + parseFloat(budget.amount || '0'), 
-    0
-  );
+  const totalBudgeted = sumAmounts(editableBudgets.map(budget => parseFloat(budget.amount || '0')));
   
-  const totalSpent = editableBudgets.reduce(
-    (sum, budget) => sum + budget.totalSpent, 
-    0
-  );
+  const totalSpent = sumAmounts(editableBudgets.map(budget => budget.totalSpent));
 
   return (
     <ThemedView style={styles.container}>
@@ -28,12 +28,16 @@ interface Category {
   id: string;
   name: string;
   iconName?: string | null;
+  description?: string | null;
+  keywords?: string | null;
 }
 
 // Define CategoryData type for the form
 interface CategoryData {
   name: string;
   iconName?: string | null;
+  description?: string | null;
+  keywords?: string | null;
 }
 
 export default function CategoriesScreen() {
@@ -139,6 +143,13 @@ export default function CategoriesScreen() {
           variant="primary"
           leftIcon={<MaterialCommunityIcons name="plus" size={18} color="#fff" />}
         />
+        <Button
+          title="Manage Rules"
+          onPress={() => router.push('/rules')}
+          variant="outline"
+          leftIcon={<MaterialCommunityIcons name="playlist-check" size={18} color={colors.primary} />}
+          style={styles.rulesButton}
+        />
       </View>
 
       {isLoading && (
@@ -175,9 +186,16 @@ export default function CategoriesScreen() {
                     color={colors.primary}
                     style={styles.categoryIcon}
                   />
-                  <ThemedText type="defaultSemiBold" style={styles.categoryName}>
-                    {item.name}
-                  </ThemedText>
+                  <View style={styles.categoryText}>
+                    <ThemedText type="defaultSemiBold" style={styles.categoryName}>
+                      {item.name}
+                    </ThemedText>
+                    {item.description ? (
+                      <ThemedText style={styles.categoryDescription} numberOfLines={1}>
+                        {item.description}
+                      </ThemedText>
+                    ) : null}
+                  </View>
                 </View>
                 <View style={styles.categoryActions}>
                   <TouchableOpacity 
@@ -258,6 +276,9 @@ const styles = StyleSheet.create({
   actionContainer: {
     marginBottom: 16,
   },
+  rulesButton: {
+    marginTop: 10,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -295,9 +316,16 @@ const styles = StyleSheet.create({
   categoryIcon: {
     marginRight: 12,
   },
+  categoryText: {
+    flex: 1,
+  },
   categoryName: {
     fontSize: 16,
   },
+  categoryDescription: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
   categoryActions: {
     flexDirection: 'row',
     alignItems: 'center',
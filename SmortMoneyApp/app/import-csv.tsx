@@ -0,0 +1,618 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Alert
+} from 'react-native';
+import { router } from 'expo-router';
+import { Picker } from '@react-native-picker/picker';
+import {
+  getCsvColumns,
+  previewCsvImport,
+  importCsv,
+  getCsvProfiles,
+  createCsvProfile,
+  updateCsvProfile
+} from '../api/csvImportService';
+import { getCategories } from '../api/categoryService';
+import { getAccounts } from '../api/accountService';
+import { ContainerLayout } from '../components/ContainerLayout';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { Colors } from '../constants/Colors';
+import { TransactionDirection, formatTransactionAmount } from '../constants/Transactions';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+// Column mapping, as sent to the backend and stored on a profile
+interface CsvMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: string | null;
+  dateFormat: string;
+  merchantColumn: string | null;
+  memoColumn: string | null;
+  amountColumn: string | null;
+  debitColumn: string | null;
+  creditColumn: string | null;
+  invertAmounts: boolean;
+  decimalComma: boolean;
+  accountId: string | null;
+}
+
+interface CsvProfile extends CsvMapping {
+  id: string;
+  name: string;
+}
+
+interface PreviewRow {
+  line: number;
+  merchant: string;
+  amount: number;
+  direction: TransactionDirection;
+  date: string;
+  description: string | null;
+  categoryId: string | null;
+  duplicateReason: 'existing' | null;
+  willImport: boolean;
+}
+
+interface RowIssue {
+  line: number;
+  field: string;
+  message: string;
+}
+
+interface PreviewResult {
+  summary: { rows: number; valid: number; invalid: number; duplicates: number; toImport: number };
+  rows: PreviewRow[];
+  errors?: RowIssue[];
+}
+
+type Step = 'file' | 'mapping' | 'preview';
+
+// Same lists as the backend, see services/csvImport.ts
+const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'M/D/YYYY', 'D/M/YYYY', 'MM/DD/YY', 'DD/MM/YY', 'DD.MM.YYYY', 'YYYYMMDD'];
+const DELIMITERS = [
+  { label: 'Comma (,)', value: ',' },
+  { label: 'Semicolon (;)', value: ';' },
+  { label: 'Tab', value: '\t' },
+  { label: 'Pipe (|)', value: '|' },
+];
+// Preview rows shown on screen; the summary counts all of them
+const PREVIEW_LIMIT = 100;
+
+const emptyMapping = (): CsvMapping => ({
+  delimiter: ',',
+  hasHeader: true,
+  dateColumn: null,
+  dateFormat: 'YYYY-MM-DD',
+  merchantColumn: null,
+  memoColumn: null,
+  amountColumn: null,
+  debitColumn: null,
+  creditColumn: null,
+  invertAmounts: false,
+  decimalComma: false,
+  accountId: null,
+});
+
+export default function ImportCsvScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [step, setStep] = useState<Step>('file');
+  const [csv, setCsv] = useState('');
+  const [profiles, setProfiles] = useState<CsvProfile[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [mapping, setMapping] = useState<CsvMapping>(emptyMapping());
+  // Separate debit and credit columns instead of one signed amount column
+  const [splitAmounts, setSplitAmounts] = useState(false);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [sample, setSample] = useState<string[][]>([]);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [accounts, setAccounts] = useState<Option[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [fetchedProfiles, fetchedCategories, fetchedAccounts] = await Promise.all([
+          getCsvProfiles(),
+          getCategories(),
+          getAccounts()
+        ]);
+        setProfiles(fetchedProfiles);
+        setCategories(fetchedCategories);
+        setAccounts(fetchedAccounts);
+      } catch (error) {
+        console.error("Failed to fetch import options:", error);
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  const updateMapping = (changes: Partial<CsvMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+  // A saved profile fills in the whole mapping; it can still be adjusted before importing
+  const selectProfile = (id: string | null) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      const { id: _id, name, ...profileMapping } = profile;
+      setMapping({ ...emptyMapping(), ...profileMapping });
+      setSplitAmounts(!profile.amountColumn);
+      setProfileName(name);
+    } else {
+      setMapping(emptyMapping());
+      setSplitAmounts(false);
+      setProfileName('');
+    }
+  };
+
+  // The mapping without the amount columns of the mode that isn't used
+  const requestMapping = () => ({
+    ...mapping,
+    amountColumn: splitAmounts ? null : mapping.amountColumn,
+    debitColumn: splitAmounts ? mapping.debitColumn : null,
+    creditColumn: splitAmounts ? mapping.creditColumn : null,
+  });
+
+  const errorMessage = (err: any) => err.response?.data?.message || err.message || 'Unknown error';
+
+  const handleReadColumns = async () => {
+    if (!csv.trim()) {
+      Alert.alert('Validation Error', 'Paste the contents of the CSV file first.');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const result = await getCsvColumns(csv, { delimiter: mapping.delimiter, hasHeader: mapping.hasHeader });
+      setColumns(result.columns);
+      setSample(result.sample);
+      setStep('mapping');
+    } catch (err: any) {
+      Alert.alert('Error', `Could not read the CSV: ${errorMessage(err)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const request = requestMapping();
+    if (!request.dateColumn || !request.merchantColumn) {
+      Alert.alert('Validation Error', 'Choose the date and merchant columns.');
+      return;
+    }
+    if (!request.amountColumn && !request.debitColumn && !request.creditColumn) {
+      Alert.alert('Validation Error', 'Choose the amount column (or the debit and credit columns).');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      setPreview(await previewCsvImport(csv, request));
+      setStep('preview');
+    } catch (err: any) {
+      Alert.alert('Error', `Could not preview the import: ${errorMessage(err)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) {
+      Alert.alert('Validation Error', 'Give the profile a name, e.g. the bank the file is from.');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const data = { ...requestMapping(), name: profileName.trim() };
+      const saved: CsvProfile = profileId ? await updateCsvProfile(profileId, data) : await createCsvProfile(data);
+      setProfiles(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setProfileId(saved.id);
+      Alert.alert('Profile Saved', `"${saved.name}" can be picked for the next export from this bank.`);
+    } catch (err: any) {
+      Alert.alert('Error', `Could not save the profile: ${errorMessage(err)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const result = await importCsv(csv, requestMapping());
+      Alert.alert('Import Complete', result.message);
+      router.back();
+    } catch (err: any) {
+      Alert.alert('Error', `Could not import the transactions: ${errorMessage(err)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Picker over the CSV's columns; optional ones can be left unset
+  const renderColumnPicker = (label: string, field: keyof CsvMapping, optional = false) => (
+    <View style={styles.pickerSection}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+        <Picker
+          selectedValue={mapping[field] as string | null}
+          onValueChange={(itemValue: string | null) => updateMapping({ [field]: itemValue })}
+          style={styles.picker}
+          enabled={!isWorking}
+        >
+          <Picker.Item label={optional ? '-- None --' : '-- Choose a column --'} value={null} />
+          {columns.map((column) => (
+            <Picker.Item key={column} label={column} value={column} />
+          ))}
+        </Picker>
+      </View>
+    </View>
+  );
+
+  const renderToggle = (title: string, value: boolean, onPress: () => void) => (
+    <Button
+      title={title}
+      onPress={onPress}
+      variant={value ? 'primary' : 'outline'}
+      size="small"
+      disabled={isWorking}
+      style={styles.toggleButton}
+    />
+  );
+
+  const categoryName = (id: string | null) => categories.find(c => c.id === id)?.name ?? 'Uncategorized';
+
+  return (
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Import CSV</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {step === 'file' && 'Paste a CSV export from your bank'}
+          {step === 'mapping' && 'Tell us which column holds what'}
+          {step === 'preview' && 'Check the transactions before they are saved'}
+        </ThemedText>
+      </View>
+
+      {step === 'file' && (
+        <Card style={styles.formCard}>
+          {profiles.length > 0 && (
+            <View style={styles.pickerSection}>
+              <ThemedText style={styles.label}>Saved Profile</ThemedText>
+              <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+                <Picker
+                  selectedValue={profileId}
+                  onValueChange={(itemValue: string | null) => selectProfile(itemValue)}
+                  style={styles.picker}
+                  enabled={!isWorking}
+                >
+                  <Picker.Item label="-- New mapping --" value={null} />
+                  {profiles.map((profile) => (
+                    <Picker.Item key={profile.id} label={profile.name} value={profile.id} />
+                  ))}
+                </Picker>
+              </View>
+            </View>
+          )}
+          <View style={styles.pickerSection}>
+            <ThemedText style={styles.label}>Separator</ThemedText>
+            <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+              <Picker
+                selectedValue={mapping.delimiter}
+                onValueChange={(itemValue: string) => updateMapping({ delimiter: itemValue })}
+                style={styles.picker}
+                enabled={!isWorking}
+              >
+                {DELIMITERS.map((delimiter) => (
+                  <Picker.Item key={delimiter.label} label={delimiter.label} value={delimiter.value} />
+                ))}
+              </Picker>
+            </View>
+          </View>
+          <View style={styles.toggleRow}>
+            {renderToggle('First Row Is a Header', mapping.hasHeader, () => updateMapping({ hasHeader: !mapping.hasHeader }))}
+          </View>
+          <Input
+            label="CSV Contents"
+            value={csv}
+            onChangeText={setCsv}
+            placeholder={'Date,Description,Amount\n2025-01-15,Coffee Shop,-4.50'}
+            autoCapitalize="none"
+            editable={!isWorking}
+            multiline
+            style={styles.csvInput}
+          />
+          <Button
+            title="Next"
+            onPress={handleReadColumns}
+            loading={isWorking}
+            disabled={isWorking}
+            variant="primary"
+            fullWidth
+          />
+        </Card>
+      )}
+
+      {step === 'mapping' && (
+        <Card style={styles.formCard}>
+          {sample.length > 0 && (
+            <View style={[styles.sample, { borderColor: colors.border }]}>
+              <ThemedText style={styles.sampleText} numberOfLines={1}>{columns.join(' | ')}</ThemedText>
+              {sample.slice(0, 3).map((cells, index) => (
+                <ThemedText key={index} style={[styles.sampleText, { color: colors.muted }]} numberOfLines={1}>
+                  {cells.join(' | ')}
+                </ThemedText>
+              ))}
+            </View>
+          )}
+
+          {renderColumnPicker('Date Column', 'dateColumn')}
+          <View style={styles.pickerSection}>
+            <ThemedText style={styles.label}>Date Format</ThemedText>
+            <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+              <Picker
+                selectedValue={mapping.dateFormat}
+                onValueChange={(itemValue: string) => updateMapping({ dateFormat: itemValue })}
+                style={styles.picker}
+                enabled={!isWorking}
+              >
+                {DATE_FORMATS.map((format) => (
+                  <Picker.Item key={format} label={format} value={format} />
+                ))}
+              </Picker>
+            </View>
+          </View>
+          {renderColumnPicker('Merchant Column', 'merchantColumn')}
+          {renderColumnPicker('Memo Column (Optional)', 'memoColumn', true)}
+
+          <View style={styles.toggleRow}>
+            {renderToggle('Signed Amount', !splitAmounts, () => setSplitAmounts(false))}
+            {renderToggle('Debit / Credit', splitAmounts, () => setSplitAmounts(true))}
+          </View>
+          {splitAmounts ? (
+            <>
+              {renderColumnPicker('Debit Column (money out)', 'debitColumn', true)}
+              {renderColumnPicker('Credit Column (money in)', 'creditColumn', true)}
+            </>
+          ) : (
+            renderColumnPicker('Amount Column', 'amountColumn')
+          )}
+          <View style={styles.toggleRow}>
+            {renderToggle('Debits Are Positive', mapping.invertAmounts, () => updateMapping({ invertAmounts: !mapping.invertAmounts }))}
+            {renderToggle('Decimal Comma', mapping.decimalComma, () => updateMapping({ decimalComma: !mapping.decimalComma }))}
+          </View>
+
+          {accounts.length > 0 && (
+            <View style={styles.pickerSection}>
+              <ThemedText style={styles.label}>Account</ThemedText>
+              <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+                <Picker
+                  selectedValue={mapping.accountId}
+                  onValueChange={(itemValue: string | null) => updateMapping({ accountId: itemValue })}
+                  style={styles.picker}
+                  enabled={!isWorking}
+                >
+                  <Picker.Item label="-- No Account --" value={null} />
+                  {accounts.map((account) => (
+                    <Picker.Item key={account.id} label={account.name} value={account.id} />
+                  ))}
+                </Picker>
+              </View>
+            </View>
+          )}
+
+          <Input
+            label="Profile Name (Optional)"
+            value={profileName}
+            onChangeText={setProfileName}
+            placeholder="e.g. Chase checking"
+            editable={!isWorking}
+          />
+          <Button
+            title={profileId ? 'Update Profile' : 'Save as Profile'}
+            onPress={handleSaveProfile}
+            disabled={isWorking || !profileName.trim()}
+            variant="ghost"
+            fullWidth
+          />
+
+          <View style={styles.buttonContainer}>
+            <Button
+              title="Back"
+              onPress={() => setStep('file')}
+              disabled={isWorking}
+              variant="outline"
+              style={styles.secondaryButton}
+            />
+            <Button
+              title="Preview"
+              onPress={handlePreview}
+              loading={isWorking}
+              disabled={isWorking}
+              variant="primary"
+              style={styles.primaryButton}
+            />
+          </View>
+        </Card>
+      )}
+
+      {step === 'preview' && preview && (
+        <>
+          <Card style={styles.formCard}>
+            <ThemedText>
+              {preview.summary.toImport} of {preview.summary.rows} row(s) will be imported.
+            </ThemedText>
+            {preview.summary.duplicates > 0 && (
+              <ThemedText style={[styles.notice, { color: colors.warning }]}>
+                {preview.summary.duplicates} row(s) look like transactions already recorded and will be skipped.
+              </ThemedText>
+            )}
+            {preview.errors?.slice(0, 10).map((issue, index) => (
+              <ThemedText key={index} style={[styles.notice, { color: colors.error }]}>
+                Row {issue.line}: {issue.message}
+              </ThemedText>
+            ))}
+          </Card>
+
+          {preview.rows.slice(0, PREVIEW_LIMIT).map(row => (
+            <Card key={row.line} style={StyleSheet.flatten([styles.rowCard, !row.willImport && styles.skippedRow])}>
+              <View style={styles.rowHeader}>
+                <View style={styles.rowDetails}>
+                  <ThemedText style={styles.merchant}>{row.merchant}</ThemedText>
+                  <ThemedText style={[styles.rowMeta, { color: colors.muted }]}>
+                    {new Date(row.date).toLocaleDateString(undefined, { timeZone: 'UTC' })} · {categoryName(row.categoryId)}
+                  </ThemedText>
+                  {row.description && (
+                    <ThemedText style={[styles.rowMeta, { color: colors.muted }]}>{row.description}</ThemedText>
+                  )}
+                </View>
+                <ThemedText style={[styles.amount, row.direction === 'income' && { color: colors.success }]}>
+                  {formatTransactionAmount(row.amount, row.direction)}
+                </ThemedText>
+              </View>
+              {row.duplicateReason && (
+                <ThemedText style={[styles.notice, { color: colors.warning }]}>Already recorded, skipped</ThemedText>
+              )}
+            </Card>
+          ))}
+          {preview.rows.length > PREVIEW_LIMIT && (
+            <ThemedText style={styles.subtitle}>and {preview.rows.length - PREVIEW_LIMIT} more</ThemedText>
+          )}
+
+          <View style={styles.buttonContainer}>
+            <Button
+              title="Back"
+              onPress={() => setStep('mapping')}
+              disabled={isWorking}
+              variant="outline"
+              style={styles.secondaryButton}
+            />
+            <Button
+              title={`Import ${preview.summary.toImport}`}
+              onPress={handleImport}
+              loading={isWorking}
+              disabled={isWorking || preview.summary.toImport === 0}
+              variant="primary"
+              style={styles.primaryButton}
+            />
+          </View>
+        </>
+      )}
+    </ContainerLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    maxWidth: 600,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 6,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  formCard: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  pickerSection: {
+    marginBottom: 16,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  picker: {
+    width: '100%',
+  },
+  csvInput: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  toggleButton: {
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  sample: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 16,
+  },
+  sampleText: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  rowCard: {
+    marginBottom: 8,
+    padding: 12,
+  },
+  skippedRow: {
+    opacity: 0.5,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  rowDetails: {
+    flex: 1,
+    marginRight: 8,
+  },
+  merchant: {
+    fontWeight: 'bold',
+  },
+  rowMeta: {
+    fontSize: 13,
+  },
+  amount: {
+    fontWeight: 'bold',
+  },
+  notice: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  primaryButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+});
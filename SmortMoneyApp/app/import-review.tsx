@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  Image,
+  Alert,
+  ActivityIndicator,
+  ScrollView
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { getImport, getBatchImages, updateDraft, acceptDraft, rejectDraft, commitImport, deleteImport } from '../api/importService';
+import { getCategories } from '../api/categoryService';
+import { ContainerLayout } from '../components/ContainerLayout';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { ImportDraftCard, ImportDraft, ImportDraftChanges } from '../components/ImportDraftCard';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+// Define Category type
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface ImportBatch {
+  id: string;
+  status: 'pending' | 'committed';
+  imageCount: number;
+  drafts: ImportDraft[];
+}
+
+export default function ImportReviewScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const { batchId } = useLocalSearchParams<{ batchId: string }>();
+
+  const [batch, setBatch] = useState<ImportBatch | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // Draft being updated, to disable its card while the request runs
+  const [busyDraftId, setBusyDraftId] = useState<string | null>(null);
+
+  // Local copies of the screenshots uploaded this session; other drafts show the stored receipt
+  const images: Record<number, string> = batchId ? getBatchImages(batchId) : {};
+
+  const fetchBatch = useCallback(async () => {
+    if (!batchId) return;
+    setIsLoading(true);
+    try {
+      const fetchedBatch = await getImport(batchId);
+      setBatch(fetchedBatch);
+    } catch (error) {
+      console.error("Failed to fetch import:", error);
+      Alert.alert("Error", "Could not load this import.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [batchId]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const fetchedCategories = await getCategories();
+        setCategories(fetchedCategories);
+      } catch (error) {
+        console.error("Failed to fetch categories:", error);
+      }
+    };
+    fetchCategories();
+    fetchBatch();
+  }, [fetchBatch]);
+
+  // Replace one draft in local state with the version the backend returned
+  const replaceDraft = (updated: ImportDraft) => {
+    setBatch(prev => prev && { ...prev, drafts: prev.drafts.map(d => (d.id === updated.id ? updated : d)) });
+  };
+
+  const runDraftAction = async (draftId: string, action: () => Promise<ImportDraft>) => {
+    setBusyDraftId(draftId);
+    try {
+      replaceDraft(await action());
+    } catch (err: any) {
+      console.error("Error updating draft:", err);
+      Alert.alert('Error', `Could not update draft: ${err.response?.data?.message || err.message || 'Unknown error'}`);
+    } finally {
+      setBusyDraftId(null);
+    }
+  };
+
+  const handleUpdate = (draft: ImportDraft, changes: ImportDraftChanges) =>
+    runDraftAction(draft.id, () => updateDraft(batchId, draft.id, changes));
+
+  const handleCommit = async () => {
+    if (!batch) return;
+    setIsSaving(true);
+    try {
+      const result = await commitImport(batch.id);
+      Alert.alert('Import Saved', result.message);
+      router.back();
+    } catch (err: any) {
+      console.error("Error committing import:", err);
+      Alert.alert('Error', `Could not save transactions: ${err.response?.data?.message || err.message || 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!batch) return;
+    Alert.alert(
+      'Discard Import',
+      'Discard all drafts from this import? Nothing will be saved.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            setIsSaving(true);
+            try {
+              await deleteImport(batch.id);
+              router.back();
+            } catch (err: any) {
+              console.error("Error discarding import:", err);
+              Alert.alert('Error', `Could not discard import: ${err.message || 'Unknown error'}`);
+              setIsSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (isLoading && !batch) {
+    return (
+      <ContainerLayout style={styles.container} contentContainerStyle={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ContainerLayout>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <ContainerLayout style={styles.container} contentContainerStyle={styles.centered}>
+        <ThemedText>Import not found.</ThemedText>
+      </ContainerLayout>
+    );
+  }
+
+  const keptCount = batch.drafts.filter(d => d.status !== 'rejected').length;
+  const committed = batch.status === 'committed';
+  const imageUris = Object.values(images);
+
+  return (
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Review Import</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {batch.drafts.length} transaction(s) read from {batch.imageCount} image(s). Nothing is saved until you commit.
+        </ThemedText>
+      </View>
+
+      {/* Thumbnails of the uploaded screenshots */}
+      {imageUris.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.thumbnailStrip}>
+          {imageUris.map(uri => <Image key={uri} source={{ uri }} style={styles.thumbnail} />)}
+        </ScrollView>
+      )}
+
+      {batch.drafts.map(draft => (
+        <ImportDraftCard
+          key={draft.id}
+          draft={draft}
+          thumbnailUri={images[draft.imageIndex]}
+          categories={categories}
+          onUpdate={(changes) => handleUpdate(draft, changes)}
+          onAccept={() => runDraftAction(draft.id, () => acceptDraft(batch.id, draft.id))}
+          onReject={() => runDraftAction(draft.id, () => rejectDraft(batch.id, draft.id))}
+          disabled={committed || isSaving || busyDraftId === draft.id}
+        />
+      ))}
+
+      <View style={styles.footer}>
+        <Button
+          title={committed ? 'Already Saved' : `Save ${keptCount} Transaction(s)`}
+          onPress={handleCommit}
+          loading={isSaving}
+          disabled={committed || isSaving || busyDraftId !== null}
+          variant="primary"
+          fullWidth
+        />
+        <Button
+          title="Discard Import"
+          onPress={handleDiscard}
+          disabled={committed || isSaving}
+          variant="ghost"
+          fullWidth
+          style={styles.discardButton}
+        />
+      </View>
+    </ContainerLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    maxWidth: 600,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 6,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  thumbnailStrip: {
+    marginBottom: 12,
+  },
+  thumbnail: {
+    width: 60,
+    height: 60,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 12,
+  },
+  discardButton: {
+    marginTop: 8,
+  },
+});
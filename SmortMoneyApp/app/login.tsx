@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Alert } from 'react-native';
+import { router } from 'expo-router';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { ContainerLayout } from '../components/ContainerLayout';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { useAuth } from '../hooks/useAuth';
+
+export default function LoginScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const { signIn } = useAuth();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleLogin = async () => {
+    if (!email.trim() || !password) {
+      Alert.alert('Validation Error', 'Please enter your email and password.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // The root layout redirects to the app once the user is set
+      await signIn(email.trim(), password);
+    } catch (err: any) {
+      console.error("Error logging in:", err);
+      Alert.alert('Login Failed', err.response?.data?.message || err.message || 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Welcome Back</ThemedText>
+        <ThemedText style={styles.subtitle}>Log in to see your transactions and budgets</ThemedText>
+      </View>
+
+      <Card style={styles.formCard}>
+        <Input
+          label="Email"
+          value={email}
+          onChangeText={setEmail}
+          placeholder="you@example.com"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          editable={!isSubmitting}
+          leftIcon={<MaterialCommunityIcons name="email-outline" size={18} color={colors.icon} />}
+        />
+        <Input
+          label="Password"
+          value={password}
+          onChangeText={setPassword}
+          placeholder="Your password"
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!isSubmitting}
+          onSubmitEditing={handleLogin}
+          leftIcon={<MaterialCommunityIcons name="lock-outline" size={18} color={colors.icon} />}
+        />
+
+        <Button
+          title={isSubmitting ? 'Logging In...' : 'Log In'}
+          onPress={handleLogin}
+          disabled={isSubmitting}
+          loading={isSubmitting}
+          variant="primary"
+          fullWidth
+        />
+      </Card>
+
+      <View style={styles.footer}>
+        <Button
+          title="Create an Account"
+          onPress={() => router.push('/register')}
+          variant="ghost"
+          disabled={isSubmitting}
+          fullWidth
+        />
+      </View>
+    </ContainerLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    maxWidth: 600,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 6,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  formCard: {
+    marginBottom: 12,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 12,
+  },
+});
@@ -0,0 +1,255 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  TouchableOpacity
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { getMerchantMappings, deleteMerchantMapping } from '../api/merchantMappingService';
+import { ThemedView } from '../components/ThemedView';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+// Define MerchantMapping type (as returned by the backend)
+interface MerchantMapping {
+  id: string;
+  merchant: string;
+  correctionCount: number;
+  category: { id: string; name: string; iconName?: string | null };
+}
+
+export default function MerchantMappingsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [mappings, setMappings] = useState<MerchantMapping[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMappings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await getMerchantMappings();
+      setMappings(data);
+    } catch (err) {
+      setError('Failed to fetch learned merchants. Please try again.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Refetch on focus so corrections made elsewhere show up
+  useFocusEffect(
+    useCallback(() => {
+      fetchMappings();
+    }, [fetchMappings])
+  );
+
+  const handleForgetMapping = (mapping: MerchantMapping) => {
+    Alert.alert(
+      'Forget Merchant',
+      `Stop filing "${mapping.merchant}" under "${mapping.category.name}"? Existing transactions are not changed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteMerchantMapping(mapping.id);
+              fetchMappings();
+            } catch (err) {
+              Alert.alert('Error', 'Failed to forget merchant.');
+              console.error('Delete error:', err);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Learned Merchants</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          When you change a transaction&apos;s category, new uploads from that merchant use it too
+        </ThemedText>
+      </View>
+
+      {isLoading && (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <ThemedText style={styles.loadingText}>Loading learned merchants...</ThemedText>
+        </View>
+      )}
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <MaterialCommunityIcons
+            name="alert-circle-outline"
+            size={24}
+            color={colors.error}
+          />
+          <ThemedText style={[styles.errorText, {color: colors.error}]}>
+            {error}
+          </ThemedText>
+        </View>
+      )}
+
+      {!isLoading && !error && (
+        <FlatList
+          data={mappings}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <Card style={styles.mappingCard}>
+              <View style={styles.mappingHeader}>
+                <View style={styles.mappingInfo}>
+                  <ThemedText type="defaultSemiBold" style={styles.merchantName}>
+                    {item.merchant}
+                  </ThemedText>
+                  <View style={styles.categoryRow}>
+                    <MaterialCommunityIcons
+                      name={item.category.iconName || "shape-outline"}
+                      size={16}
+                      color={colors.primary}
+                    />
+                    <ThemedText style={styles.categoryName}>
+                      {item.category.name} · corrected {item.correctionCount}×
+                    </ThemedText>
+                  </View>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleForgetMapping(item)}
+                  style={[styles.actionButton, { backgroundColor: colors.error + '10' }]}
+                >
+                  <MaterialCommunityIcons name="delete" size={20} color={colors.error} />
+                </TouchableOpacity>
+              </View>
+            </Card>
+          )}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={(
+            <View style={styles.emptyContainer}>
+              <MaterialCommunityIcons
+                name="school-outline"
+                size={48}
+                color={colors.muted}
+              />
+              <ThemedText style={styles.emptyText}>
+                Nothing learned yet. Fix a transaction&apos;s category and it will be remembered here.
+              </ThemedText>
+            </View>
+          )}
+          refreshing={isLoading}
+          onRefresh={fetchMappings}
+        />
+      )}
+
+      {/* Bottom navigation button */}
+      <View style={styles.footer}>
+        <Button
+          title="Back to Rules"
+          onPress={() => router.back()}
+          variant="outline"
+          fullWidth
+        />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    marginBottom: 16,
+  },
+  errorText: {
+    marginLeft: 8,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  mappingCard: {
+    marginBottom: 10,
+  },
+  mappingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  mappingInfo: {
+    flex: 1,
+  },
+  merchantName: {
+    fontSize: 16,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  categoryName: {
+    marginLeft: 6,
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    marginTop: 16,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 16,
+  },
+});
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Alert } from 'react-native';
+import { router } from 'expo-router';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { ContainerLayout } from '../components/ContainerLayout';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { useAuth } from '../hooks/useAuth';
+
+// Mirrors MIN_PASSWORD_LENGTH on the backend
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function RegisterScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const { signUp } = useAuth();
+
+  const [formData, setFormData] = useState({
+    name: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleInputChange = (name: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleRegister = async () => {
+    if (!formData.email.trim()) {
+      Alert.alert('Validation Error', 'Please enter your email.');
+      return;
+    }
+    if (formData.password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert('Validation Error', `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (formData.password !== formData.confirmPassword) {
+      Alert.alert('Validation Error', 'Passwords do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // The root layout redirects to the app once the user is set
+      await signUp(formData.email.trim(), formData.password, formData.name.trim() || undefined);
+    } catch (err: any) {
+      console.error("Error registering:", err);
+      Alert.alert('Registration Failed', err.response?.data?.message || err.message || 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <ContainerLayout style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Create Account</ThemedText>
+        <ThemedText style={styles.subtitle}>Your transactions, accounts and budgets are private to you</ThemedText>
+      </View>
+
+      <Card style={styles.formCard}>
+        <Input
+          label="Name (Optional)"
+          value={formData.name}
+          onChangeText={(text) => handleInputChange('name', text)}
+          placeholder="Your name"
+          editable={!isSubmitting}
+          leftIcon={<MaterialCommunityIcons name="account-outline" size={18} color={colors.icon} />}
+        />
+        <Input
+          label="Email"
+          value={formData.email}
+          onChangeText={(text) => handleInputChange('email', text)}
+          placeholder="you@example.com"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          editable={!isSubmitting}
+          leftIcon={<MaterialCommunityIcons name="email-outline" size={18} color={colors.icon} />}
+        />
+        <Input
+          label="Password"
+          value={formData.password}
+          onChangeText={(text) => handleInputChange('password', text)}
+          placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!isSubmitting}
+          leftIcon={<MaterialCommunityIcons name="lock-outline" size={18} color={colors.icon} />}
+        />
+        <Input
+          label="Confirm Password"
+          value={formData.confirmPassword}
+          onChangeText={(text) => handleInputChange('confirmPassword', text)}
+          placeholder="Repeat your password"
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!isSubmitting}
+          onSubmitEditing={handleRegister}
+          leftIcon={<MaterialCommunityIcons name="lock-check-outline" size={18} color={colors.icon} />}
+        />
+
+        <Button
+          title={isSubmitting ? 'Creating Account...' : 'Create Account'}
+          onPress={handleRegister}
+          disabled={isSubmitting}
+          loading={isSubmitting}
+          variant="primary"
+          fullWidth
+        />
+      </Card>
+
+      <View style={styles.footer}>
+        <Button
+          title="I Already Have an Account"
+          onPress={() => router.back()}
+          variant="ghost"
+          disabled={isSubmitting}
+          fullWidth
+        />
+      </View>
+    </ContainerLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    maxWidth: 600,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 6,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  formCard: {
+    marginBottom: 12,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 12,
+  },
+});
@@ -0,0 +1,444 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  TouchableOpacity
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  getCategoryRules,
+  createCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  previewCategoryRule,
+  applyCategoryRule
+} from '../api/categoryRuleService';
+import { getCategories } from '../api/categoryService';
+import { getAccounts } from '../api/accountService';
+import CategoryRuleFormModal, { CategoryRuleData } from '../components/CategoryRuleFormModal';
+import { ThemedView } from '../components/ThemedView';
+import { ThemedText } from '../components/ThemedText';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+// Define CategoryRule type (as returned by the backend, with relations)
+interface CategoryRule extends CategoryRuleData {
+  id: string;
+  category: { id: string; name: string; iconName?: string | null };
+  account: { id: string; name: string } | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+// One-line summary of a rule's conditions, e.g. 'Merchant contains "uber" · $5–$50 · Visa'
+function describeConditions(rule: CategoryRule): string {
+  const parts: string[] = [];
+  if (rule.merchantPattern) {
+    parts.push(rule.matchType === 'regex'
+      ? `Merchant matches /${rule.merchantPattern}/`
+      : `Merchant contains "${rule.merchantPattern}"`);
+  }
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    parts.push(`$${rule.minAmount.toFixed(2)}–$${rule.maxAmount.toFixed(2)}`);
+  } else if (rule.minAmount !== null) {
+    parts.push(`At least $${rule.minAmount.toFixed(2)}`);
+  } else if (rule.maxAmount !== null) {
+    parts.push(`Up to $${rule.maxAmount.toFixed(2)}`);
+  }
+  if (rule.account) {
+    parts.push(rule.account.name);
+  }
+  return parts.join(' · ');
+}
+
+export default function RulesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [accounts, setAccounts] = useState<Option[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalMode, setModalMode] = useState<'add' | 'edit'>('add');
+  const [currentRule, setCurrentRule] = useState<CategoryRule | null>(null);
+  const [applyingRuleId, setApplyingRuleId] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [ruleData, categoryData, accountData] = await Promise.all([
+        getCategoryRules(),
+        getCategories(),
+        getAccounts(),
+      ]);
+      setRules(ruleData);
+      setCategories(categoryData);
+      setAccounts(accountData);
+    } catch (err) {
+      setError('Failed to fetch rules. Please try again.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Refetch on focus so new categories and accounts show up in the form
+  useFocusEffect(
+    useCallback(() => {
+      fetchRules();
+    }, [fetchRules])
+  );
+
+  // Modal Handling
+  const openAddModal = () => {
+    setModalMode('add');
+    setCurrentRule(null);
+    setIsModalVisible(true);
+  };
+
+  const openEditModal = (rule: CategoryRule) => {
+    setModalMode('edit');
+    setCurrentRule(rule);
+    setIsModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setIsModalVisible(false);
+    setCurrentRule(null);
+  };
+
+  // Errors are shown inside the modal, which reads the backend's message
+  const handleSaveRule = async (ruleData: CategoryRuleData) => {
+    if (modalMode === 'add') {
+      await createCategoryRule(ruleData);
+    } else if (modalMode === 'edit' && currentRule) {
+      await updateCategoryRule(currentRule.id, ruleData);
+    }
+    closeModal();
+    fetchRules();
+  };
+
+  // Delete Handling
+  const handleDeleteRule = (rule: CategoryRule) => {
+    Alert.alert(
+      'Delete Rule',
+      `Delete the rule for "${rule.category.name}"? Transactions keep the categories it already assigned.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCategoryRule(rule.id);
+              fetchRules();
+            } catch (err) {
+              Alert.alert('Error', 'Failed to delete rule.');
+              console.error('Delete error:', err);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const runApply = async (rule: CategoryRule, includeCategorized: boolean) => {
+    setApplyingRuleId(rule.id);
+    try {
+      const result = await applyCategoryRule(rule.id, includeCategorized);
+      Alert.alert('Rule Applied', result.message);
+    } catch (err) {
+      Alert.alert('Error', 'Failed to apply rule.');
+      console.error('Apply error:', err);
+    } finally {
+      setApplyingRuleId(null);
+    }
+  };
+
+  // Preview how many existing transactions the rule would change, then let the user choose the scope
+  const handleApplyRule = async (rule: CategoryRule) => {
+    setApplyingRuleId(rule.id);
+    try {
+      const [uncategorized, all] = await Promise.all([
+        previewCategoryRule(rule.id, false),
+        previewCategoryRule(rule.id, true),
+      ]);
+      if (all.count === 0) {
+        Alert.alert('No Matches', 'No existing transactions would be changed by this rule.');
+        return;
+      }
+      const examples = all.transactions.slice(0, 3).map((t: { merchant: string }) => t.merchant).join(', ');
+      Alert.alert(
+        'Apply Rule',
+        `${all.count} existing transaction(s) match (e.g. ${examples}), ${uncategorized.count} of them uncategorized. Set them to "${rule.category.name}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          ...(uncategorized.count > 0
+            ? [{ text: `Uncategorized only (${uncategorized.count})`, onPress: () => runApply(rule, false) }]
+            : []),
+          { text: `All matches (${all.count})`, onPress: () => runApply(rule, true) },
+        ]
+      );
+    } catch (err) {
+      Alert.alert('Error', 'Failed to preview rule.');
+      console.error('Preview error:', err);
+    } finally {
+      setApplyingRuleId(null);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>Category Rules</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          Rules run on uploads and new transactions; the first match in priority order wins
+        </ThemedText>
+      </View>
+
+      <View style={styles.actionContainer}>
+        <Button
+          title="Add New Rule"
+          onPress={openAddModal}
+          variant="primary"
+          disabled={categories.length === 0}
+          leftIcon={<MaterialCommunityIcons name="plus" size={18} color="#fff" />}
+        />
+        <Button
+          title="Learned Merchants"
+          onPress={() => router.push('/merchant-mappings')}
+          variant="outline"
+          leftIcon={<MaterialCommunityIcons name="school-outline" size={18} color={colors.primary} />}
+          style={styles.learnedButton}
+        />
+      </View>
+
+      {isLoading && (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <ThemedText style={styles.loadingText}>Loading rules...</ThemedText>
+        </View>
+      )}
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <MaterialCommunityIcons
+            name="alert-circle-outline"
+            size={24}
+            color={colors.error}
+          />
+          <ThemedText style={[styles.errorText, {color: colors.error}]}>
+            {error}
+          </ThemedText>
+        </View>
+      )}
+
+      {!isLoading && !error && (
+        <FlatList
+          data={rules}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <Card style={StyleSheet.flatten([styles.ruleCard, !item.enabled && styles.disabledRule])}>
+              <View style={styles.ruleHeader}>
+                <View style={styles.ruleInfo}>
+                  <View style={styles.ruleTitleRow}>
+                    <MaterialCommunityIcons
+                      name={item.category.iconName || "shape-outline"}
+                      size={22}
+                      color={colors.primary}
+                      style={styles.ruleIcon}
+                    />
+                    <ThemedText type="defaultSemiBold" style={styles.ruleCategory}>
+                      {item.category.name}
+                    </ThemedText>
+                    <ThemedText style={[styles.ruleMeta, { color: colors.muted }]}>
+                      #{item.priority}{item.enabled ? '' : ' · Disabled'}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={styles.ruleConditions}>{describeConditions(item)}</ThemedText>
+                </View>
+                <View style={styles.ruleActions}>
+                  <TouchableOpacity
+                    onPress={() => handleApplyRule(item)}
+                    disabled={applyingRuleId !== null}
+                    style={[styles.actionButton, { backgroundColor: colors.primary + '10' }]}
+                  >
+                    {applyingRuleId === item.id ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <MaterialCommunityIcons name="play-circle-outline" size={20} color={colors.primary} />
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => openEditModal(item)}
+                    style={[styles.actionButton, { backgroundColor: colors.primary + '10' }]}
+                  >
+                    <MaterialCommunityIcons name="pencil" size={20} color={colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleDeleteRule(item)}
+                    style={[styles.actionButton, { backgroundColor: colors.error + '10' }]}
+                  >
+                    <MaterialCommunityIcons name="delete" size={20} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </Card>
+          )}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={(
+            <View style={styles.emptyContainer}>
+              <MaterialCommunityIcons
+                name="playlist-check"
+                size={48}
+                color={colors.muted}
+              />
+              <ThemedText style={styles.emptyText}>
+                No rules yet. Add one to categorize transactions from the same merchant automatically.
+              </ThemedText>
+            </View>
+          )}
+          refreshing={isLoading}
+          onRefresh={fetchRules}
+        />
+      )}
+
+      {/* Bottom navigation button */}
+      <View style={styles.footer}>
+        <Button
+          title="Back to Categories"
+          onPress={() => router.back()}
+          variant="outline"
+          fullWidth
+        />
+      </View>
+
+      <CategoryRuleFormModal
+        isVisible={isModalVisible}
+        onClose={closeModal}
+        onSave={handleSaveRule}
+        initialData={currentRule || undefined}
+        categories={categories}
+        accounts={accounts}
+        mode={modalMode}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    fontSize: 14,
+  },
+  actionContainer: {
+    marginBottom: 16,
+  },
+  learnedButton: {
+    marginTop: 10,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    marginBottom: 16,
+  },
+  errorText: {
+    marginLeft: 8,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  ruleCard: {
+    marginBottom: 10,
+  },
+  disabledRule: {
+    opacity: 0.6,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  ruleIcon: {
+    marginRight: 10,
+  },
+  ruleCategory: {
+    fontSize: 16,
+  },
+  ruleMeta: {
+    marginLeft: 8,
+    fontSize: 12,
+  },
+  ruleConditions: {
+    marginTop: 4,
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  ruleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    marginTop: 16,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingTop: 16,
+  },
+});
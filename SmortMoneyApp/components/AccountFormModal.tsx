@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Keyboard,
+  ScrollView
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { ThemedText } from './ThemedText';
+import { Button } from './Button';
+import { Input } from './Input';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+// Account types supported by the backend, with their display icons
+export const ACCOUNT_TYPES: { value: string; label: string; icon: string }[] = [
+  { value: 'checking', label: 'Checking', icon: 'bank' },
+  { value: 'savings', label: 'Savings', icon: 'piggy-bank' },
+  { value: 'credit', label: 'Credit', icon: 'credit-card' },
+  { value: 'cash', label: 'Cash', icon: 'cash' },
+  { value: 'other', label: 'Other', icon: 'wallet' },
+];
+
+// Data interface
+interface AccountData {
+  name: string;
+  type: string;
+  openingBalance: number;
+}
+
+// Props interface
+interface AccountFormModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onSave: (accountData: AccountData) => Promise<void>;
+  initialData?: AccountData & { id?: string };
+  mode: 'add' | 'edit';
+}
+
+export default function AccountFormModal({
+  isVisible,
+  onClose,
+  onSave,
+  initialData,
+  mode
+}: AccountFormModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [name, setName] = useState('');
+  const [type, setType] = useState('checking');
+  const [openingBalance, setOpeningBalance] = useState('0');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset state when modal opens/closes
+  useEffect(() => {
+    if (isVisible) {
+      setName(initialData?.name || '');
+      setType(initialData?.type || 'checking');
+      setOpeningBalance(initialData ? initialData.openingBalance.toString() : '0');
+      setError(null);
+      setIsSubmitting(false);
+    }
+  }, [isVisible, initialData]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Account name is required.');
+      return;
+    }
+    const balanceNumber = parseFloat(openingBalance || '0');
+    if (isNaN(balanceNumber)) {
+      setError('Opening balance must be a number.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSave({
+        name: name.trim(),
+        type,
+        openingBalance: balanceNumber,
+      });
+      handleClose();
+    } catch (err) {
+      console.error('Error saving account:', err);
+      setError('Failed to save account. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContainer,
+              {
+                backgroundColor: colors.card,
+                borderColor: colors.border
+              }
+            ]}
+          >
+            <View style={styles.header}>
+              <ThemedText type="subtitle">
+                {mode === 'add' ? 'Add New Account' : 'Edit Account'}
+              </ThemedText>
+              <TouchableOpacity onPress={handleClose} disabled={isSubmitting}>
+                <MaterialCommunityIcons name="close" size={24} color={colors.icon} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.scrollView}>
+              <View style={styles.formContent}>
+                <Input
+                  label="Account Name"
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="e.g. Everyday Checking"
+                  autoCapitalize="words"
+                  error={error || undefined}
+                  editable={!isSubmitting}
+                />
+
+                <ThemedText style={styles.typeLabel}>Account Type</ThemedText>
+                <View style={styles.typeGrid}>
+                  {ACCOUNT_TYPES.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.typeItem,
+                        { borderColor: colors.border },
+                        type === option.value && {
+                          backgroundColor: colors.primary + '20',
+                          borderColor: colors.primary
+                        }
+                      ]}
+                      onPress={() => setType(option.value)}
+                      disabled={isSubmitting}
+                    >
+                      <MaterialCommunityIcons name={option.icon} size={22} color={colors.primary} />
+                      <ThemedText style={styles.typeText}>{option.label}</ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Input
+                  label="Opening Balance"
+                  value={openingBalance}
+                  onChangeText={setOpeningBalance}
+                  placeholder="0.00"
+                  keyboardType="numeric"
+                  editable={!isSubmitting}
+                />
+
+                <View style={styles.buttonContainer}>
+                  <Button
+                    title="Cancel"
+                    onPress={handleClose}
+                    disabled={isSubmitting}
+                    variant="outline"
+                    style={styles.cancelButton}
+                  />
+                  <Button
+                    title={isSubmitting ? 'Saving...' : 'Save Account'}
+                    onPress={handleSave}
+                    disabled={isSubmitting || !name.trim()}
+                    loading={isSubmitting}
+                    variant="primary"
+                    style={styles.saveButton}
+                  />
+                </View>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  formContent: {
+    padding: 16,
+  },
+  typeLabel: {
+    marginBottom: 6,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  typeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  typeItem: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+    minWidth: 76,
+  },
+  typeText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  saveButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+});
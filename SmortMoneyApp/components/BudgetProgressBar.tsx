@@ -23,13 +23,17 @@ const BudgetProgressBar: React.FC<BudgetProgressBarProps> = ({
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme];
   
+  // Spending only sums expenses, so it shouldn't be negative; clamp it so a bad total can't
+  // draw a bar of negative width
+  const spentValue = Math.max(currentValue, 0);
+
   // Calculate progress percentage, capped at 100%
-  const progress = budgetValue > 0 ? Math.min((currentValue / budgetValue) * 100, 100) : 0;
+  const progress = budgetValue > 0 ? Math.min((spentValue / budgetValue) * 100, 100) : 0;
   const displayValue = budgetValue > 0 ? budgetValue : 0;
 
   // Determine color based on progress
   let actualBarColor = barColor || colors.good; // Default to good color (Electric Blue)
-  if (currentValue > displayValue && displayValue > 0) {
+  if (spentValue > displayValue && displayValue > 0) {
     actualBarColor = colors.bad; // Red if over budget
   } else if (progress > 85) {
     actualBarColor = colors.warning; // Warning color if close to budget
@@ -39,7 +43,7 @@ const BudgetProgressBar: React.FC<BudgetProgressBarProps> = ({
     <View style={styles.container}>
       {showLabel && labelPosition === 'left' && (
         <Text style={[styles.label, { color: colors.muted, textAlign: 'left' }]}>
-          ${currentValue.toFixed(2)} / ${displayValue.toFixed(2)}
+          ${spentValue.toFixed(2)} / ${displayValue.toFixed(2)}
         </Text>
       )}
       
@@ -58,7 +62,7 @@ const BudgetProgressBar: React.FC<BudgetProgressBarProps> = ({
       
       {showLabel && labelPosition === 'right' && (
         <Text style={[styles.label, { color: colors.muted, textAlign: 'right' }]}>
-          ${currentValue.toFixed(2)} / ${displayValue.toFixed(2)}
+          ${spentValue.toFixed(2)} / ${displayValue.toFixed(2)}
         </Text>
       )}
     </View>
@@ -35,6 +35,8 @@ const AVAILABLE_ICONS = [
 interface CategoryData {
   name: string;
   iconName?: string | null;
+  description?: string | null; // Hint for the receipt scanner
+  keywords?: string | null; // Comma-separated merchant words
 }
 
 // Props interface
@@ -58,6 +60,8 @@ export default function CategoryFormModal({
 
   const [name, setName] = useState('');
   const [iconName, setIconName] = useState<string | null>('shape-outline');
+  const [description, setDescription] = useState('');
+  const [keywords, setKeywords] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showIconPicker, setShowIconPicker] = useState(false);
@@ -67,6 +71,8 @@ export default function CategoryFormModal({
     if (isVisible) {
       setName(initialData?.name || '');
       setIconName(initialData?.iconName || 'shape-outline');
+      setDescription(initialData?.description || '');
+      setKeywords(initialData?.keywords || '');
       setError(null);
       setIsSubmitting(false);
     }
@@ -84,7 +90,9 @@ export default function CategoryFormModal({
     try {
       await onSave({
         name: name.trim(),
-        iconName
+        iconName,
+        description: description.trim() || null,
+        keywords: keywords.trim() || null
       });
       handleClose();
     } catch (err) {
@@ -207,6 +215,24 @@ export default function CategoryFormModal({
                 </View>
 
                 {showIconPicker && <IconPicker />}
+
+                {/* Optional hints that help the receipt scanner pick this category */}
+                <Input
+                  label="Description (Optional)"
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder="e.g. Food and household supplies"
+                  editable={!isSubmitting}
+                  multiline
+                />
+                <Input
+                  label="Keywords (Optional)"
+                  value={keywords}
+                  onChangeText={setKeywords}
+                  placeholder="e.g. aldi, costco, farmers market"
+                  autoCapitalize="none"
+                  editable={!isSubmitting}
+                />
                 
                 <View style={styles.buttonContainer}>
                   <Button
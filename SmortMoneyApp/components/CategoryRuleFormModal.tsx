@@ -0,0 +1,399 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Keyboard,
+  ScrollView,
+  Switch
+} from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { ThemedText } from './ThemedText';
+import { Button } from './Button';
+import { Input } from './Input';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+// How the merchant pattern is compared, matching the backend's RULE_MATCH_TYPES
+export const RULE_MATCH_TYPES: { value: 'contains' | 'regex'; label: string; icon: string }[] = [
+  { value: 'contains', label: 'Contains', icon: 'text-search' },
+  { value: 'regex', label: 'Regex', icon: 'regex' },
+];
+
+// Data interface
+export interface CategoryRuleData {
+  merchantPattern: string | null;
+  matchType: 'contains' | 'regex';
+  minAmount: number | null;
+  maxAmount: number | null;
+  accountId: string | null;
+  categoryId: string;
+  priority: number;
+  enabled: boolean;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+// Props interface
+interface CategoryRuleFormModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onSave: (ruleData: CategoryRuleData) => Promise<void>;
+  initialData?: CategoryRuleData & { id?: string };
+  categories: Option[];
+  accounts: Option[];
+  mode: 'add' | 'edit';
+}
+
+// Empty amount fields mean "no bound"
+const amountToText = (amount: number | null | undefined) => (amount === null || amount === undefined ? '' : amount.toString());
+
+export default function CategoryRuleFormModal({
+  isVisible,
+  onClose,
+  onSave,
+  initialData,
+  categories,
+  accounts,
+  mode
+}: CategoryRuleFormModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [merchantPattern, setMerchantPattern] = useState('');
+  const [matchType, setMatchType] = useState<'contains' | 'regex'>('contains');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [priority, setPriority] = useState('0');
+  const [enabled, setEnabled] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset state when modal opens/closes
+  useEffect(() => {
+    if (isVisible) {
+      setMerchantPattern(initialData?.merchantPattern || '');
+      setMatchType(initialData?.matchType || 'contains');
+      setMinAmount(amountToText(initialData?.minAmount));
+      setMaxAmount(amountToText(initialData?.maxAmount));
+      setAccountId(initialData?.accountId || null);
+      setCategoryId(initialData?.categoryId || null);
+      setPriority(initialData ? initialData.priority.toString() : '0');
+      setEnabled(initialData ? initialData.enabled : true);
+      setError(null);
+      setIsSubmitting(false);
+    }
+  }, [isVisible, initialData]);
+
+  const handleSave = async () => {
+    if (!categoryId) {
+      setError('Choose the category this rule assigns.');
+      return;
+    }
+    const min = minAmount.trim() ? parseFloat(minAmount) : null;
+    const max = maxAmount.trim() ? parseFloat(maxAmount) : null;
+    if ((min !== null && (isNaN(min) || min < 0)) || (max !== null && (isNaN(max) || max < 0))) {
+      setError('Amounts must be non-negative numbers.');
+      return;
+    }
+    if (min !== null && max !== null && min > max) {
+      setError('Minimum amount cannot be greater than the maximum.');
+      return;
+    }
+    if (!merchantPattern.trim() && min === null && max === null && !accountId) {
+      setError('Add at least one condition: merchant, amount range or account.');
+      return;
+    }
+    if (matchType === 'regex' && merchantPattern.trim()) {
+      try {
+        new RegExp(merchantPattern.trim(), 'i');
+      } catch {
+        setError('Merchant pattern is not a valid regular expression.');
+        return;
+      }
+    }
+    const priorityNumber = parseInt(priority || '0', 10);
+    if (isNaN(priorityNumber)) {
+      setError('Priority must be a whole number.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSave({
+        merchantPattern: merchantPattern.trim() || null,
+        matchType,
+        minAmount: min,
+        maxAmount: max,
+        accountId,
+        categoryId,
+        priority: priorityNumber,
+        enabled,
+      });
+      handleClose();
+    } catch (err: any) {
+      console.error('Error saving category rule:', err);
+      setError(err.response?.data?.message || 'Failed to save rule. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContainer,
+              {
+                backgroundColor: colors.card,
+                borderColor: colors.border
+              }
+            ]}
+          >
+            <View style={styles.header}>
+              <ThemedText type="subtitle">
+                {mode === 'add' ? 'Add New Rule' : 'Edit Rule'}
+              </ThemedText>
+              <TouchableOpacity onPress={handleClose} disabled={isSubmitting}>
+                <MaterialCommunityIcons name="close" size={24} color={colors.icon} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.scrollView}>
+              <View style={styles.formContent}>
+                <Input
+                  label="Merchant"
+                  value={merchantPattern}
+                  onChangeText={setMerchantPattern}
+                  placeholder={matchType === 'regex' ? 'e.g. ^(uber|lyft)' : 'e.g. Starbucks'}
+                  autoCapitalize="none"
+                  editable={!isSubmitting}
+                />
+
+                <ThemedText style={styles.sectionLabel}>Match Merchant By</ThemedText>
+                <View style={styles.optionRow}>
+                  {RULE_MATCH_TYPES.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.optionItem,
+                        { borderColor: colors.border },
+                        matchType === option.value && {
+                          backgroundColor: colors.primary + '20',
+                          borderColor: colors.primary
+                        }
+                      ]}
+                      onPress={() => setMatchType(option.value)}
+                      disabled={isSubmitting}
+                    >
+                      <MaterialCommunityIcons name={option.icon} size={20} color={colors.primary} />
+                      <ThemedText style={styles.optionText}>{option.label}</ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={styles.amountRow}>
+                  <Input
+                    label="Min Amount"
+                    value={minAmount}
+                    onChangeText={setMinAmount}
+                    placeholder="Any"
+                    keyboardType="numeric"
+                    editable={!isSubmitting}
+                    containerStyle={styles.amountInput}
+                  />
+                  <Input
+                    label="Max Amount"
+                    value={maxAmount}
+                    onChangeText={setMaxAmount}
+                    placeholder="Any"
+                    keyboardType="numeric"
+                    editable={!isSubmitting}
+                    containerStyle={styles.amountInput}
+                  />
+                </View>
+
+                <ThemedText style={styles.sectionLabel}>Account</ThemedText>
+                <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+                  <Picker
+                    selectedValue={accountId}
+                    onValueChange={(value: string | null) => setAccountId(value)}
+                    enabled={!isSubmitting}
+                  >
+                    <Picker.Item label="Any account" value={null} />
+                    {accounts.map((account) => (
+                      <Picker.Item key={account.id} label={account.name} value={account.id} />
+                    ))}
+                  </Picker>
+                </View>
+
+                <ThemedText style={styles.sectionLabel}>Assign Category</ThemedText>
+                <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+                  <Picker
+                    selectedValue={categoryId}
+                    onValueChange={(value: string | null) => setCategoryId(value)}
+                    enabled={!isSubmitting}
+                  >
+                    <Picker.Item label="-- Select Category --" value={null} />
+                    {categories.map((category) => (
+                      <Picker.Item key={category.id} label={category.name} value={category.id} />
+                    ))}
+                  </Picker>
+                </View>
+
+                <Input
+                  label="Priority (lower runs first)"
+                  value={priority}
+                  onChangeText={setPriority}
+                  placeholder="0"
+                  keyboardType="numeric"
+                  editable={!isSubmitting}
+                />
+
+                <View style={styles.switchRow}>
+                  <ThemedText>Enabled</ThemedText>
+                  <Switch value={enabled} onValueChange={setEnabled} disabled={isSubmitting} />
+                </View>
+
+                {error && (
+                  <ThemedText style={[styles.errorText, { color: colors.error }]}>{error}</ThemedText>
+                )}
+
+                <View style={styles.buttonContainer}>
+                  <Button
+                    title="Cancel"
+                    onPress={handleClose}
+                    disabled={isSubmitting}
+                    variant="outline"
+                    style={styles.cancelButton}
+                  />
+                  <Button
+                    title={isSubmitting ? 'Saving...' : 'Save Rule'}
+                    onPress={handleSave}
+                    disabled={isSubmitting || !categoryId}
+                    loading={isSubmitting}
+                    variant="primary"
+                    style={styles.saveButton}
+                  />
+                </View>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  formContent: {
+    padding: 16,
+  },
+  sectionLabel: {
+    marginBottom: 6,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  optionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  optionText: {
+    fontSize: 13,
+    marginLeft: 6,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  amountInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  errorText: {
+    marginTop: 4,
+    fontSize: 13,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  saveButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,73 @@
+import React from 'react';
+import { StyleSheet, View, TouchableOpacity, ViewStyle } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { Colors } from '../constants/Colors';
+import { TRANSACTION_DIRECTIONS, TransactionDirection } from '../constants/Transactions';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { ThemedText } from './ThemedText';
+
+interface DirectionSelectorProps {
+  value: TransactionDirection;
+  onChange: (direction: TransactionDirection) => void;
+  disabled?: boolean;
+  style?: ViewStyle;
+}
+
+// Segmented control for choosing whether a transaction is an expense, income or transfer
+export function DirectionSelector({ value, onChange, disabled = false, style }: DirectionSelectorProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View style={[styles.container, { borderColor: colors.inputBorder }, style]}>
+      {TRANSACTION_DIRECTIONS.map((option) => {
+        const selected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => onChange(option.value)}
+            disabled={disabled}
+            style={[styles.segment, selected && { backgroundColor: colors.primary }]}
+          >
+            <MaterialCommunityIcons
+              name={option.icon}
+              size={16}
+              color={selected ? '#fff' : colors.icon}
+              style={styles.icon}
+            />
+            <ThemedText style={[styles.label, selected && styles.selectedLabel]}>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+  },
+  icon: {
+    marginRight: 4,
+  },
+  label: {
+    fontSize: 14,
+  },
+  selectedLabel: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
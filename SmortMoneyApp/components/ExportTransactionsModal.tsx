@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { ThemedText } from './ThemedText';
+import { exportTransactions } from '../api/transactions';
+import { shareFile } from '../utils/files';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+type ExportFormat = 'csv' | 'json' | 'qif';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; hint: string; icon: string; mimeType: string }[] = [
+  { format: 'csv', label: 'CSV', hint: 'Spreadsheets such as Excel or Google Sheets', icon: 'file-delimited-outline', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON', hint: 'Every field, for scripts and backups', icon: 'code-json', mimeType: 'application/json' },
+  { format: 'qif', label: 'QIF', hint: 'Quicken, GnuCash and other finance apps', icon: 'bank-transfer-out', mimeType: 'application/qif' },
+];
+
+// Props interface
+interface ExportTransactionsModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  filters: Record<string, unknown>; // The transaction list's current filters
+}
+
+export default function ExportTransactionsModal({
+  isVisible,
+  onClose,
+  filters
+}: ExportTransactionsModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    if (exporting) return;
+    setError(null);
+    onClose();
+  };
+
+  const handleExport = async (option: typeof EXPORT_OPTIONS[number]) => {
+    setExporting(option.format);
+    setError(null);
+    try {
+      const { fileName, content } = await exportTransactions(option.format, filters);
+      await shareFile(fileName, content, option.mimeType);
+      onClose();
+    } catch (err: any) {
+      console.error('Error exporting transactions:', err);
+      setError(err.message || 'Could not export the transactions');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View
+          style={[
+            styles.modalContainer,
+            {
+              backgroundColor: colors.card,
+              borderColor: colors.border
+            }
+          ]}
+        >
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <ThemedText type="subtitle">Export Transactions</ThemedText>
+            <TouchableOpacity onPress={handleClose} disabled={exporting !== null}>
+              <MaterialCommunityIcons name="close" size={24} color={colors.icon} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.content}>
+            <ThemedText style={styles.hint}>
+              Exports every transaction matching the current search and filters.
+            </ThemedText>
+            {EXPORT_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.format}
+                onPress={() => handleExport(option)}
+                disabled={exporting !== null}
+                style={[styles.option, { borderColor: colors.border }]}
+              >
+                <MaterialCommunityIcons name={option.icon} size={24} color={colors.primary} style={styles.optionIcon} />
+                <View style={styles.optionText}>
+                  <ThemedText type="defaultSemiBold">{option.label}</ThemedText>
+                  <ThemedText style={styles.hint}>{option.hint}</ThemedText>
+                </View>
+                {exporting === option.format && <ActivityIndicator color={colors.primary} />}
+              </TouchableOpacity>
+            ))}
+            {error && (
+              <ThemedText style={[styles.errorText, { color: colors.error }]}>{error}</ThemedText>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  optionIcon: {
+    marginRight: 12,
+  },
+  optionText: {
+    flex: 1,
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 14,
+  },
+});
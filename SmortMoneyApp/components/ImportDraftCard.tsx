@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Image, Alert } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { Colors } from '../constants/Colors';
+import { TransactionDirection, formatTransactionAmount } from '../constants/Transactions';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { ThemedText } from './ThemedText';
+import { Card } from './Card';
+import { Button } from './Button';
+import { Input } from './Input';
+import { DirectionSelector } from './DirectionSelector';
+import { ReceiptImage } from './ReceiptImage';
+import { LineItemList, LineItem } from './LineItemList';
+
+// An extracted transaction that hasn't been saved yet, as returned by the imports API
+export interface ImportDraft {
+  id: string;
+  imageIndex: number;
+  status: 'pending' | 'accepted' | 'rejected';
+  merchant: string;
+  amount: number;
+  direction: TransactionDirection;
+  date: string;
+  description?: string | null;
+  categoryId: string | null;
+  accountId: string | null;
+  duplicateReason: 'existing' | 'batch' | null;
+  duplicateOf?: { merchant: string; date: string } | null;
+  receiptId: string | null;
+  lineItems?: LineItem[];
+  needsReview: boolean; // Extraction wasn't sure of the merchant, amount or date
+  reviewReason: string | null;
+}
+
+// Fields the card can change on a draft
+export type ImportDraftChanges = Partial<Pick<ImportDraft, 'merchant' | 'amount' | 'direction' | 'categoryId'>>;
+
+interface ImportDraftCardProps {
+  draft: ImportDraft;
+  thumbnailUri?: string; // Local screenshot the draft was read from; the stored receipt is used otherwise
+  categories: { id: string; name: string }[];
+  onUpdate: (changes: ImportDraftChanges) => Promise<void>;
+  onAccept: () => void;
+  onReject: () => void;
+  disabled?: boolean;
+}
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Review card for one draft: the screenshot next to what was read from it, editable before commit
+export function ImportDraftCard({ draft, thumbnailUri, categories, onUpdate, onAccept, onReject, disabled = false }: ImportDraftCardProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [merchant, setMerchant] = useState(draft.merchant);
+  const [amount, setAmount] = useState(draft.amount.toFixed(2));
+  const [direction, setDirection] = useState<TransactionDirection>(draft.direction);
+
+  const rejected = draft.status === 'rejected';
+
+  const startEditing = () => {
+    setMerchant(draft.merchant);
+    setAmount(draft.amount.toFixed(2));
+    setDirection(draft.direction);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const amountNumber = parseFloat(amount);
+    if (!merchant.trim() || isNaN(amountNumber) || amountNumber <= 0) {
+      Alert.alert('Validation Error', 'Merchant is required and amount must be a positive number.');
+      return;
+    }
+    await onUpdate({ merchant: merchant.trim(), amount: amountNumber, direction });
+    setIsEditing(false);
+  };
+
+  return (
+    <Card
+      style={StyleSheet.flatten([
+        styles.card,
+        draft.duplicateReason ? { borderColor: colors.warning, borderWidth: 1 } : null,
+        rejected ? styles.rejectedCard : null,
+      ])}
+    >
+      <View style={styles.row}>
+        {thumbnailUri ? (
+          <Image source={{ uri: thumbnailUri }} style={styles.thumbnail} />
+        ) : draft.receiptId ? (
+          <ReceiptImage receiptId={draft.receiptId} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder, { borderColor: colors.inputBorder }]}>
+            <MaterialCommunityIcons name="image-outline" size={24} color={colors.icon} />
+          </View>
+        )}
+
+        <View style={styles.details}>
+          {isEditing ? (
+            <>
+              <DirectionSelector value={direction} onChange={setDirection} disabled={disabled} />
+              <Input label="Merchant" value={merchant} onChangeText={setMerchant} editable={!disabled} />
+              <Input label="Amount" value={amount} onChangeText={setAmount} keyboardType="numeric" editable={!disabled} />
+            </>
+          ) : (
+            <>
+              <View style={styles.header}>
+                <ThemedText type="defaultSemiBold" style={styles.merchant}>{draft.merchant}</ThemedText>
+                <ThemedText style={styles.date}>{formatDate(draft.date)}</ThemedText>
+              </View>
+              <ThemedText type="defaultSemiBold" style={styles.amount}>
+                {formatTransactionAmount(draft.amount, draft.direction)}
+              </ThemedText>
+            </>
+          )}
+
+          <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+            <Picker
+              selectedValue={draft.categoryId}
+              onValueChange={(itemValue: string | null) => {
+                if (itemValue !== draft.categoryId) onUpdate({ categoryId: itemValue });
+              }}
+              enabled={!disabled && !rejected}
+            >
+              <Picker.Item label="-- Uncategorized --" value={null} />
+              {categories.map((category) => (
+                <Picker.Item key={category.id} label={category.name} value={category.id} />
+              ))}
+            </Picker>
+          </View>
+        </View>
+      </View>
+
+      {draft.lineItems && <LineItemList items={draft.lineItems} />}
+
+      {draft.needsReview && (
+        <ThemedText style={[styles.notice, { color: colors.warning }]}>
+          {draft.reviewReason || 'Check the merchant, amount and date'}
+        </ThemedText>
+      )}
+
+      {draft.duplicateReason && (
+        <ThemedText style={styles.notice}>
+          {draft.duplicateOf
+            ? `Looks like "${draft.duplicateOf.merchant}" on ${formatDate(draft.duplicateOf.date)}, already recorded`
+            : 'Appears more than once in this import'}
+        </ThemedText>
+      )}
+
+      <View style={styles.actions}>
+        {isEditing ? (
+          <>
+            <Button title="Cancel" onPress={() => setIsEditing(false)} disabled={disabled} variant="ghost" size="small" />
+            <Button title="Save" onPress={handleSave} disabled={disabled} variant="primary" size="small" style={styles.actionButton} />
+          </>
+        ) : (
+          <>
+            <Button title="Edit" onPress={startEditing} disabled={disabled || rejected} variant="ghost" size="small" />
+            {rejected ? (
+              <Button title="Accept" onPress={onAccept} disabled={disabled} variant="outline" size="small" style={styles.actionButton} />
+            ) : (
+              <Button title="Reject" onPress={onReject} disabled={disabled} variant="outline" size="small" style={styles.actionButton} />
+            )}
+          </>
+        )}
+      </View>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 8,
+  },
+  rejectedCard: {
+    opacity: 0.5,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  thumbnail: {
+    width: 60,
+    height: 60,
+    borderRadius: 4,
+    marginRight: 12,
+  },
+  thumbnailPlaceholder: {
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  details: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  merchant: {
+    fontSize: 15,
+    flexShrink: 1,
+  },
+  date: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  amount: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  notice: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  actionButton: {
+    marginLeft: 8,
+  },
+});
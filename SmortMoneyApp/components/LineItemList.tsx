@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, TouchableOpacity } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { ThemedText } from './ThemedText';
+
+// One itemized line read from a receipt
+export interface LineItem {
+  id: string;
+  position: number;
+  description: string;
+  quantity?: number | null;
+  unitPrice?: number | null;
+  total: number; // Negative for discounts and coupons
+}
+
+interface LineItemListProps {
+  items: LineItem[];
+}
+
+const formatMoney = (value: number): string => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+// Collapsed "N items" toggle that expands into the receipt's itemized lines
+export function LineItemList({ items }: LineItemListProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [expanded, setExpanded] = useState(false);
+
+  if (items.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={() => setExpanded(prev => !prev)} style={styles.toggle}>
+        <MaterialCommunityIcons name="format-list-bulleted" size={14} color={colors.primary} />
+        <ThemedText style={[styles.toggleText, { color: colors.primary }]}>
+          {items.length} item{items.length === 1 ? '' : 's'}
+        </ThemedText>
+        <MaterialCommunityIcons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color={colors.primary} />
+      </TouchableOpacity>
+
+      {expanded && items.map(item => (
+        <View key={item.id} style={[styles.line, { borderColor: colors.border }]}>
+          <View style={styles.lineDetails}>
+            <ThemedText style={styles.description}>{item.description}</ThemedText>
+            {item.quantity != null && item.unitPrice != null && (
+              <ThemedText style={[styles.quantity, { color: colors.muted }]}>
+                {item.quantity} × {formatMoney(item.unitPrice)}
+              </ThemedText>
+            )}
+          </View>
+          <ThemedText style={[styles.total, item.total < 0 && { color: colors.success }]}>
+            {formatMoney(item.total)}
+          </ThemedText>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  toggleText: {
+    fontSize: 13,
+    marginHorizontal: 4,
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  lineDetails: {
+    flex: 1,
+    marginRight: 8,
+  },
+  description: {
+    fontSize: 13,
+  },
+  quantity: {
+    fontSize: 12,
+  },
+  total: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,51 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Image, ImageStyle, ImageSourcePropType, ActivityIndicator } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { getReceiptImageSource } from '../api/receiptService';
+import { Colors } from '../constants/Colors';
+import { useColorScheme } from '../hooks/useColorScheme';
+
+interface ReceiptImageProps {
+  receiptId: string;
+  style?: ImageStyle;
+}
+
+// Stored receipt or screenshot a transaction was extracted from, loaded from the backend
+export function ReceiptImage({ receiptId, style }: ReceiptImageProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [source, setSource] = useState<ImageSourcePropType | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    getReceiptImageSource(receiptId).then((imageSource) => {
+      if (!cancelled) setSource(imageSource);
+    });
+    return () => { cancelled = true; };
+  }, [receiptId]);
+
+  if (failed || !source) {
+    return (
+      <View style={[styles.placeholder, { borderColor: colors.inputBorder }, style]}>
+        {failed ? (
+          <MaterialCommunityIcons name="image-broken-variant" size={24} color={colors.icon} />
+        ) : (
+          <ActivityIndicator size="small" color={colors.primary} />
+        )}
+      </View>
+    );
+  }
+
+  return <Image source={source} style={style} resizeMode="contain" onError={() => setFailed(true)} />;
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
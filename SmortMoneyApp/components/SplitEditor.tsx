@@ -0,0 +1,134 @@
+import React from 'react';
+import { StyleSheet, View, TouchableOpacity } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { Colors } from '../constants/Colors';
+import { sumAmounts } from '../constants/Transactions';
+import { useColorScheme } from '../hooks/useColorScheme';
+import { ThemedText } from './ThemedText';
+import { Input } from './Input';
+import { Button } from './Button';
+
+// One editable split line; the amount is kept as typed until saving
+export interface SplitLine {
+  categoryId: string | null;
+  amount: string;
+}
+
+interface SplitEditorProps {
+  splits: SplitLine[];
+  onChange: (splits: SplitLine[]) => void;
+  categories: { id: string; name: string }[];
+  totalAmount: number; // The transaction amount the lines must add up to
+  disabled?: boolean;
+}
+
+// Sum of the split lines, ignoring amounts that are not numbers yet
+export function splitLinesTotal(splits: SplitLine[]): number {
+  return sumAmounts(splits.map(line => parseFloat(line.amount) || 0));
+}
+
+// Editor for dividing one transaction across several categories
+export function SplitEditor({ splits, onChange, categories, totalAmount, disabled = false }: SplitEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const remaining = totalAmount - splitLinesTotal(splits);
+  const balanced = Math.abs(remaining) < 0.005;
+
+  const updateLine = (index: number, changes: Partial<SplitLine>) => {
+    onChange(splits.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = () => {
+    // Pre-fill the new line with whatever is left to allocate
+    const prefill = splits.length === 0 ? totalAmount : Math.max(remaining, 0);
+    const newLines = splits.length === 0
+      ? [{ categoryId: null, amount: prefill.toFixed(2) }, { categoryId: null, amount: '' }]
+      : [...splits, { categoryId: null, amount: prefill.toFixed(2) }];
+    onChange(newLines);
+  };
+
+  const removeLine = (index: number) => {
+    const remainingLines = splits.filter((_, i) => i !== index);
+    // A single line is not a split; drop back to the plain category
+    onChange(remainingLines.length < 2 ? [] : remainingLines);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.label}>Split</ThemedText>
+      {splits.map((line, index) => (
+        <View key={index} style={styles.lineRow}>
+          <View style={[styles.pickerContainer, { borderColor: colors.inputBorder }]}>
+            <Picker
+              selectedValue={line.categoryId}
+              onValueChange={(itemValue: string | null) => updateLine(index, { categoryId: itemValue })}
+              enabled={!disabled}
+            >
+              <Picker.Item label="-- Uncategorized --" value={null} />
+              {categories.map((cat) => (
+                <Picker.Item key={cat.id} label={cat.name} value={cat.id} />
+              ))}
+            </Picker>
+          </View>
+          <Input
+            value={line.amount}
+            onChangeText={(text) => updateLine(index, { amount: text })}
+            keyboardType="numeric"
+            editable={!disabled}
+            containerStyle={styles.amountInput}
+          />
+          <TouchableOpacity onPress={() => removeLine(index)} disabled={disabled} style={styles.removeButton}>
+            <MaterialCommunityIcons name="close-circle-outline" size={22} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      {splits.length > 0 && (
+        <ThemedText style={[styles.remaining, { color: balanced ? colors.success : colors.error }]}>
+          {balanced ? 'Split adds up to the amount' : `Remaining to allocate: $${remaining.toFixed(2)}`}
+        </ThemedText>
+      )}
+      <Button
+        title={splits.length === 0 ? 'Split Across Categories' : 'Add Split Line'}
+        onPress={addLine}
+        variant="outline"
+        size="small"
+        disabled={disabled || totalAmount <= 0}
+        leftIcon={<MaterialCommunityIcons name="call-split" size={16} color={colors.primary} />}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  pickerContainer: {
+    flex: 2,
+    borderWidth: 1,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  amountInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  removeButton: {
+    marginLeft: 8,
+  },
+  remaining: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,24 @@
+/**
+ * Shared transaction constants and formatting for SmortMoney.
+ * Amounts come from the backend as positive magnitudes; the direction carries the sign.
+ */
+
+export type TransactionDirection = 'expense' | 'income' | 'transfer';
+
+export const TRANSACTION_DIRECTIONS: { value: TransactionDirection; label: string; icon: string }[] = [
+  { value: 'expense', label: 'Expense', icon: 'arrow-up-bold-circle-outline' },
+  { value: 'income', label: 'Income', icon: 'arrow-down-bold-circle-outline' },
+  { value: 'transfer', label: 'Transfer', icon: 'swap-horizontal' },
+];
+
+// Formats an amount with its sign: "-$12.50" for expenses, "+$12.50" for income, "$12.50" for transfers
+export const formatTransactionAmount = (amount: number, direction?: string | null): string => {
+  const formatted = `$${Math.abs(amount).toFixed(2)}`;
+  if (direction === 'income') return `+${formatted}`;
+  if (direction === 'transfer') return formatted;
+  return `-${formatted}`;
+};
+
+// Adds up decimal amounts in whole cents, so long lists don't pick up float rounding errors
+export const sumAmounts = (amounts: number[]): number =>
+  amounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0) / 100;
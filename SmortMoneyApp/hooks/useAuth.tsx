@@ -0,0 +1,65 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import {
+  getCurrentUser,
+  login as loginRequest,
+  register as registerRequest,
+  logout as logoutRequest,
+  onUnauthorized,
+} from '../api/authService';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  loading: boolean; // True until the stored session has been checked
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string, name?: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Restore the session saved in AsyncStorage, and drop it if the backend rejects it later
+  useEffect(() => {
+    getCurrentUser()
+      .then(setUser)
+      .catch(error => console.error('Failed to restore session:', error))
+      .finally(() => setLoading(false));
+    return onUnauthorized(() => setUser(null));
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    setUser(await loginRequest({ email, password }));
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string, name?: string) => {
+    setUser(await registerRequest({ email, password, name }));
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await logoutRequest();
+    setUser(null);
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,34 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Hands a generated file to the share sheet, or downloads it in the browser
+export async function shareFile(fileName: string, content: string, mimeType: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content);
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+}
+
+// Lets the user pick a text file and reads it; null when the picker was cancelled
+export async function pickTextFile(mimeTypes: string[]): Promise<{ name: string; content: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  const asset = result.assets[0];
+  const content = Platform.OS === 'web'
+    ? await (asset.file ? asset.file.text() : (await fetch(asset.uri)).text())
+    : await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, content };
+}
@@ -10,6 +10,18 @@ import cors from 'cors';
 import budgetRoutes from './routes/budgetRoutes'; // Use import for the TS file
 import categoryRoutes from './routes/categoryRoutes'; // Use import for the TS file
 import transactionRoutes from './routes/transactionRoutes'; // Use import for the TS file
+import accountRoutes from './routes/accountRoutes'; // Use import for the TS file
+import transferRoutes from './routes/transferRoutes'; // Use import for the TS file
+import categoryRuleRoutes from './routes/categoryRuleRoutes'; // Use import for the TS file
+import merchantMappingRoutes from './routes/merchantMappingRoutes'; // Use import for the TS file
+import importRoutes from './routes/importRoutes'; // Use import for the TS file
+import csvImportRoutes from './routes/csvImportRoutes'; // Use import for the TS file
+import ofxImportRoutes from './routes/ofxImportRoutes'; // Use import for the TS file
+import receiptRoutes from './routes/receiptRoutes'; // Use import for the TS file
+import backupRoutes from './routes/backupRoutes'; // Use import for the TS file
+import authRoutes from './routes/authRoutes'; // Use import for the TS file
+import { requireAuth } from './middleware/requireAuth';
+import { decimalMoney } from './middleware/decimalMoney';
 
 
 const app: Express = express(); // Type the app instance
@@ -17,7 +29,14 @@ const PORT: number = parseInt(process.env.PORT || '3000', 10); // Ensure PORT is
 
 // Middleware
 app.use(cors()); // Enable Cross-Origin Resource Sharing for all origins
-app.use(express.json()); // Parse incoming JSON requests
+// Parse incoming JSON requests; CSV imports send whole bank exports. Restores send the whole
+// backup archive and are parsed with a larger limit in backupRoutes, once the session is checked.
+const parseJson = express.json({ limit: '5mb' });
+app.use((req: Request, res: Response, next: NextFunction) => {
+  if (/^\/api\/backup\/restore\/?$/i.test(req.path)) return next();
+  return parseJson(req, res, next);
+});
+app.use(decimalMoney); // Money is stored in cents but sent to clients as decimal amounts
 
 // Basic test route with types
 app.get('/', (req: Request, res: Response) => {
@@ -25,9 +44,21 @@ app.get('/', (req: Request, res: Response) => {
 });
 
 // API Routes
+// Registration and login are public; everything else under /api needs a session token
+app.use('/api/auth', authRoutes); // Mount auth routes
+app.use('/api', requireAuth);
+app.use('/api/transactions/import/csv', csvImportRoutes); // Mount bank CSV import routes (before the /:id routes)
+app.use('/api/transactions/import/ofx', ofxImportRoutes); // Mount OFX/QFX statement import routes
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/categories', categoryRoutes); // Mount category routes
 app.use('/api/budgets', budgetRoutes); // Mount budget routes
+app.use('/api/accounts', accountRoutes); // Mount account routes
+app.use('/api/transfers', transferRoutes); // Mount transfer routes
+app.use('/api/category-rules', categoryRuleRoutes); // Mount categorization rule routes
+app.use('/api/merchant-mappings', merchantMappingRoutes); // Mount learned merchant mapping routes
+app.use('/api/imports', importRoutes); // Mount screenshot import (draft review) routes
+app.use('/api/receipts', receiptRoutes); // Mount stored receipt image routes
+app.use('/api/backup', backupRoutes); // Mount backup and restore routes
 
 // Start the server
 app.listen(PORT, () => {
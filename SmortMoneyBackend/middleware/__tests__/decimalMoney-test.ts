@@ -0,0 +1,16 @@
+import { Request, Response } from 'express';
+import { decimalMoney } from '../decimalMoney';
+
+describe('decimalMoney', () => {
+  it('sends cents fields of JSON responses as decimal amounts', () => {
+    const sent: unknown[] = [];
+    const res = { json: (body: unknown) => { sent.push(body); return res; } } as unknown as Response;
+    const next = jest.fn();
+
+    decimalMoney({} as Request, res, next);
+    res.json({ balanceCents: 12345, transactions: [{ amountCents: 250 }] });
+
+    expect(next).toHaveBeenCalled();
+    expect(sent).toEqual([{ balance: 123.45, transactions: [{ amount: 2.5 }] }]);
+  });
+});
@@ -0,0 +1,9 @@
+import { Request, Response, NextFunction } from 'express';
+import { centsToDecimal } from '../services/money';
+
+// Clients see decimal amounts; rewrites the "...Cents" fields of every JSON response (see services/money)
+export function decimalMoney(req: Request, res: Response, next: NextFunction) {
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => json(centsToDecimal(body));
+  next();
+}
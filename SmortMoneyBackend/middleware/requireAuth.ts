@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { hashSessionToken } from '../services/authService';
+
+const prisma = new PrismaClient();
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireAuth; every route mounted behind it can rely on it
+      userId: string;
+      sessionId: string;
+    }
+  }
+}
+
+// Reads "Authorization: Bearer <token>" and attaches the session's user to the request
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+  if (!token) {
+    res.status(401).json({ message: 'Authentication required' });
+    return; // Explicit return for clarity
+  }
+
+  try {
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: hashSessionToken(token) },
+    });
+    if (!session || session.expiresAt < new Date()) {
+      res.status(401).json({ message: 'Session expired or invalid; please log in again' });
+      return; // Explicit return for clarity
+    }
+    req.userId = session.userId;
+    req.sessionId = session.id;
+    next();
+  } catch (error: any) {
+    console.error('Error checking session:', error);
+    res.status(500).json({ message: 'Failed to check session' });
+    return; // Explicit return for clarity
+  }
+}
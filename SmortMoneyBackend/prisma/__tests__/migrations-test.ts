@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database } from 'sql.js';
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+const migrationNames = fs.readdirSync(MIGRATIONS_DIR).filter(name => fs.statSync(path.join(MIGRATIONS_DIR, name)).isDirectory()).sort();
+
+function runMigrations(db: Database, names: string[]) {
+  for (const name of names) {
+    db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, name, 'migration.sql'), 'utf8'));
+  }
+}
+
+function rows(db: Database, sql: string): Record<string, unknown>[] {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+  return result.values.map(values => Object.fromEntries(result.columns.map((column, index) => [column, values[index]])));
+}
+
+// Rows shaped like the data from before directions existed: manual entries with spending
+// positive, screenshot extractions with purchases negative, and the seeded categories
+function seedBaselineRows(db: Database) {
+  db.exec(`
+    INSERT INTO "Category" ("id", "name") VALUES ('dining', 'Dining'), ('income', 'Income'), ('transfer', 'Transfer');
+    INSERT INTO "Transaction" ("id", "updatedAt", "date", "merchant", "amount", "categoryId") VALUES
+      ('panda', 0, 0, 'Panda Express', 15.86, 'dining'),
+      ('cafe', 0, 0, 'Example Cafe', -12.5, 'dining'),
+      ('salary', 0, 0, 'Salary', 2000, 'income'),
+      ('to-savings', 0, 0, 'Savings', 150, 'transfer'),
+      ('card-payment', 0, 0, 'USAA Credit Card', -191.24, NULL);
+  `);
+}
+
+describe('migrations', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+    const directionIndex = migrationNames.indexOf('20250501120000_add_transaction_direction');
+    runMigrations(db, migrationNames.slice(0, directionIndex));
+    seedBaselineRows(db);
+    runMigrations(db, migrationNames.slice(directionIndex));
+  });
+
+  afterEach(() => db.close());
+
+  it('keeps positive baseline amounts as expenses and only the Income category as income', () => {
+    expect(rows(db, `SELECT "id", "direction", "amountCents" FROM "Transaction" ORDER BY "id"`)).toEqual([
+      { id: 'cafe', direction: 'expense', amountCents: 1250 },
+      { id: 'card-payment', direction: 'expense', amountCents: 19124 },
+      { id: 'panda', direction: 'expense', amountCents: 1586 },
+      { id: 'salary', direction: 'income', amountCents: 200000 },
+      { id: 'to-savings', direction: 'expense', amountCents: 15000 },
+    ]);
+  });
+
+  it('flags the rows whose amount was negative for review', () => {
+    expect(rows(db, `SELECT "id" FROM "Transaction" WHERE "needsReview" ORDER BY "id"`)).toEqual([
+      { id: 'cafe' },
+      { id: 'card-payment' },
+    ]);
+  });
+
+  it('leaves no helper table behind', () => {
+    expect(rows(db, `SELECT "name" FROM "sqlite_master" WHERE "name" = '_DirectionBackfillReview'`)).toEqual([]);
+  });
+});
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "direction" TEXT NOT NULL DEFAULT 'expense';
+
+-- Backfill: stored amounts had no reliable sign. Entered transactions kept spending positive,
+-- while screenshot extraction stored purchases as negative. So every row stays an expense,
+-- rows in the "Income" category become income, and rows with a negative amount are noted
+-- for the review flag (add_needs_review) to ask the user about. No row becomes a transfer:
+-- these aren't linked to a second account, so they must keep moving the balance.
+-- Every amount is then stored as a positive magnitude.
+UPDATE "Transaction" SET "direction" = 'income'
+WHERE "categoryId" IN (SELECT "id" FROM "Category" WHERE "name" = 'Income');
+CREATE TABLE "_DirectionBackfillReview" ("id" TEXT NOT NULL PRIMARY KEY);
+INSERT INTO "_DirectionBackfillReview" ("id") SELECT "id" FROM "Transaction" WHERE "amount" < 0;
+UPDATE "Transaction" SET "amount" = ABS("amount");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "Transfer" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "date" DATETIME NOT NULL,
+    "amount" REAL NOT NULL,
+    "description" TEXT,
+    "fromAccountId" TEXT NOT NULL,
+    "toAccountId" TEXT NOT NULL,
+    CONSTRAINT "Transfer_fromAccountId_fkey" FOREIGN KEY ("fromAccountId") REFERENCES "Account" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Transfer_toAccountId_fkey" FOREIGN KEY ("toAccountId") REFERENCES "Account" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "date" DATETIME NOT NULL,
+    "merchant" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'expense',
+    "description" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    "transferId" TEXT,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("accountId", "amount", "categoryId", "createdAt", "date", "description", "direction", "id", "merchant", "updatedAt") SELECT "accountId", "amount", "categoryId", "createdAt", "date", "description", "direction", "id", "merchant", "updatedAt" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
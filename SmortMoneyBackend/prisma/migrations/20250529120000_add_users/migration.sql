@@ -0,0 +1,116 @@
+-- DropIndex
+DROP INDEX "Account_name_key";
+
+-- DropIndex
+DROP INDEX "Category_name_key";
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Account" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'checking',
+    "openingBalance" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "Account_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Account" ("createdAt", "id", "name", "openingBalance", "type", "updatedAt") SELECT "createdAt", "id", "name", "openingBalance", "type", "updatedAt" FROM "Account";
+DROP TABLE "Account";
+ALTER TABLE "new_Account" RENAME TO "Account";
+CREATE UNIQUE INDEX "Account_userId_name_key" ON "Account"("userId", "name");
+CREATE TABLE "new_Budget" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "amount" REAL NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    CONSTRAINT "Budget_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Budget_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Budget" ("amount", "categoryId", "createdAt", "id", "month", "updatedAt", "year") SELECT "amount", "categoryId", "createdAt", "id", "month", "updatedAt", "year" FROM "Budget";
+DROP TABLE "Budget";
+ALTER TABLE "new_Budget" RENAME TO "Budget";
+CREATE UNIQUE INDEX "Budget_categoryId_month_year_key" ON "Budget"("categoryId", "month", "year");
+CREATE TABLE "new_Category" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "iconName" TEXT,
+    CONSTRAINT "Category_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Category" ("iconName", "id", "name") SELECT "iconName", "id", "name" FROM "Category";
+DROP TABLE "Category";
+ALTER TABLE "new_Category" RENAME TO "Category";
+CREATE UNIQUE INDEX "Category_userId_name_key" ON "Category"("userId", "name");
+CREATE TABLE "new_Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "date" DATETIME NOT NULL,
+    "merchant" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'expense',
+    "description" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    "transferId" TEXT,
+    CONSTRAINT "Transaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("accountId", "amount", "categoryId", "createdAt", "date", "description", "direction", "id", "merchant", "transferId", "updatedAt") SELECT "accountId", "amount", "categoryId", "createdAt", "date", "description", "direction", "id", "merchant", "transferId", "updatedAt" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE TABLE "new_Transfer" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "date" DATETIME NOT NULL,
+    "amount" REAL NOT NULL,
+    "description" TEXT,
+    "fromAccountId" TEXT NOT NULL,
+    "toAccountId" TEXT NOT NULL,
+    CONSTRAINT "Transfer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transfer_fromAccountId_fkey" FOREIGN KEY ("fromAccountId") REFERENCES "Account" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Transfer_toAccountId_fkey" FOREIGN KEY ("toAccountId") REFERENCES "Account" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Transfer" ("amount", "createdAt", "date", "description", "fromAccountId", "id", "toAccountId", "updatedAt") SELECT "amount", "createdAt", "date", "description", "fromAccountId", "id", "toAccountId", "updatedAt" FROM "Transfer";
+DROP TABLE "Transfer";
+ALTER TABLE "new_Transfer" RENAME TO "Transfer";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Session_tokenHash_key" ON "Session"("tokenHash");
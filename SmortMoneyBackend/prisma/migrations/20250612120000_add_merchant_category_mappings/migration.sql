@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "MerchantCategoryMapping" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "merchantKey" TEXT NOT NULL,
+    "merchant" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "correctionCount" INTEGER NOT NULL DEFAULT 1,
+    CONSTRAINT "MerchantCategoryMapping_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "MerchantCategoryMapping_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MerchantCategoryMapping_userId_merchantKey_key" ON "MerchantCategoryMapping"("userId", "merchantKey");
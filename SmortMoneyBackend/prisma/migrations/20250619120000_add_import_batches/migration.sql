@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "ImportBatch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "accountId" TEXT,
+    "imageCount" INTEGER NOT NULL DEFAULT 0,
+    "committedAt" DATETIME,
+    CONSTRAINT "ImportBatch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ImportBatch_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ImportDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "imageIndex" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "merchant" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'expense',
+    "date" DATETIME NOT NULL,
+    "description" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    "duplicateReason" TEXT,
+    "duplicateOfId" TEXT,
+    "transactionId" TEXT,
+    CONSTRAINT "ImportDraft_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "Transaction" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportDraft_transactionId_key" ON "ImportDraft"("transactionId");
@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "Receipt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "originalName" TEXT,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    CONSTRAINT "Receipt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "date" DATETIME NOT NULL,
+    "merchant" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'expense',
+    "description" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    "transferId" TEXT,
+    "receiptId" TEXT,
+    CONSTRAINT "Transaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("accountId", "amount", "categoryId", "createdAt", "date", "description", "direction", "id", "merchant", "transferId", "updatedAt", "userId") SELECT "accountId", "amount", "categoryId", "createdAt", "date", "description", "direction", "id", "merchant", "transferId", "updatedAt", "userId" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE TABLE "new_ImportDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "imageIndex" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "merchant" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'expense',
+    "date" DATETIME NOT NULL,
+    "description" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    "duplicateReason" TEXT,
+    "duplicateOfId" TEXT,
+    "transactionId" TEXT,
+    "receiptId" TEXT,
+    CONSTRAINT "ImportDraft_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "Transaction" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ImportDraft" ("accountId", "amount", "batchId", "categoryId", "createdAt", "date", "description", "direction", "duplicateOfId", "duplicateReason", "id", "imageIndex", "merchant", "status", "transactionId", "updatedAt") SELECT "accountId", "amount", "batchId", "categoryId", "createdAt", "date", "description", "direction", "duplicateOfId", "duplicateReason", "id", "imageIndex", "merchant", "status", "transactionId", "updatedAt" FROM "ImportDraft";
+DROP TABLE "ImportDraft";
+ALTER TABLE "new_ImportDraft" RENAME TO "ImportDraft";
+CREATE UNIQUE INDEX "ImportDraft_transactionId_key" ON "ImportDraft"("transactionId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Receipt_fileName_key" ON "Receipt"("fileName");
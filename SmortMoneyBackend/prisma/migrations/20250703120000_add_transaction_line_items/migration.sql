@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "TransactionLineItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT,
+    "draftId" TEXT,
+    "position" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" REAL,
+    "unitPrice" REAL,
+    "total" REAL NOT NULL,
+    CONSTRAINT "TransactionLineItem_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TransactionLineItem_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ImportDraft" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
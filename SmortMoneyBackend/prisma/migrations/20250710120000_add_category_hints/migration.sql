@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "description" TEXT;
+ALTER TABLE "Category" ADD COLUMN "keywords" TEXT;
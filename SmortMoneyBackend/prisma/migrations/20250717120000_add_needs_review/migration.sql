@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "ImportDraft" ADD COLUMN "needsReview" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ImportDraft" ADD COLUMN "reviewReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "needsReview" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Transaction" ADD COLUMN "reviewReason" TEXT;
+
+-- Backfill: rows whose direction couldn't be told from their sign (see add_transaction_direction)
+UPDATE "Transaction" SET "needsReview" = true, "reviewReason" = 'Direction guessed for an amount saved before directions existed'
+WHERE "id" IN (SELECT "id" FROM "_DirectionBackfillReview");
+DROP TABLE "_DirectionBackfillReview";
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "CsvImportProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "hasHeader" BOOLEAN NOT NULL DEFAULT true,
+    "dateColumn" TEXT NOT NULL,
+    "dateFormat" TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+    "merchantColumn" TEXT NOT NULL,
+    "memoColumn" TEXT,
+    "amountColumn" TEXT,
+    "debitColumn" TEXT,
+    "creditColumn" TEXT,
+    "invertAmounts" BOOLEAN NOT NULL DEFAULT false,
+    "decimalComma" BOOLEAN NOT NULL DEFAULT false,
+    "accountId" TEXT,
+    CONSTRAINT "CsvImportProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CsvImportProfile_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CsvImportProfile_userId_name_key" ON "CsvImportProfile"("userId", "name");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN "ledgerBalance" REAL;
+ALTER TABLE "Account" ADD COLUMN "ledgerBalanceDate" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "fitId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_userId_accountId_fitId_idx" ON "Transaction"("userId", "accountId", "fitId");
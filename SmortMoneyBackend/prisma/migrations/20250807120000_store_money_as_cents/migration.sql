@@ -0,0 +1,162 @@
+-- Money columns move from REAL to INTEGER cents (minor units); existing values are rounded
+-- to the nearest cent.
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "date" DATETIME NOT NULL,
+    "merchant" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'expense',
+    "description" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    "transferId" TEXT,
+    "receiptId" TEXT,
+    "needsReview" BOOLEAN NOT NULL DEFAULT false,
+    "reviewReason" TEXT,
+    "fitId" TEXT,
+    CONSTRAINT "Transaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("id", "createdAt", "updatedAt", "userId", "date", "merchant", "amountCents", "direction", "description", "categoryId", "accountId", "transferId", "receiptId", "needsReview", "reviewReason", "fitId") SELECT "id", "createdAt", "updatedAt", "userId", "date", "merchant", CAST(ROUND("amount" * 100) AS INTEGER), "direction", "description", "categoryId", "accountId", "transferId", "receiptId", "needsReview", "reviewReason", "fitId" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE INDEX "Transaction_userId_accountId_fitId_idx" ON "Transaction"("userId", "accountId", "fitId");
+CREATE TABLE "new_Account" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'checking',
+    "openingBalanceCents" INTEGER NOT NULL DEFAULT 0,
+    "ledgerBalanceCents" INTEGER,
+    "ledgerBalanceDate" DATETIME,
+    CONSTRAINT "Account_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Account" ("id", "createdAt", "updatedAt", "userId", "name", "type", "openingBalanceCents", "ledgerBalanceCents", "ledgerBalanceDate") SELECT "id", "createdAt", "updatedAt", "userId", "name", "type", CAST(ROUND("openingBalance" * 100) AS INTEGER), CAST(ROUND("ledgerBalance" * 100) AS INTEGER), "ledgerBalanceDate" FROM "Account";
+DROP TABLE "Account";
+ALTER TABLE "new_Account" RENAME TO "Account";
+CREATE UNIQUE INDEX "Account_userId_name_key" ON "Account"("userId", "name");
+CREATE TABLE "new_Transfer" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "date" DATETIME NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "description" TEXT,
+    "fromAccountId" TEXT NOT NULL,
+    "toAccountId" TEXT NOT NULL,
+    CONSTRAINT "Transfer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transfer_fromAccountId_fkey" FOREIGN KEY ("fromAccountId") REFERENCES "Account" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Transfer_toAccountId_fkey" FOREIGN KEY ("toAccountId") REFERENCES "Account" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Transfer" ("id", "createdAt", "updatedAt", "userId", "date", "amountCents", "description", "fromAccountId", "toAccountId") SELECT "id", "createdAt", "updatedAt", "userId", "date", CAST(ROUND("amount" * 100) AS INTEGER), "description", "fromAccountId", "toAccountId" FROM "Transfer";
+DROP TABLE "Transfer";
+ALTER TABLE "new_Transfer" RENAME TO "Transfer";
+CREATE TABLE "new_TransactionSplit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "amountCents" INTEGER NOT NULL,
+    "description" TEXT,
+    CONSTRAINT "TransactionSplit_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TransactionSplit_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_TransactionSplit" ("id", "transactionId", "categoryId", "amountCents", "description") SELECT "id", "transactionId", "categoryId", CAST(ROUND("amount" * 100) AS INTEGER), "description" FROM "TransactionSplit";
+DROP TABLE "TransactionSplit";
+ALTER TABLE "new_TransactionSplit" RENAME TO "TransactionSplit";
+CREATE TABLE "new_CategoryRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "merchantPattern" TEXT,
+    "matchType" TEXT NOT NULL DEFAULT 'contains',
+    "minAmountCents" INTEGER,
+    "maxAmountCents" INTEGER,
+    "accountId" TEXT,
+    "categoryId" TEXT NOT NULL,
+    CONSTRAINT "CategoryRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CategoryRule_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CategoryRule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_CategoryRule" ("id", "createdAt", "updatedAt", "userId", "priority", "enabled", "merchantPattern", "matchType", "minAmountCents", "maxAmountCents", "accountId", "categoryId") SELECT "id", "createdAt", "updatedAt", "userId", "priority", "enabled", "merchantPattern", "matchType", CAST(ROUND("minAmount" * 100) AS INTEGER), CAST(ROUND("maxAmount" * 100) AS INTEGER), "accountId", "categoryId" FROM "CategoryRule";
+DROP TABLE "CategoryRule";
+ALTER TABLE "new_CategoryRule" RENAME TO "CategoryRule";
+CREATE TABLE "new_ImportDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "imageIndex" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "merchant" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'expense',
+    "date" DATETIME NOT NULL,
+    "description" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    "duplicateReason" TEXT,
+    "duplicateOfId" TEXT,
+    "transactionId" TEXT,
+    "receiptId" TEXT,
+    "needsReview" BOOLEAN NOT NULL DEFAULT false,
+    "reviewReason" TEXT,
+    CONSTRAINT "ImportDraft_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "Transaction" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ImportDraft_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ImportDraft" ("id", "createdAt", "updatedAt", "batchId", "imageIndex", "status", "merchant", "amountCents", "direction", "date", "description", "categoryId", "accountId", "duplicateReason", "duplicateOfId", "transactionId", "receiptId", "needsReview", "reviewReason") SELECT "id", "createdAt", "updatedAt", "batchId", "imageIndex", "status", "merchant", CAST(ROUND("amount" * 100) AS INTEGER), "direction", "date", "description", "categoryId", "accountId", "duplicateReason", "duplicateOfId", "transactionId", "receiptId", "needsReview", "reviewReason" FROM "ImportDraft";
+DROP TABLE "ImportDraft";
+ALTER TABLE "new_ImportDraft" RENAME TO "ImportDraft";
+CREATE UNIQUE INDEX "ImportDraft_transactionId_key" ON "ImportDraft"("transactionId");
+CREATE TABLE "new_TransactionLineItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT,
+    "draftId" TEXT,
+    "position" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" REAL,
+    "unitPriceCents" INTEGER,
+    "totalCents" INTEGER NOT NULL,
+    CONSTRAINT "TransactionLineItem_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TransactionLineItem_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ImportDraft" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_TransactionLineItem" ("id", "transactionId", "draftId", "position", "description", "quantity", "unitPriceCents", "totalCents") SELECT "id", "transactionId", "draftId", "position", "description", "quantity", CAST(ROUND("unitPrice" * 100) AS INTEGER), CAST(ROUND("total" * 100) AS INTEGER) FROM "TransactionLineItem";
+DROP TABLE "TransactionLineItem";
+ALTER TABLE "new_TransactionLineItem" RENAME TO "TransactionLineItem";
+CREATE TABLE "new_Budget" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    CONSTRAINT "Budget_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Budget_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Budget" ("id", "createdAt", "updatedAt", "userId", "month", "year", "amountCents", "categoryId") SELECT "id", "createdAt", "updatedAt", "userId", "month", "year", CAST(ROUND("amount" * 100) AS INTEGER), "categoryId" FROM "Budget";
+DROP TABLE "Budget";
+ALTER TABLE "new_Budget" RENAME TO "Budget";
+CREATE UNIQUE INDEX "Budget_categoryId_month_year_key" ON "Budget"("categoryId", "month", "year");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,159 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { PrismaClient } from '@prisma/client';
+
+// The routes create their own client; this one stands in for the database
+jest.mock('@prisma/client', () => {
+  const client = {
+    transaction: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn(), groupBy: jest.fn() },
+    transactionSplit: { findMany: jest.fn() },
+    transfer: { update: jest.fn(), aggregate: jest.fn() },
+    category: { findMany: jest.fn() },
+    categoryRule: { findMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((callback: (tx: typeof client) => unknown) => callback(client));
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+import transactionRoutes from '../transactionRoutes';
+
+const prisma = new PrismaClient() as unknown as {
+  transaction: { create: jest.Mock; findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock; groupBy: jest.Mock };
+  transactionSplit: { findMany: jest.Mock };
+  transfer: { update: jest.Mock; aggregate: jest.Mock };
+  category: { findMany: jest.Mock };
+  categoryRule: { findMany: jest.Mock };
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(done => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => { req.userId = 'user-1'; next(); });
+  app.use('/api/transactions', transactionRoutes);
+  server = app.listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/transactions`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+  jest.restoreAllMocks();
+});
+
+const send = (method: string, path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('POST /api/transactions', () => {
+  beforeEach(() => {
+    prisma.categoryRule.findMany.mockResolvedValue([]);
+    prisma.transaction.create.mockImplementation(async (args: { data: object }) => ({ id: 'tx-1', ...args.data }));
+  });
+
+  it('stores a manual entry as a positive amount, an expense unless told otherwise', async () => {
+    const res = await send('POST', '/', { merchant: ' Farmers Market ', amount: -12.5, date: '2025-06-14' });
+
+    expect(res.status).toBe(201);
+    expect(prisma.transaction.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        merchant: 'Farmers Market',
+        amountCents: 1250,
+        direction: 'expense',
+        date: new Date('2025-06-14'),
+        categoryId: null,
+        accountId: null,
+        description: null,
+      }),
+    }));
+  });
+
+  it('requires a merchant, a numeric amount and a valid date', async () => {
+    const missing = await send('POST', '/', { merchant: 'Cafe', date: '2025-06-14' });
+    const notANumber = await send('POST', '/', { merchant: 'Cafe', amount: 'twelve', date: '2025-06-14' });
+    const badDate = await send('POST', '/', { merchant: 'Cafe', amount: 12, date: 'someday' });
+
+    expect([missing.status, notANumber.status, badDate.status]).toEqual([400, 400, 400]);
+    expect(await badDate.json()).toEqual({ message: 'Invalid date format' });
+    expect(prisma.transaction.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /api/transactions/:id on a transfer leg', () => {
+  const leg = { amountCents: 5000, direction: 'transfer', accountId: 'checking', categoryId: null, transferId: 'transfer-1', splits: [] };
+
+  beforeEach(() => {
+    prisma.transaction.findUnique.mockResolvedValue(leg);
+    prisma.transaction.update.mockImplementation(async (args: { data: object }) => ({ ...leg, ...args.data, merchant: 'Transfer to Savings' }));
+  });
+
+  it('takes a negative amount as the new size of the transfer', async () => {
+    const res = await send('PATCH', '/tx-1', { amount: -20 });
+
+    expect(res.status).toBe(200);
+    expect(prisma.transaction.update).toHaveBeenCalledWith(expect.objectContaining({ data: { amountCents: 2000 } }));
+    expect(prisma.transfer.update).toHaveBeenCalledWith({ where: { id: 'transfer-1' }, data: { amountCents: 2000 } });
+    expect(prisma.transaction.updateMany).toHaveBeenCalledWith({ where: { transferId: 'transfer-1' }, data: { amountCents: 2000 } });
+  });
+
+  it('still rejects an explicit change of direction', async () => {
+    const res = await send('PATCH', '/tx-1', { amount: -20, direction: 'expense' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ message: 'Transfer legs cannot change direction; delete the transfer instead' });
+    expect(prisma.transaction.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/transactions/summary', () => {
+  const splitLine = (transactionId: string, direction: string, categoryId: string, amountCents: number) => (
+    { transactionId, categoryId, amountCents, transaction: { direction } }
+  );
+
+  beforeEach(() => {
+    prisma.transaction.groupBy.mockResolvedValue([
+      { categoryId: 'groceries', direction: 'expense', _sum: { amountCents: 2000 }, _count: { _all: 2 } },
+    ]);
+    prisma.transactionSplit.findMany.mockResolvedValue([
+      splitLine('split-expense', 'expense', 'groceries', 300),
+      splitLine('split-expense', 'expense', 'household', 700),
+      splitLine('split-transfer', 'transfer', 'groceries', 4000),
+      splitLine('split-transfer', 'transfer', 'household', 1000),
+    ]);
+    prisma.transfer.aggregate.mockResolvedValue({ _sum: { amountCents: 10000 } });
+    prisma.category.findMany.mockResolvedValue([
+      { id: 'groceries', name: 'Groceries', iconName: null },
+      { id: 'household', name: 'Household', iconName: null },
+    ]);
+  });
+
+  it('keeps split transfers out of the category rows and the transaction count', async () => {
+    const res = await fetch(`${baseUrl}/summary?month=6&year=2025`);
+    const summary = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(summary.categories.map((row: { categoryId: string; totalSpentCents: number; transactionCount: number }) =>
+      [row.categoryId, row.totalSpentCents, row.transactionCount])).toEqual([
+      ['groceries', 2300, 3],
+      ['household', 700, 1],
+    ]);
+    expect(summary.totals).toEqual(expect.objectContaining({ expensesCents: 3000, transfersCents: 15000, transactionCount: 3 }));
+  });
+});
@@ -0,0 +1,201 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { accountBalanceEffect } from '../services/transferService';
+import { computeBalances } from '../services/accountBalances';
+import { toCents } from '../services/money';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// Supported account types
+const ACCOUNT_TYPES = ['checking', 'savings', 'credit', 'cash', 'other'];
+
+// GET /api/accounts - Get all accounts with their current balances
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const accounts = await prisma.account.findMany({
+      where: { userId: req.userId },
+      orderBy: { name: 'asc' }
+    });
+    const balances = await computeBalances(prisma, accounts);
+    res.json(accounts.map(account => ({ ...account, ...balances.get(account.id) })));
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error fetching accounts:', error);
+    res.status(500).json({ message: 'Error fetching accounts' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// GET /api/accounts/:id - Get a single account with its running balance history
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const account = await prisma.account.findUnique({
+      where: { id: id, userId: req.userId },
+    });
+    if (!account) {
+      res.status(404).json({ message: 'Account not found' });
+      return; // Explicitly return void
+    }
+
+    // Walk the account's transactions oldest first to compute the balance after each one
+    const transactions = await prisma.transaction.findMany({
+      where: { accountId: id },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+      include: { category: true, transfer: { select: { fromAccountId: true } } },
+    });
+    let runningBalanceCents = account.openingBalanceCents;
+    const history = transactions.map(transaction => {
+      runningBalanceCents += accountBalanceEffect(transaction);
+      return { ...transaction, runningBalanceCents };
+    });
+
+    res.json({
+      ...account,
+      balanceCents: runningBalanceCents,
+      transactionCount: transactions.length,
+      transactions: history.reverse(), // Most recent first
+    });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error fetching account ${id}:`, error);
+    res.status(500).json({ message: 'Error fetching account' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/accounts - Create a new account
+router.post('/', async (req: Request, res: Response) => {
+  // Define expected body structure
+  const { name, type, openingBalance }: { name: string; type?: string; openingBalance?: number | string } = req.body;
+
+  if (!name || !name.trim()) {
+    res.status(400).json({ message: 'Account name is required' });
+    return; // Explicitly return void
+  }
+  if (type !== undefined && !ACCOUNT_TYPES.includes(type)) {
+    res.status(400).json({ message: `Account type must be one of ${ACCOUNT_TYPES.join(', ')}` });
+    return; // Explicitly return void
+  }
+  const parsedBalance = openingBalance === undefined || openingBalance === '' ? 0 : parseFloat(String(openingBalance));
+  if (isNaN(parsedBalance)) {
+    res.status(400).json({ message: 'Opening balance must be a number' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const newAccount = await prisma.account.create({
+      data: {
+        userId: req.userId,
+        name: name.trim(),
+        type: type, // Defaults to checking if not provided
+        openingBalanceCents: toCents(parsedBalance),
+      },
+    });
+    res.status(201).json({ ...newAccount, balanceCents: newAccount.openingBalanceCents, transactionCount: 0 });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle potential unique constraint violation (duplicate name)
+    if (error?.code === 'P2002' && error?.meta?.target?.includes('name')) {
+      res.status(409).json({ message: `Account with name "${name}" already exists.` });
+      return; // Explicitly return void
+    }
+    console.error('Error creating account:', error);
+    res.status(500).json({ message: 'Error creating account' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// PUT /api/accounts/:id - Update an account
+router.put('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  // Define expected body structure
+  const { name, type, openingBalance }: { name?: string; type?: string; openingBalance?: number | string } = req.body;
+
+  // Basic validation: Allow updating any subset of the fields
+  if (name === undefined && type === undefined && openingBalance === undefined) {
+    res.status(400).json({ message: 'No update data provided (name, type or openingBalance required)' });
+    return; // Explicitly return void
+  }
+
+  // Define type for updateData
+  const updateData: { name?: string; type?: string; openingBalanceCents?: number } = {};
+  if (name !== undefined) {
+    if (!name.trim()) {
+      res.status(400).json({ message: 'Account name cannot be empty' });
+      return; // Explicitly return void
+    }
+    updateData.name = name.trim();
+  }
+  if (type !== undefined) {
+    if (!ACCOUNT_TYPES.includes(type)) {
+      res.status(400).json({ message: `Account type must be one of ${ACCOUNT_TYPES.join(', ')}` });
+      return; // Explicitly return void
+    }
+    updateData.type = type;
+  }
+  if (openingBalance !== undefined) {
+    const parsedBalance = parseFloat(String(openingBalance));
+    if (isNaN(parsedBalance)) {
+      res.status(400).json({ message: 'Opening balance must be a number' });
+      return; // Explicitly return void
+    }
+    updateData.openingBalanceCents = toCents(parsedBalance);
+  }
+
+  try {
+    const updatedAccount = await prisma.account.update({
+      where: { id: id, userId: req.userId },
+      data: updateData,
+    });
+    const balances = await computeBalances(prisma, [updatedAccount]);
+    res.json({ ...updatedAccount, ...balances.get(updatedAccount.id) });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle potential unique constraint violation on name update
+    if (error?.code === 'P2002' && error?.meta?.target?.includes('name')) {
+      res.status(409).json({ message: `Account with name "${name}" already exists.` });
+      return; // Explicitly return void
+    }
+    // Handle case where the account to update doesn't exist
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Account with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    console.error(`Error updating account ${id}:`, error);
+    res.status(500).json({ message: 'Error updating account' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// DELETE /api/accounts/:id - Delete an account
+// Its transactions are kept and simply lose their account link (ON DELETE SET NULL).
+// Accounts that still have transfers cannot be deleted, as that would unbalance the other account.
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    await prisma.account.delete({
+      where: { id: id, userId: req.userId },
+    });
+    res.status(204).send(); // No content on successful deletion
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle case where the account to delete doesn't exist
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Account with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    // Foreign key violation: transfers still reference this account
+    if (error?.code === 'P2003') {
+        res.status(409).json({ message: 'Account has transfers. Delete them before deleting the account.' });
+        return; // Explicitly return void
+    }
+    console.error(`Error deleting account ${id}:`, error);
+    res.status(500).json({ message: 'Error deleting account' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
@@ -0,0 +1,156 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { requireAuth } from '../middleware/requireAuth';
+import {
+  hashPassword,
+  verifyPassword,
+  generateSessionToken,
+  hashSessionToken,
+  normalizeEmail,
+  MIN_PASSWORD_LENGTH,
+  SESSION_DURATION_MS,
+  DEFAULT_CATEGORIES,
+} from '../services/authService';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// Never send the password hash back to the client
+const publicUserSelect = { id: true, email: true, name: true, createdAt: true };
+
+// Creates a session for the user and returns the raw token (shown to the client once)
+async function startSession(tx: Prisma.TransactionClient, userId: string): Promise<string> {
+  const token = generateSessionToken();
+  await tx.session.create({
+    data: {
+      userId,
+      tokenHash: hashSessionToken(token),
+      expiresAt: new Date(Date.now() + SESSION_DURATION_MS),
+    },
+  });
+  return token;
+}
+
+// POST /api/auth/register - Create a user and sign them in
+router.post('/register', async (req: Request, res: Response) => {
+  // Define expected body structure
+  const { email, password, name }: { email?: string; password?: string; name?: string | null } = req.body ?? {};
+
+  if (!email || typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+    res.status(400).json({ message: 'A valid email address is required' });
+    return; // Explicitly return void
+  }
+  if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    return; // Explicitly return void
+  }
+  if (name !== undefined && name !== null && typeof name !== 'string') {
+    res.status(400).json({ message: 'Name must be a string' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const passwordHash = await hashPassword(password);
+    const { user, token } = await prisma.$transaction(async (tx) => {
+      const isFirstUser = (await tx.user.count()) === 0;
+      const user = await tx.user.create({
+        data: { email: normalizeEmail(email), name: name?.trim() || null, passwordHash },
+        select: publicUserSelect,
+      });
+      // Data recorded before user accounts existed has no owner; the first user adopts it
+      if (isFirstUser) {
+        const unowned = { where: { userId: null }, data: { userId: user.id } };
+        await tx.category.updateMany(unowned);
+        await tx.account.updateMany(unowned);
+        await tx.budget.updateMany(unowned);
+        await tx.transfer.updateMany(unowned);
+        await tx.transaction.updateMany(unowned);
+      }
+      // Everyone else starts with the categories the receipt scanner knows about
+      if ((await tx.category.count({ where: { userId: user.id } })) === 0) {
+        await tx.category.createMany({
+          data: DEFAULT_CATEGORIES.map(category => ({ ...category, userId: user.id })),
+        });
+      }
+      return { user, token: await startSession(tx, user.id) };
+    });
+    res.status(201).json({ token, user });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle unique constraint violation (email already registered)
+    if (error?.code === 'P2002') {
+      res.status(409).json({ message: 'An account with this email already exists' });
+      return; // Explicitly return void
+    }
+    console.error('Error registering user:', error);
+    res.status(500).json({ message: 'Error registering user' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/auth/login - Exchange email and password for a session token
+router.post('/login', async (req: Request, res: Response) => {
+  const { email, password }: { email?: string; password?: string } = req.body ?? {};
+
+  if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
+    res.status(400).json({ message: 'Email and password are required' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email: normalizeEmail(email) },
+    });
+    // Same message for unknown email and wrong password, so accounts cannot be probed
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      res.status(401).json({ message: 'Invalid email or password' });
+      return; // Explicitly return void
+    }
+
+    const token = await startSession(prisma, user.id);
+    res.json({ token, user: { id: user.id, email: user.email, name: user.name, createdAt: user.createdAt } });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error logging in:', error);
+    res.status(500).json({ message: 'Error logging in' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/auth/logout - End the current session
+router.post('/logout', requireAuth, async (req: Request, res: Response) => {
+  try {
+    await prisma.session.delete({
+      where: { id: req.sessionId },
+    });
+    res.status(204).send(); // No content on successful logout
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error logging out:', error);
+    res.status(500).json({ message: 'Error logging out' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// GET /api/auth/me - The signed-in user
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: publicUserSelect,
+    });
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return; // Explicitly return void
+    }
+    res.json(user);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error fetching current user:', error);
+    res.status(500).json({ message: 'Error fetching current user' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
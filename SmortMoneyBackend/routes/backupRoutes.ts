@@ -0,0 +1,72 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { createBackup, parseBackupArchive, restoreBackup, isRestoreMode, RESTORE_MODES } from '../services/backup';
+import { deleteOrphanReceipts } from '../services/receiptStorage';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// A restore writes every table in one transaction; big archives need longer than the default 5s
+const RESTORE_TIMEOUT_MS = 120_000;
+// Archives are parsed here rather than by the app-wide JSON parser, so only signed-in users can send this much
+const RESTORE_BODY_LIMIT = '50mb';
+
+// GET /api/backup - Download all of the user's data as a versioned JSON archive
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    // Read in one transaction so the archive is a consistent snapshot
+    const archive = await prisma.$transaction(client => createBackup(client, req.userId));
+    const fileName = `smortmoney-backup-${archive.exportedAt.slice(0, 10)}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.json(archive);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error creating backup:', error);
+    res.status(500).json({ message: 'Error creating backup' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/backup/restore - Restore an archive made by GET /api/backup
+// Body: { backup: <archive>, mode: 'replace' | 'merge' }
+// "replace" deletes the user's current data first; "merge" adds what isn't there yet.
+// Nothing is written unless the whole archive restores.
+router.post('/restore', express.json({ limit: RESTORE_BODY_LIMIT }), async (req: Request, res: Response) => {
+  const { backup, mode } = req.body ?? {};
+  if (!isRestoreMode(mode)) {
+    res.status(400).json({ message: `mode must be one of ${RESTORE_MODES.join(', ')}` });
+    return; // Explicitly return void
+  }
+  const { archive, error } = parseBackupArchive(backup);
+  if (!archive) {
+    res.status(400).json({ message: error });
+    return; // Explicitly return void
+  }
+
+  try {
+    const results = await prisma.$transaction(
+      client => restoreBackup(client, req.userId, archive, mode),
+      { timeout: RESTORE_TIMEOUT_MS }
+    );
+    // Screenshots that only replaced transactions pointed at aren't needed any more
+    if (mode === 'replace') {
+      await deleteOrphanReceipts(prisma, req.userId);
+    }
+    const added = Object.values(results).reduce((sum, result) => sum + result.added, 0);
+    res.json({ message: `Restored ${added} records`, mode, results });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Rows with missing or mistyped fields, or that clash with existing data
+    if (error instanceof Prisma.PrismaClientValidationError || error instanceof Prisma.PrismaClientKnownRequestError) {
+      console.warn('Rejected backup archive:', error.message);
+      res.status(400).json({ message: 'The backup could not be restored; it has invalid or conflicting rows' });
+      return; // Explicitly return void
+    }
+    console.error('Error restoring backup:', error);
+    res.status(500).json({ message: 'Error restoring backup' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
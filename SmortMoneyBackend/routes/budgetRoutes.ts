@@ -1,5 +1,6 @@
 import express, { Request, Response, Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { toCents } from '../services/money';
 
 const router: Router = express.Router();
 const prisma = new PrismaClient();
@@ -8,7 +9,7 @@ const prisma = new PrismaClient();
 router.get('/', async (req: Request, res: Response) => {
   const { month, year } = req.query; // Allow filtering by month and year query params
 
-  const whereClause: { month?: number; year?: number } = {}; // Add type annotation
+  const whereClause: { userId: string; month?: number; year?: number } = { userId: req.userId }; // Add type annotation
   if (month) whereClause.month = parseInt(month as string, 10); // Add type assertion
   if (year) {
       const parsedYear = parseInt(year as string, 10);
@@ -53,7 +54,7 @@ router.get('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   try {
     const budget = await prisma.budget.findUnique({
-      where: { id: id },
+      where: { id: id, userId: req.userId },
       include: { category: true }, // Include category details
     });
     if (budget) {
@@ -91,7 +92,7 @@ router.post('/', async (req: Request, res: Response) => {
 
   try {
     // Check if category exists
-    const categoryExists = await prisma.category.findUnique({ where: { id: categoryId } });
+    const categoryExists = await prisma.category.findUnique({ where: { id: categoryId, userId: req.userId } });
     if (!categoryExists) {
         res.status(404).json({ message: `Category with ID ${categoryId} not found.` });
         return; // Explicitly return void
@@ -99,8 +100,9 @@ router.post('/', async (req: Request, res: Response) => {
 
     const newBudget = await prisma.budget.create({
       data: {
+        userId: req.userId,
         categoryId: categoryId,
-        amount: parsedAmount,
+        amountCents: toCents(parsedAmount),
         month: parsedMonth,
         year: parsedYear,
       },
@@ -139,9 +141,9 @@ router.put('/:id', async (req: Request, res: Response) => {
 
   try {
     const updatedBudget = await prisma.budget.update({
-      where: { id: id },
+      where: { id: id, userId: req.userId },
       data: {
-        amount: parsedAmount,
+        amountCents: toCents(parsedAmount),
       },
       include: { category: true }, // Include category details
     });
@@ -164,7 +166,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   try {
     await prisma.budget.delete({
-      where: { id: id },
+      where: { id: id, userId: req.userId },
     });
     res.status(204).send(); // No content on successful deletion
     return; // Explicitly return void
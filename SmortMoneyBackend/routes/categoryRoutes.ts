@@ -4,10 +4,29 @@ import { PrismaClient } from '@prisma/client';
 const router: Router = express.Router();
 const prisma = new PrismaClient();
 
-// GET /api/categories - Get all categories
+// Keywords are stored as one comma-separated string; accept that or an array of words
+function normalizeKeywords(keywords: string | string[] | null): string | null {
+  const words = (Array.isArray(keywords) ? keywords : (keywords ?? '').split(','))
+    .map(word => String(word).trim())
+    .filter(Boolean);
+  return words.length > 0 ? words.join(', ') : null;
+}
+
+// Checks the extraction hint fields of a request body; returns the error message, if any
+function hintFieldsError(description: unknown, keywords: unknown): string | null {
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return 'Description must be a string or null';
+  }
+  const keywordsValid = keywords === undefined || keywords === null || typeof keywords === 'string'
+    || (Array.isArray(keywords) && keywords.every(word => typeof word === 'string'));
+  return keywordsValid ? null : 'Keywords must be a string, a list of strings or null';
+}
+
+// GET /api/categories - Get all of the signed-in user's categories
 router.get('/', async (req: Request, res: Response) => {
   try {
     const categories = await prisma.category.findMany({
+      where: { userId: req.userId },
       orderBy: { name: 'asc' } // Optional: order by name
     });
     res.json(categories);
@@ -24,7 +43,7 @@ router.get('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   try {
     const category = await prisma.category.findUnique({
-      where: { id: id },
+      where: { id: id, userId: req.userId },
     });
     if (category) {
       res.json(category);
@@ -43,18 +62,31 @@ router.get('/:id', async (req: Request, res: Response) => {
 // POST /api/categories - Create a new category
 router.post('/', async (req: Request, res: Response) => {
   // Define expected body structure
-  const { name, iconName }: { name: string; iconName?: string | null } = req.body;
+  const { name, iconName, description, keywords }: {
+    name: string;
+    iconName?: string | null;
+    description?: string | null;
+    keywords?: string | string[] | null;
+  } = req.body;
 
   if (!name) {
     res.status(400).json({ message: 'Category name is required' });
     return; // Explicitly return void
   }
+  const hintError = hintFieldsError(description, keywords);
+  if (hintError) {
+    res.status(400).json({ message: hintError });
+    return; // Explicitly return void
+  }
 
   try {
     const newCategory = await prisma.category.create({
       data: {
+        userId: req.userId,
         name: name,
         iconName: iconName, // Will be null if not provided
+        description: description?.trim() || null,
+        keywords: normalizeKeywords(keywords ?? null),
       },
     });
     res.status(201).json(newCategory);
@@ -76,24 +108,37 @@ router.post('/', async (req: Request, res: Response) => {
 router.put('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   // Define expected body structure
-  const { name, iconName }: { name?: string; iconName?: string | null } = req.body;
+  const { name, iconName, description, keywords }: {
+    name?: string;
+    iconName?: string | null;
+    description?: string | null;
+    keywords?: string | string[] | null;
+  } = req.body;
 
-  // Basic validation: Allow updating name, iconName, or both
-  if (name === undefined && iconName === undefined) {
-      res.status(400).json({ message: 'No update data provided (name or iconName required)' });
+  // Basic validation: Allow updating any combination of the fields
+  if (name === undefined && iconName === undefined && description === undefined && keywords === undefined) {
+      res.status(400).json({ message: 'No update data provided (name, iconName, description or keywords required)' });
       return; // Explicitly return void
   }
+  const hintError = hintFieldsError(description, keywords);
+  if (hintError) {
+    res.status(400).json({ message: hintError });
+    return; // Explicitly return void
+  }
 
   // Define type for updateData
-  const updateData: { name?: string; iconName?: string | null } = {};
+  const updateData: { name?: string; iconName?: string | null; description?: string | null; keywords?: string | null } = {};
   if (name !== undefined) updateData.name = name;
   // Allow setting iconName to null explicitly or providing a string
   if (iconName !== undefined) updateData.iconName = iconName;
+  // Empty description or keywords clear them
+  if (description !== undefined) updateData.description = description?.trim() || null;
+  if (keywords !== undefined) updateData.keywords = normalizeKeywords(keywords);
 
 
   try {
     const updatedCategory = await prisma.category.update({
-      where: { id: id },
+      where: { id: id, userId: req.userId },
       data: updateData,
     });
     res.json(updatedCategory);
@@ -128,7 +173,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
     // Current implementation: Simple delete. Add checks/logic as needed.
 
     await prisma.category.delete({
-      where: { id: id },
+      where: { id: id, userId: req.userId },
     });
     res.status(204).send(); // No content on successful deletion
     return; // Explicitly return void
@@ -0,0 +1,223 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient, CategoryRule } from '@prisma/client';
+import {
+  parseCategoryRuleInput,
+  findMatchingRule,
+  CategoryRuleInput,
+  RULE_ORDER,
+} from '../services/categoryRules';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// Relations returned with every rule
+const ruleInclude = {
+  category: true,
+  account: true,
+};
+
+// Returns an error message when the rule points at a category or account the user doesn't own
+async function findMissingReference(userId: string, data: CategoryRuleInput): Promise<string | null> {
+  if (data.categoryId) {
+    const category = await prisma.category.findUnique({ where: { id: data.categoryId, userId } });
+    if (!category) return `Category with ID ${data.categoryId} not found`;
+  }
+  if (data.accountId) {
+    const account = await prisma.account.findUnique({ where: { id: data.accountId, userId } });
+    if (!account) return `Account with ID ${data.accountId} not found`;
+  }
+  return null;
+}
+
+/**
+ * Existing transactions the rule would recategorize: those it matches that no
+ * higher-priority enabled rule claims first. Transfer legs and split transactions
+ * are skipped, and already-categorized ones only when includeCategorized is set.
+ */
+async function findRuleMatches(userId: string, rule: CategoryRule, includeCategorized: boolean) {
+  const candidates = await prisma.transaction.findMany({
+    where: {
+      userId,
+      transferId: null,
+      splits: { none: {} },
+      accountId: rule.accountId ?? undefined,
+      amountCents: { gte: rule.minAmountCents ?? undefined, lte: rule.maxAmountCents ?? undefined },
+      OR: includeCategorized
+        ? [{ categoryId: null }, { categoryId: { not: rule.categoryId } }]
+        : [{ categoryId: null }],
+    },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    include: { category: true, account: true },
+  });
+
+  // Rank the rule among the enabled ones, even if it is disabled itself
+  const rules = await prisma.categoryRule.findMany({
+    where: { userId, OR: [{ enabled: true }, { id: rule.id }] },
+    orderBy: RULE_ORDER,
+  });
+  return candidates.filter(transaction => findMatchingRule(rules, transaction)?.id === rule.id);
+}
+
+// GET /api/category-rules - Get all rules in the order they are tried
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const rules = await prisma.categoryRule.findMany({
+      where: { userId: req.userId },
+      orderBy: RULE_ORDER,
+      include: ruleInclude,
+    });
+    res.json(rules);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error fetching category rules:', error);
+    res.status(500).json({ message: 'Error fetching category rules' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/category-rules - Create a new rule
+router.post('/', async (req: Request, res: Response) => {
+  const { data, error } = parseCategoryRuleInput(req.body ?? {}, false);
+  if (error) {
+    res.status(400).json({ message: error });
+    return; // Explicitly return void
+  }
+
+  try {
+    const missingReference = await findMissingReference(req.userId, data);
+    if (missingReference) {
+      res.status(404).json({ message: missingReference });
+      return; // Explicitly return void
+    }
+    const newRule = await prisma.categoryRule.create({
+      data: { ...data, categoryId: data.categoryId!, userId: req.userId },
+      include: ruleInclude,
+    });
+    res.status(201).json(newRule);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error creating category rule:', error);
+    res.status(500).json({ message: 'Error creating category rule' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// PUT /api/category-rules/:id - Update a rule; any subset of its fields may be sent
+router.put('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!req.body || Object.keys(req.body).length === 0) {
+    res.status(400).json({ message: 'No update data provided' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const existing = await prisma.categoryRule.findUnique({
+      where: { id: id, userId: req.userId },
+    });
+    if (!existing) {
+      res.status(404).json({ message: `Category rule with ID ${id} not found.` });
+      return; // Explicitly return void
+    }
+    const { data, error } = parseCategoryRuleInput(req.body, true, existing);
+    if (error) {
+      res.status(400).json({ message: error });
+      return; // Explicitly return void
+    }
+    const missingReference = await findMissingReference(req.userId, data);
+    if (missingReference) {
+      res.status(404).json({ message: missingReference });
+      return; // Explicitly return void
+    }
+
+    const updatedRule = await prisma.categoryRule.update({
+      where: { id: id, userId: req.userId },
+      data,
+      include: ruleInclude,
+    });
+    res.json(updatedRule);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle case where the rule was deleted in the meantime
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Category rule with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    console.error(`Error updating category rule ${id}:`, error);
+    res.status(500).json({ message: 'Error updating category rule' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// DELETE /api/category-rules/:id - Delete a rule (transactions keep their categories)
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    await prisma.categoryRule.delete({
+      where: { id: id, userId: req.userId },
+    });
+    res.status(204).send(); // No content on successful deletion
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle case where the rule to delete doesn't exist
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Category rule with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    console.error(`Error deleting category rule ${id}:`, error);
+    res.status(500).json({ message: 'Error deleting category rule' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// GET /api/category-rules/:id/preview - Existing transactions the rule would recategorize
+// Query: includeCategorized=true also lists transactions that already have another category
+router.get('/:id/preview', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const includeCategorized = req.query.includeCategorized === 'true';
+  try {
+    const rule = await prisma.categoryRule.findUnique({
+      where: { id: id, userId: req.userId },
+    });
+    if (!rule) {
+      res.status(404).json({ message: `Category rule with ID ${id} not found.` });
+      return; // Explicitly return void
+    }
+    const transactions = await findRuleMatches(req.userId, rule, includeCategorized);
+    res.json({ count: transactions.length, transactions });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error previewing category rule ${id}:`, error);
+    res.status(500).json({ message: 'Error previewing category rule' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/category-rules/:id/apply - Recategorize the transactions listed by the preview
+// Body: { includeCategorized?: boolean }
+router.post('/:id/apply', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const includeCategorized = req.body?.includeCategorized === true;
+  try {
+    const rule = await prisma.categoryRule.findUnique({
+      where: { id: id, userId: req.userId },
+    });
+    if (!rule) {
+      res.status(404).json({ message: `Category rule with ID ${id} not found.` });
+      return; // Explicitly return void
+    }
+    const transactions = await findRuleMatches(req.userId, rule, includeCategorized);
+    const result = await prisma.transaction.updateMany({
+      where: { id: { in: transactions.map(transaction => transaction.id) }, userId: req.userId },
+      data: { categoryId: rule.categoryId },
+    });
+    res.json({ message: `Recategorized ${result.count} transactions`, count: result.count });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error applying category rule ${id}:`, error);
+    res.status(500).json({ message: 'Error applying category rule' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
@@ -0,0 +1,277 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+  parseCsv,
+  csvColumns,
+  mapCsvRows,
+  parseCsvProfileInput,
+  withMappingDefaults,
+  CsvMapping,
+  CSV_DELIMITERS,
+} from '../services/csvImport';
+import { prepareImportRows } from '../services/importDrafts';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// Bigger exports should be split; every row is checked against stored transactions
+const MAX_CSV_ROWS = 5000;
+
+// Relations returned with every profile
+const profileInclude = {
+  account: true,
+};
+
+// Returns an error message when the account isn't one of the user's
+async function findMissingAccount(userId: string, accountId: string | null | undefined): Promise<string | null> {
+  if (!accountId) return null;
+  const account = await prisma.account.findUnique({ where: { id: accountId, userId } });
+  return account ? null : `Account with ID ${accountId} not found`;
+}
+
+// POST /api/transactions/import/csv/columns - Read the columns of a CSV for the mapping step
+// Body: { csv: string, delimiter?: string, hasHeader?: boolean }
+router.post('/columns', async (req: Request, res: Response) => {
+  const { csv, delimiter = ',', hasHeader = true } = req.body ?? {};
+  if (typeof csv !== 'string' || !csv.trim()) {
+    res.status(400).json({ message: 'csv (the file contents) is required' });
+    return; // Explicitly return void
+  }
+  if (!(CSV_DELIMITERS as readonly unknown[]).includes(delimiter)) {
+    res.status(400).json({ message: 'Delimiter must be one of , ; | or a tab' });
+    return; // Explicitly return void
+  }
+
+  const rows = parseCsv(csv, delimiter);
+  const body = hasHeader !== false ? rows.slice(1) : rows;
+  res.json({
+    columns: csvColumns(rows, hasHeader !== false),
+    sample: body.slice(0, 5), // First rows, to show what each column holds
+    rowCount: body.length,
+  });
+  return; // Explicitly return void
+});
+
+// POST /api/transactions/import/csv - Import transactions from a bank's CSV export
+// Body: { csv: string, profileId?: string, ...mapping fields (when no profile), accountId?: string | null,
+//         dryRun?: boolean, includeDuplicates?: boolean }
+// With dryRun the mapped rows are returned as a preview and nothing is saved. Rows that look like
+// a stored transaction are skipped unless includeDuplicates is set.
+router.post('/', async (req: Request, res: Response) => {
+  const body = req.body ?? {};
+  const { csv, profileId } = body;
+  const dryRun = body.dryRun === true;
+  const includeDuplicates = body.includeDuplicates === true;
+  if (typeof csv !== 'string' || !csv.trim()) {
+    res.status(400).json({ message: 'csv (the file contents) is required' });
+    return; // Explicitly return void
+  }
+
+  try {
+    // The mapping comes from a saved profile, or from the request itself
+    let mapping: CsvMapping;
+    let accountId: string | null = null;
+    if (profileId) {
+      const profile = await prisma.csvImportProfile.findUnique({ where: { id: profileId, userId: req.userId } });
+      if (!profile) {
+        res.status(404).json({ message: `Import profile with ID ${profileId} not found` });
+        return; // Explicitly return void
+      }
+      mapping = profile;
+      accountId = profile.accountId;
+    } else {
+      const { data, error } = parseCsvProfileInput(body, false);
+      if (error) {
+        res.status(400).json({ message: error });
+        return; // Explicitly return void
+      }
+      mapping = withMappingDefaults(data);
+    }
+    if (body.accountId !== undefined) {
+      accountId = typeof body.accountId === 'string' && body.accountId ? body.accountId : null;
+    }
+    const missingAccount = await findMissingAccount(req.userId, accountId);
+    if (missingAccount) {
+      res.status(404).json({ message: missingAccount });
+      return; // Explicitly return void
+    }
+
+    const { rows, issues } = mapCsvRows(parseCsv(csv, mapping.delimiter), mapping);
+    if (issues.some(issue => issue.line === 0)) {
+      res.status(400).json({ message: 'The mapping does not match the file', errors: issues });
+      return; // Explicitly return void
+    }
+    if (rows.length > MAX_CSV_ROWS) {
+      res.status(400).json({ message: `The file has ${rows.length} rows; import at most ${MAX_CSV_ROWS} at a time` });
+      return; // Explicitly return void
+    }
+
+    // Same categorization and duplicate check as screenshot imports. A bank export never
+    // repeats a row, so rows are only compared with stored transactions.
+    const prepared = await prepareImportRows(prisma, req.userId, accountId, rows, null);
+    const preview = prepared.map(({ lineItems, reviewReason, ...row }, index) => ({
+      ...row,
+      line: rows[index].line,
+      willImport: includeDuplicates || row.duplicateReason === null,
+    }));
+    const toImport = preview.filter(row => row.willImport);
+    const invalidRows = new Set(issues.map(issue => issue.line)).size;
+    const summary = {
+      rows: rows.length + invalidRows,
+      valid: rows.length,
+      invalid: invalidRows,
+      duplicates: preview.filter(row => row.duplicateReason !== null).length,
+      toImport: toImport.length,
+    };
+
+    if (dryRun) {
+      res.json({ dryRun: true, summary, rows: preview, errors: issues.length > 0 ? issues : undefined });
+      return; // Explicitly return void
+    }
+
+    const result = await prisma.transaction.createMany({
+      data: toImport.map(row => ({
+        userId: req.userId,
+        merchant: row.merchant,
+        amountCents: row.amountCents,
+        direction: row.direction,
+        date: row.date,
+        description: row.description,
+        categoryId: row.categoryId,
+        accountId: row.accountId,
+      })),
+    });
+    res.status(201).json({
+      message: `Imported ${result.count} transactions`,
+      summary: { ...summary, imported: result.count },
+      errors: issues.length > 0 ? issues : undefined, // Rows that were left out, only if any
+    });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error importing CSV:', error);
+    res.status(500).json({ message: 'Error importing CSV' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// GET /api/transactions/import/csv/profiles - Get the saved mapping profiles, by name
+router.get('/profiles', async (req: Request, res: Response) => {
+  try {
+    const profiles = await prisma.csvImportProfile.findMany({
+      where: { userId: req.userId },
+      orderBy: { name: 'asc' },
+      include: profileInclude,
+    });
+    res.json(profiles);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error fetching import profiles:', error);
+    res.status(500).json({ message: 'Error fetching import profiles' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/transactions/import/csv/profiles - Save a mapping profile
+router.post('/profiles', async (req: Request, res: Response) => {
+  const body = req.body ?? {};
+  const { data, error } = parseCsvProfileInput(body, false);
+  if (error || !data.name) {
+    res.status(400).json({ message: error ?? 'Name is required' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const missingAccount = await findMissingAccount(req.userId, data.accountId);
+    if (missingAccount) {
+      res.status(404).json({ message: missingAccount });
+      return; // Explicitly return void
+    }
+    const newProfile = await prisma.csvImportProfile.create({
+      data: { ...withMappingDefaults(data), name: data.name, accountId: data.accountId ?? null, userId: req.userId },
+      include: profileInclude,
+    });
+    res.status(201).json(newProfile);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    if (error?.code === 'P2002') {
+      res.status(409).json({ message: `An import profile named "${data.name}" already exists.` });
+      return; // Explicitly return void
+    }
+    console.error('Error creating import profile:', error);
+    res.status(500).json({ message: 'Error creating import profile' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// PUT /api/transactions/import/csv/profiles/:id - Update a profile; any subset of its fields may be sent
+router.put('/profiles/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!req.body || Object.keys(req.body).length === 0) {
+    res.status(400).json({ message: 'No update data provided' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const existing = await prisma.csvImportProfile.findUnique({
+      where: { id: id, userId: req.userId },
+    });
+    if (!existing) {
+      res.status(404).json({ message: `Import profile with ID ${id} not found.` });
+      return; // Explicitly return void
+    }
+    const { data, error } = parseCsvProfileInput(req.body, true, existing);
+    if (error) {
+      res.status(400).json({ message: error });
+      return; // Explicitly return void
+    }
+    const missingAccount = await findMissingAccount(req.userId, data.accountId);
+    if (missingAccount) {
+      res.status(404).json({ message: missingAccount });
+      return; // Explicitly return void
+    }
+
+    const updatedProfile = await prisma.csvImportProfile.update({
+      where: { id: id, userId: req.userId },
+      data,
+      include: profileInclude,
+    });
+    res.json(updatedProfile);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    if (error?.code === 'P2002') {
+      res.status(409).json({ message: `An import profile named "${req.body.name}" already exists.` });
+      return; // Explicitly return void
+    }
+    // Handle case where the profile was deleted in the meantime
+    if (error?.code === 'P2025') {
+      res.status(404).json({ message: `Import profile with ID ${id} not found.` });
+      return; // Explicitly return void
+    }
+    console.error(`Error updating import profile ${id}:`, error);
+    res.status(500).json({ message: 'Error updating import profile' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// DELETE /api/transactions/import/csv/profiles/:id - Delete a profile
+router.delete('/profiles/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    await prisma.csvImportProfile.delete({
+      where: { id: id, userId: req.userId },
+    });
+    res.status(204).send(); // No content on successful deletion
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    if (error?.code === 'P2025') {
+      res.status(404).json({ message: `Import profile with ID ${id} not found.` });
+      return; // Explicitly return void
+    }
+    console.error(`Error deleting import profile ${id}:`, error);
+    res.status(500).json({ message: 'Error deleting import profile' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
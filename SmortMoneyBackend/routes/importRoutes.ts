@@ -0,0 +1,372 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import multer from 'multer';
+import fs from 'fs';
+import { extractTransactions, ExtractionContext } from '../services/extractionProvider';
+import { extractStatement, PDF_MIME_TYPE, StatementReadError, StatementExtractionResult } from '../services/statementExtraction';
+import { buildDrafts, commitDrafts, isDraftStatus, DraftStatus } from '../services/importDrafts';
+import { parseTransactionFieldUpdates } from '../services/transactionFields';
+import { learnMerchantCategory } from '../services/merchantMappings';
+import { receiptDiskStorage, removeReceiptFile, deleteOrphanReceipts } from '../services/receiptStorage';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// Configure multer for file uploads; screenshots and statements are kept on disk as receipts
+const upload = multer({
+  storage: receiptDiskStorage,
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB max file size (adjust as needed)
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => { // Use Request type
+    // Accept images, and PDF bank statements
+    if (file.mimetype.startsWith('image/') || file.mimetype === PDF_MIME_TYPE) {
+      cb(null, true);
+    } else {
+      // Reject file
+      cb(new Error('Only image files or PDF statements are allowed!'));
+    }
+  }
+});
+
+// Relations returned with every batch
+const batchInclude = {
+  account: true,
+  drafts: {
+    orderBy: [{ imageIndex: 'asc' }, { createdAt: 'asc' }],
+    include: { category: true, account: true, duplicateOf: true, lineItems: { orderBy: { position: 'asc' } } },
+  },
+} satisfies Prisma.ImportBatchInclude;
+
+// Loads a draft of one of the user's batches, with the batch for status checks
+function findDraft(userId: string, batchId: string, draftId: string) {
+  return prisma.importDraft.findFirst({
+    where: { id: draftId, batchId, batch: { userId } },
+    include: { batch: true },
+  });
+}
+
+// Sets the review status of a single draft (accept/reject endpoints)
+async function setDraftStatus(req: Request, res: Response, status: DraftStatus) {
+  const { id, draftId } = req.params;
+  try {
+    const draft = await findDraft(req.userId, id, draftId);
+    if (!draft) {
+      res.status(404).json({ message: `Draft with ID ${draftId} not found` });
+      return; // Explicitly return void
+    }
+    if (draft.batch.status !== 'pending') {
+      res.status(409).json({ message: 'This import has already been committed' });
+      return; // Explicitly return void
+    }
+    const updatedDraft = await prisma.importDraft.update({
+      where: { id: draftId },
+      data: { status },
+      include: batchInclude.drafts.include,
+    });
+    res.json(updatedDraft);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error updating draft ${draftId}:`, error);
+    res.status(500).json({ message: 'Error updating draft' });
+    return; // Explicitly return void from catch
+  }
+}
+
+// POST /api/imports - Upload a screenshot or PDF statement and extract its transactions as drafts
+// Form fields: screenshot (file), accountId (optional), batchId (optional, adds to an open batch)
+// A PDF counts as one image of the batch; its pages are extracted one by one and reconciled
+router.post('/', upload.single('screenshot'), async (req: Request, res: Response) => {
+  const file = req.file;
+  if (!file) {
+    res.status(400).json({ message: 'Please upload a receipt' });
+    return; // Explicitly return void
+  }
+  const batchId: string | null = req.body?.batchId || null;
+  const accountId: string | null = req.body?.accountId || null;
+  // The stored file is only kept once drafts refer to it
+  let keepFile = false;
+
+  try {
+    // Check the batch and account before spending an extraction call on the image
+    let batch = batchId
+      ? await prisma.importBatch.findUnique({ where: { id: batchId, userId: req.userId } })
+      : null;
+    if (batchId && !batch) {
+      res.status(404).json({ message: `Import with ID ${batchId} not found` });
+      return; // Explicitly return void
+    }
+    if (batch && batch.status !== 'pending') {
+      res.status(409).json({ message: 'This import has already been committed' });
+      return; // Explicitly return void
+    }
+    if (accountId) {
+      const accountExists = await prisma.account.findUnique({ where: { id: accountId, userId: req.userId } });
+      if (!accountExists) {
+        res.status(404).json({ message: `Account with ID ${accountId} not found` });
+        return; // Explicitly return void
+      }
+    }
+
+    console.log('Analyzing receipt...', file.originalname, file.mimetype, file.size);
+    const imageBuffer = await fs.promises.readFile(file.path);
+    // Extraction may only suggest the user's own categories, read fresh for every upload
+    const categories = await prisma.category.findMany({
+      where: { userId: req.userId },
+      select: { name: true, description: true, keywords: true },
+      orderBy: { name: 'asc' },
+    });
+    const context: ExtractionContext = { uploadedAt: new Date(), categories };
+    let statement: StatementExtractionResult | null = null;
+    if (file.mimetype === PDF_MIME_TYPE) {
+      // A card statement's balance is the amount owed, so it's reconciled the other way round
+      const statementAccountId = accountId ?? batch?.accountId;
+      const statementAccount = statementAccountId
+        ? await prisma.account.findUnique({ where: { id: statementAccountId, userId: req.userId }, select: { type: true } })
+        : null;
+      statement = await extractStatement(imageBuffer, context, statementAccount?.type === 'credit' ? 'credit' : 'asset');
+    }
+    const { transactions: extracted, issues } = statement ?? await extractTransactions(imageBuffer, file.mimetype, context);
+    if (extracted.length === 0) {
+      res.status(422).json({
+        message: `Could not extract any transaction data from the uploaded ${statement ? 'statement' : 'receipt'}`,
+        errors: issues.length > 0 ? issues : undefined, // Why rows were left out, if any were found
+      });
+      return; // Explicitly return void
+    }
+
+    if (!batch) {
+      batch = await prisma.importBatch.create({ data: { userId: req.userId, accountId } });
+    }
+    const imageIndex = batch.imageCount;
+    // Earlier screenshots of the batch count when looking for repeated rows
+    const earlierRows = await prisma.importDraft.findMany({ where: { batchId: batch.id } });
+    const drafts = await buildDrafts(
+      prisma,
+      req.userId,
+      { id: batch.id, accountId: accountId ?? batch.accountId },
+      imageIndex,
+      extracted,
+      earlierRows
+    );
+
+    const updatedBatch = await prisma.$transaction(async (tx) => {
+      const receipt = await tx.receipt.create({
+        data: {
+          userId: req.userId,
+          fileName: file.filename,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        },
+      });
+      // One create per draft, createMany can't nest the line items
+      for (const draft of drafts) {
+        await tx.importDraft.create({ data: { ...draft, receiptId: receipt.id } });
+      }
+      return tx.importBatch.update({
+        where: { id: batch.id },
+        data: { imageCount: { increment: 1 } },
+        include: batchInclude,
+      });
+    });
+    keepFile = true;
+    res.status(201).json({
+      message: `Extracted ${drafts.length} draft transactions from image ${imageIndex + 1}`,
+      batch: updatedBatch,
+      imageIndex,
+      errors: issues.length > 0 ? issues : undefined, // Per-row validation problems, only if any
+      // For statements: the page count, and how the rows compare with the printed balances
+      statement: statement ? { pageCount: statement.pageCount, reconciliation: statement.reconciliation } : undefined,
+    });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Receipt analysis error:', error);
+    if (error instanceof multer.MulterError) {
+      res.status(400).json({ message: `File upload error: ${error.message}` });
+      return; // Explicitly return void
+    }
+    if (error instanceof StatementReadError) {
+      res.status(400).json({ message: error.message });
+      return; // Explicitly return void
+    }
+    // Don't expose internal details to the client
+    res.status(500).json({ message: 'Server error processing receipt' });
+    return; // Explicitly return void from catch
+  } finally {
+    if (!keepFile) await removeReceiptFile(file.filename);
+  }
+});
+
+// GET /api/imports - Get the imports still waiting for review, newest first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const batches = await prisma.importBatch.findMany({
+      where: { userId: req.userId, status: 'pending' },
+      orderBy: { createdAt: 'desc' },
+      include: { account: true, _count: { select: { drafts: true } } },
+    });
+    res.json(batches);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error fetching imports:', error);
+    res.status(500).json({ message: 'Error fetching imports' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// GET /api/imports/:id - Get an import with its drafts
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const batch = await prisma.importBatch.findUnique({
+      where: { id: id, userId: req.userId },
+      include: batchInclude,
+    });
+    if (!batch) {
+      res.status(404).json({ message: 'Import not found' });
+      return; // Explicitly return void
+    }
+    res.json(batch);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error fetching import ${id}:`, error);
+    res.status(500).json({ message: 'Error fetching import' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// PATCH /api/imports/:id/drafts/:draftId - Edit a draft before it is saved
+// Accepts merchant, amount, direction, date, categoryId, accountId, description, needsReview and status
+router.patch('/:id/drafts/:draftId', async (req: Request, res: Response) => {
+  const { id, draftId } = req.params;
+  const body = req.body ?? {};
+  const { data: fields, fieldErrors } = parseTransactionFieldUpdates(body);
+  const updateData: Prisma.ImportDraftUncheckedUpdateInput = { ...fields };
+  if (body.status !== undefined) {
+    if (!isDraftStatus(body.status)) {
+      fieldErrors.push({ field: 'status', message: 'Status must be one of pending, accepted or rejected' });
+    } else {
+      updateData.status = body.status;
+    }
+  }
+
+  if (fieldErrors.length > 0) {
+    res.status(400).json({ message: 'Invalid draft fields', errors: fieldErrors });
+    return; // Explicitly return void
+  }
+  if (Object.keys(updateData).length === 0) {
+    res.status(400).json({ message: 'No update data provided (merchant, amount, direction, date, categoryId, accountId, description, needsReview or status required)' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const draft = await findDraft(req.userId, id, draftId);
+    if (!draft) {
+      res.status(404).json({ message: `Draft with ID ${draftId} not found` });
+      return; // Explicitly return void
+    }
+    if (draft.batch.status !== 'pending') {
+      res.status(409).json({ message: 'This import has already been committed' });
+      return; // Explicitly return void
+    }
+    // Verify category and account exist if being assigned
+    if (fields.categoryId) {
+      const categoryExists = await prisma.category.findUnique({ where: { id: fields.categoryId, userId: req.userId } });
+      if (!categoryExists) {
+        res.status(404).json({ message: `Category with ID ${fields.categoryId} not found` });
+        return; // Explicitly return void
+      }
+    }
+    if (fields.accountId) {
+      const accountExists = await prisma.account.findUnique({ where: { id: fields.accountId, userId: req.userId } });
+      if (!accountExists) {
+        res.status(404).json({ message: `Account with ID ${fields.accountId} not found` });
+        return; // Explicitly return void
+      }
+    }
+
+    const updatedDraft = await prisma.$transaction(async (tx) => {
+      const updated = await tx.importDraft.update({
+        where: { id: draftId },
+        data: updateData,
+        include: batchInclude.drafts.include,
+      });
+      // Fixing the suggested category is a correction worth remembering for the merchant
+      await learnMerchantCategory(tx, req.userId, draft.categoryId, { ...updated, transferId: null, splits: [] });
+      return updated;
+    });
+    res.json(updatedDraft);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error updating draft ${draftId}:`, error);
+    res.status(500).json({ message: 'Error updating draft' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/imports/:id/drafts/:draftId/accept - Keep a draft (e.g. a flagged duplicate)
+router.post('/:id/drafts/:draftId/accept', (req: Request, res: Response) => setDraftStatus(req, res, 'accepted'));
+
+// POST /api/imports/:id/drafts/:draftId/reject - Leave a draft out of the commit
+router.post('/:id/drafts/:draftId/reject', (req: Request, res: Response) => setDraftStatus(req, res, 'rejected'));
+
+// POST /api/imports/:id/commit - Save every draft that isn't rejected as a transaction
+router.post('/:id/commit', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const batch = await prisma.importBatch.findUnique({
+      where: { id: id, userId: req.userId },
+      include: { drafts: { orderBy: [{ imageIndex: 'asc' }, { createdAt: 'asc' }] } },
+    });
+    if (!batch) {
+      res.status(404).json({ message: 'Import not found' });
+      return; // Explicitly return void
+    }
+    if (batch.status !== 'pending') {
+      res.status(409).json({ message: 'This import has already been committed' });
+      return; // Explicitly return void
+    }
+
+    // commitDrafts claims the batch again inside the transaction, for commits racing this one
+    const savedTransactions = await prisma.$transaction(tx => commitDrafts(tx, req.userId, batch));
+
+    res.json({
+      message: `Saved ${savedTransactions.length} transactions, skipped ${batch.drafts.length - savedTransactions.length} rejected drafts`,
+      transactions: savedTransactions,
+    });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    if (error?.code === 'P2025') { // Committed by another request in the meantime
+      res.status(409).json({ message: 'This import has already been committed' });
+      return; // Explicitly return void
+    }
+    console.error(`Error committing import ${id}:`, error);
+    res.status(500).json({ message: 'Error committing import' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// DELETE /api/imports/:id - Discard an import and its drafts (saved transactions are kept)
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    await prisma.importBatch.delete({
+      where: { id: id, userId: req.userId },
+    });
+    // Screenshots only the discarded drafts referred to go too
+    await deleteOrphanReceipts(prisma, req.userId);
+    res.status(204).send(); // No content on successful deletion
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle case where the import to delete doesn't exist
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Import with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    console.error(`Error deleting import ${id}:`, error);
+    res.status(500).json({ message: 'Error deleting import' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
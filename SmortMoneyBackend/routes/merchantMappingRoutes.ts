@@ -0,0 +1,46 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// GET /api/merchant-mappings - Get the merchant categories learned from the user's corrections
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const mappings = await prisma.merchantCategoryMapping.findMany({
+      where: { userId: req.userId },
+      orderBy: { merchant: 'asc' },
+      include: { category: true },
+    });
+    res.json(mappings);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error fetching merchant mappings:', error);
+    res.status(500).json({ message: 'Error fetching merchant mappings' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// DELETE /api/merchant-mappings/:id - Forget a learned mapping (Gemini's suggestion applies again)
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    await prisma.merchantCategoryMapping.delete({
+      where: { id: id, userId: req.userId },
+    });
+    res.status(204).send(); // No content on successful deletion
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle case where the mapping to delete doesn't exist
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Merchant mapping with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    console.error(`Error deleting merchant mapping ${id}:`, error);
+    res.status(500).json({ message: 'Error deleting merchant mapping' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
@@ -0,0 +1,175 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { parseOfx, OfxParseError, OfxLedgerBalance } from '../services/ofxImport';
+import { prepareImportRows } from '../services/importDrafts';
+import { accountBalanceEffect } from '../services/transferService';
+import { signedAmount } from '../services/transactionDirection';
+import { toCents } from '../services/money';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// Same limit as CSV imports; every new row is checked against stored transactions
+const MAX_OFX_ROWS = 5000;
+
+// Returns an error message when the account isn't one of the user's
+async function findMissingAccount(userId: string, accountId: string | null): Promise<string | null> {
+  if (!accountId) return null;
+  const account = await prisma.account.findUnique({ where: { id: accountId, userId } });
+  return account ? null : `Account with ID ${accountId} not found`;
+}
+
+// Balance of the account at the end of the given day in cents, from its opening balance and recorded transactions
+async function accountBalanceOn(accountId: string, day: string): Promise<number> {
+  const account = await prisma.account.findUniqueOrThrow({ where: { id: accountId } });
+  const endOfDay = new Date(day);
+  endOfDay.setUTCDate(endOfDay.getUTCDate() + 1);
+  const transactions = await prisma.transaction.findMany({
+    where: { accountId, date: { lt: endOfDay } },
+    include: { transfer: { select: { fromAccountId: true } } },
+  });
+  return transactions.reduce((balance, transaction) => balance + accountBalanceEffect(transaction), account.openingBalanceCents);
+}
+
+// Compares the bank's ledger balance with the balance computed from the account's transactions (in cents)
+function reconcileLedger(ledger: OfxLedgerBalance, balanceCents: number) {
+  const ledgerBalanceCents = toCents(ledger.amount);
+  const differenceCents = ledgerBalanceCents - balanceCents;
+  return { ledgerBalanceCents, asOf: ledger.asOf, balanceCents, differenceCents, balanced: differenceCents === 0 };
+}
+
+// POST /api/transactions/import/ofx - Import an OFX/QFX statement download
+// Body: { ofx: string, accountId?: string | null, dryRun?: boolean, includeDuplicates?: boolean }
+// Rows whose FITID is already stored for the account are skipped, so the same statement can be
+// imported again safely. Rows with a new FITID are only compared with stored transactions that
+// didn't come from a statement; one that looks like such a row (e.g. entered from a screenshot)
+// is skipped unless includeDuplicates is set. With dryRun nothing is saved.
+router.post('/', async (req: Request, res: Response) => {
+  const body = req.body ?? {};
+  const { ofx } = body;
+  const accountId: string | null = typeof body.accountId === 'string' && body.accountId ? body.accountId : null;
+  const dryRun = body.dryRun === true;
+  const includeDuplicates = body.includeDuplicates === true;
+  if (typeof ofx !== 'string' || !ofx.trim()) {
+    res.status(400).json({ message: 'ofx (the file contents) is required' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const statements = parseOfx(ofx);
+    if (statements.length === 0) {
+      res.status(400).json({ message: 'The file has no bank or credit card statement' });
+      return; // Explicitly return void
+    }
+    if (statements.length > 1) {
+      res.status(400).json({ message: `The file has ${statements.length} account statements; download one account at a time` });
+      return; // Explicitly return void
+    }
+    const [statement] = statements;
+    if (statement.transactions.length > MAX_OFX_ROWS) {
+      res.status(400).json({ message: `The statement has ${statement.transactions.length} rows; import at most ${MAX_OFX_ROWS} at a time` });
+      return; // Explicitly return void
+    }
+
+    const missingAccount = await findMissingAccount(req.userId, accountId);
+    if (missingAccount) {
+      res.status(404).json({ message: missingAccount });
+      return; // Explicitly return void
+    }
+
+    // FITIDs are only unique per bank account, so the check is limited to the target account
+    const imported = await prisma.transaction.findMany({
+      where: { userId: req.userId, accountId, fitId: { in: statement.transactions.map(row => row.fitId) } },
+      select: { fitId: true },
+    });
+    const importedFitIds = new Set(imported.map(transaction => transaction.fitId));
+    const newRows = statement.transactions.filter(row => !importedFitIds.has(row.fitId));
+
+    // Same categorization and duplicate check as the other imports; statement rows are never
+    // repeated, so they're only compared with stored transactions (see findExistingDuplicate)
+    const prepared = await prepareImportRows(prisma, req.userId, accountId, newRows, null);
+    const preview = prepared.map(({ lineItems, reviewReason, ...row }, index) => ({
+      ...row,
+      fitId: newRows[index].fitId,
+      willImport: includeDuplicates || row.duplicateReason === null,
+    }));
+    const toImport = preview.filter(row => row.willImport);
+    const invalidRows = new Set(statement.issues.map(issue => issue.index)).size;
+    const summary = {
+      rows: statement.transactions.length + invalidRows,
+      valid: statement.transactions.length,
+      invalid: invalidRows,
+      alreadyImported: statement.transactions.length - newRows.length,
+      duplicates: preview.filter(row => row.duplicateReason !== null).length,
+      toImport: toImport.length,
+    };
+    const statementInfo = {
+      accountNumber: statement.accountNumber ? `…${statement.accountNumber.slice(-4)}` : null, // Masked
+      currency: statement.currency,
+    };
+
+    if (dryRun) {
+      // Checked against the balance the account would have once the new rows are in
+      let reconciliation = null;
+      if (statement.ledgerBalance && accountId) {
+        const { asOf } = statement.ledgerBalance;
+        const pendingEffect = toImport
+          .filter(row => row.date.toISOString().slice(0, 10) <= asOf)
+          .reduce((sum, row) => sum + signedAmount(row.amountCents, row.direction), 0);
+        reconciliation = reconcileLedger(statement.ledgerBalance, (await accountBalanceOn(accountId, asOf)) + pendingEffect);
+      }
+      res.json({
+        dryRun: true,
+        summary,
+        statement: { ...statementInfo, ledgerBalance: statement.ledgerBalance, reconciliation },
+        rows: preview,
+        errors: statement.issues.length > 0 ? statement.issues : undefined,
+      });
+      return; // Explicitly return void
+    }
+
+    const result = await prisma.transaction.createMany({
+      data: toImport.map(row => ({
+        userId: req.userId,
+        merchant: row.merchant,
+        amountCents: row.amountCents,
+        direction: row.direction,
+        date: row.date,
+        description: row.description,
+        categoryId: row.categoryId,
+        accountId: row.accountId,
+        fitId: row.fitId,
+      })),
+    });
+
+    // Keep the bank's latest ledger balance on the account; an older statement doesn't replace it
+    let reconciliation = null;
+    if (statement.ledgerBalance && accountId) {
+      const asOf = new Date(statement.ledgerBalance.asOf);
+      await prisma.account.updateMany({
+        where: { id: accountId, OR: [{ ledgerBalanceDate: null }, { ledgerBalanceDate: { lte: asOf } }] },
+        data: { ledgerBalanceCents: toCents(statement.ledgerBalance.amount), ledgerBalanceDate: asOf },
+      });
+      reconciliation = reconcileLedger(statement.ledgerBalance, await accountBalanceOn(accountId, statement.ledgerBalance.asOf));
+    }
+
+    res.status(201).json({
+      message: `Imported ${result.count} transactions`,
+      summary: { ...summary, imported: result.count },
+      statement: { ...statementInfo, ledgerBalance: statement.ledgerBalance, reconciliation },
+      errors: statement.issues.length > 0 ? statement.issues : undefined, // Rows that were left out, only if any
+    });
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    if (error instanceof OfxParseError) {
+      res.status(400).json({ message: error.message });
+      return; // Explicitly return void
+    }
+    console.error('Error importing OFX statement:', error);
+    res.status(500).json({ message: 'Error importing OFX statement' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
@@ -0,0 +1,38 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import { receiptFilePath } from '../services/receiptStorage';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// GET /api/receipts/:id - Get the stored image of a receipt
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: id, userId: req.userId },
+    });
+    if (!receipt) {
+      res.status(404).json({ message: 'Receipt not found' });
+      return; // Explicitly return void
+    }
+    const filePath = receiptFilePath(receipt.fileName);
+    if (!fs.existsSync(filePath)) {
+      console.error(`Receipt ${id} is missing its file ${receipt.fileName}`);
+      res.status(404).json({ message: 'Receipt image not found' });
+      return; // Explicitly return void
+    }
+    res.type(receipt.mimeType);
+    res.set('Cache-Control', 'private, max-age=86400'); // Stored receipts never change
+    res.sendFile(filePath);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error fetching receipt ${id}:`, error);
+    res.status(500).json({ message: 'Error fetching receipt' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
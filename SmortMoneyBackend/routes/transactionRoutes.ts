@@ -1,166 +1,199 @@
-import { Router, Request, Response, NextFunction } from 'express'; // Import Request, Response, NextFunction
+import { Router, Request, Response } from 'express'; // Import Request, Response
 import { PrismaClient, Prisma } from '@prisma/client'; // Import Prisma for types if needed
-import multer from 'multer';
-// Correct the import name based on geminiService.ts
-import { analyzeTransactionImage } from '../services/geminiService';
+import { parseTransactionFilters, parsePageParams } from '../services/transactionQuery';
+import { isTransactionDirection, signedAmount } from '../services/transactionDirection';
+import { syncTransferFields } from '../services/transferService';
+import { resolveSplitUpdate, groupSplitLines, SplitInput } from '../services/transactionSplits';
+import { parseTransactionFieldUpdates } from '../services/transactionFields';
+import { findMatchingRule, loadActiveRules } from '../services/categoryRules';
+import { learnMerchantCategory } from '../services/merchantMappings';
+import { deleteOrphanReceipts } from '../services/receiptStorage';
+import { toExportTransaction, toCsv, toQif, isExportFormat, EXPORT_FORMATS, EXPORT_CONTENT_TYPES } from '../services/transactionExport';
+import { toCents } from '../services/money';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// Define the structure for summary results explicitly if needed elsewhere
-// Or rely on inference within the function
+// One row of the monthly summary; categoryId is null for the uncategorized bucket.
+// Amounts are in cents and go out as decimal totalSpent/total (see middleware/decimalMoney).
 interface CategorySpendSummary {
   categoryId: string | null;
-  categoryName: string | undefined;
+  categoryName: string;
   categoryIcon: string | undefined; // Allow undefined
-  totalSpent: number;
+  totalSpentCents: number; // Expenses in the category, as a positive number
+  totalCents: number; // Income minus expenses in the category
+  transactionCount: number; // A split transaction counts in each category it touches
 }
 
-// Configure multer for file uploads
-const storage = multer.memoryStorage();
-const upload = multer({
-  storage: storage,
-  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB max file size (adjust as needed)
-  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => { // Use Request type
-    // Accept only images
-    if (file.mimetype.startsWith('image/')) {
-      cb(null, true);
-    } else {
-      // Reject file
-      cb(new Error('Only image files are allowed for receipts!'));
-    }
-  }
-});
+// Period-wide totals returned alongside the per-category rows, in cents like the rows
+interface PeriodTotals {
+  incomeCents: number;
+  expensesCents: number;
+  netCents: number;
+  transfersCents: number; // Money moved between accounts; not part of income, expenses or net
+  transactionCount: number;
+}
 
-// Upload and analyze receipt image
-// POST /api/transactions/upload - Upload and analyze a transaction receipt
-router.post('/upload', upload.single('screenshot'), async (req: Request, res: Response, next: NextFunction) => { // Use imported types
-  // Log received request
-  console.log('Processing upload request');
-  console.log('Headers:', JSON.stringify(req.headers, null, 2));
-  // Multer adds the file info to the request object
-  console.log('File info', req.file); // Type inference should work now
-  console.log('Body info', req.body); // Any other form fields
-  console.log('Analyzing receipt...');
-  // Process the upload
+// Legs of a linked transfer keep their direction and account; those are changed through /api/transfers
+function transferLegChangeError(leg: { accountId: string | null }, direction: unknown, accountId: unknown): string | null {
+  if (direction !== undefined && direction !== 'transfer') {
+    return 'Transfer legs cannot change direction; delete the transfer instead';
+  }
+  if (accountId !== undefined && (accountId || null) !== leg.accountId) {
+    return 'Transfer accounts are changed through /api/transfers';
+  }
+  return null;
+}
 
-  try {
-    // Check if file was provided
-    const file = req.file; // Use inferred type
-    if (!file) {
-      console.error('No file uploaded or file invalid');
-      res.status(400).send({ message: 'Please upload a receipt' });
-      return; // Early return on error
-    }
+// Returns the first category referenced by split lines that does not exist (for this user), if any
+async function findMissingSplitCategory(userId: string, splits: SplitInput[]): Promise<string | null> {
+  const ids = [...new Set(splits.map(split => split.categoryId).filter((id): id is string => id !== null))];
+  if (ids.length === 0) return null;
+  const found = await prisma.category.findMany({ where: { id: { in: ids }, userId }, select: { id: true } });
+  const foundIds = new Set(found.map(category => category.id));
+  return ids.find(id => !foundIds.has(id)) ?? null;
+}
 
-    console.log('File received:', file.originalname, file.mimetype, file.size);
+// Create a transaction manually - POST /api/transactions
+// Used for cash purchases and receipts the scanner could not read
+router.post('/', async (req: Request, res: Response) => {
+  // Extract fields from request body
+  const { merchant, amount, date, categoryId, accountId, description, direction } = req.body;
 
-    // Send to Google Gemini Vision for analysis
-    // This might return an array of potential transactions based on the image
-    const extractedFields = await analyzeTransactionImage(file.buffer, file.mimetype); // Use correct function name
+  // Basic request validation
+  if (!merchant || typeof merchant !== 'string' || !merchant.trim() || amount === undefined || amount === null || amount === '' || !date) {
+    res.status(400).json({ message: 'Merchant, amount, and date are required fields' });
+    return; // Explicit return for clarity
+  }
+  const amountNum = parseFloat(amount);
+  if (isNaN(amountNum)) {
+    res.status(400).json({ message: 'Amount must be a number' });
+    return; // Explicit return for clarity
+  }
+  const amountCents = toCents(Math.abs(amountNum)); // Stored as a positive magnitude
+  const dateValue = new Date(date);
+  if (isNaN(dateValue.getTime())) {
+    res.status(400).json({ message: 'Invalid date format' });
+    return; // Explicit return for clarity
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    res.status(400).json({ message: 'Description must be a string' });
+    return; // Explicit return for clarity
+  }
+  if (direction !== undefined && !isTransactionDirection(direction)) {
+    res.status(400).json({ message: 'Direction must be one of expense, income or transfer' });
+    return; // Explicit return for clarity
+  }
+  // Optional split lines, which must add up to the amount
+  const splitUpdate = resolveSplitUpdate(req.body.splits, [], amountCents, direction ?? 'expense');
+  if (splitUpdate.error) {
+    res.status(400).json({ message: splitUpdate.error });
+    return; // Explicit return for clarity
+  }
 
-    // Validate extraction results
-    if (!Array.isArray(extractedFields) || extractedFields.length === 0) {
-      throw new Error('Could not extract any transaction data from the uploaded receipt');
+  try {
+    const missingSplitCategory = await findMissingSplitCategory(req.userId, splitUpdate.splits);
+    if (missingSplitCategory) {
+      res.status(404).json({ message: `Category with ID ${missingSplitCategory} not found` });
+      return; // Explicit return for clarity
     }
-
-    const savedTransactions = []; // Array to store
-    const errors: { message: string, data?: any }[] = []; // Store any errors
-
-    // Process each extracted transaction
-    for (const extractedField of extractedFields) {
-      try {
-        // Basic validation for required transaction fields
-        if (!extractedField || !extractedField.merchant || !extractedField.amount || !extractedField.date) {
-          console.warn('Skipping invalid transaction from extraction:', extractedField);
-          errors.push({ message: 'Transaction missing required fields (merchant/amount/date)', data: extractedField });
-          continue; // Skip to next extraction
-        }
-
-        // Check if category exists first
-        let category: any | null = null; // Should be a Category type
-        if (extractedField.category) {
-          // Simplified findFirst - just need the ID if it exists
-          // Ensure correct syntax for case-insensitive search
-          category = await prisma.category.findFirst({
-            where: {
-              name: {
-                equals: extractedField.category // Removed mode: 'insensitive' for now
-              }
-            },
-            select: { id: true } // Only select the ID
-          });
-        }
-
-        // Validate amount is numeric before saving to database
-        // This should be handled by Prisma schema, but let's be safe
-        if (typeof extractedField.amount !== 'number') {
-            console.warn('Amount is not a number, cannot save transaction:', extractedField);
-            errors.push({ message: 'Transaction amount must be a number value', data: extractedField });
-            continue;
-        }
-        const newTransaction = await prisma.transaction.create({
-          data: {
-            merchant: extractedField.merchant,
-            amount: extractedField.amount, // This should be a number
-            date: new Date(extractedField.date), // Convert string date to Date object
-            categoryId: category ? category.id : null, // Link to category if found
-            // description: We could add additional fields as needed
-          }
-        });
-        savedTransactions.push(newTransaction);
-        console.log('Saved transaction:', newTransaction);
-
-      } catch (innerError: any) { // Keep 'any' for now, consider 'unknown' later
-          console.error(`Error saving extracted transaction ${JSON.stringify(extractedField)}:`, innerError);
-          // Remove invalid 'error' property
-          errors.push({ message: `Failed to save transaction ${extractedField.merchant}: ${innerError?.message}` }); // Store error info
+    // Verify category exists if provided (to avoid foreign key constraint errors)
+    if (categoryId) {
+      const categoryExists = await prisma.category.findUnique({
+        where: { id: categoryId, userId: req.userId }
+      });
+      if (!categoryExists) {
+        res.status(404).json({ message: `Category with ID ${categoryId} not found` });
+        return; // Explicit return for clarity
       }
     }
-
-    // Return success with saved transactions
-    if (savedTransactions.length > 0) {
-        res.status(201).json({
-          message: `Processed ${extractedFields.length} potential transactions, successfully saved ${savedTransactions.length}`,
-          transactions: savedTransactions,
-          errors: errors.length > 0 ? errors : undefined, // Only include errors if any
-        });
-        return; // Early return on success
-    } else {
-        // If we couldn't save any transactions but tried to extract some, report error
-        // with details about what went wrong for each extraction
-        throw new Error(`Failed to save any transactions. ${errors.length} errors occurred.`);
+    // Same for the account
+    if (accountId) {
+      const accountExists = await prisma.account.findUnique({
+        where: { id: accountId, userId: req.userId }
+      });
+      if (!accountExists) {
+        res.status(404).json({ message: `Account with ID ${accountId} not found` });
+        return; // Explicit return for clarity
+      }
     }
 
-  } catch (error: any) { // Need to type this
-    console.error('Receipt analysis error:', error);
-    // Handle specific error types with appropriate status codes
-    if (error instanceof multer.MulterError) {
-        res.status(400).json({ message: `File upload error: ${error.message}` });
-        return; // Early return on error
-    } else if (error?.message?.startsWith('Invalid file')) { // File-related errors
-        res.status(400).json({ message: error.message });
-        return; // Early return on error
+    // Fall back to the user's categorization rules when no category was chosen
+    let resolvedCategoryId: string | null = categoryId || null;
+    if (!resolvedCategoryId && splitUpdate.splits.length === 0) {
+      const matchingRule = findMatchingRule(await loadActiveRules(prisma, req.userId), {
+        merchant: merchant.trim(),
+        amountCents,
+        accountId: accountId || null,
+      });
+      resolvedCategoryId = matchingRule ? matchingRule.categoryId : null;
     }
-    // Catch-all for other server errors - don't expose internal details to client
-    // but log them on the server side
-    res.status(500).json({ message: 'Server error processing receipt' });
+
+    const newTransaction = await prisma.transaction.create({
+      data: {
+        userId: req.userId,
+        merchant: merchant.trim(),
+        amountCents,
+        direction: direction ?? 'expense', // Manual entries are usually purchases
+        date: dateValue,
+        categoryId: resolvedCategoryId, // Leave uncategorized if not provided and no rule matched
+        accountId: accountId || null,
+        description: description ? description.trim() : null,
+        splits: splitUpdate.splits.length > 0 ? { create: splitUpdate.splits } : undefined,
+      },
+      include: {
+        category: true,
+        account: true,
+        splits: { include: { category: true } },
+      }
+    });
+
+    console.log('Created TX:', newTransaction.id);
+    res.status(201).json(newTransaction);
+    return; // Explicit return for clarity
+
+  } catch (error: any) {
+    console.error('Error creating transaction:', error);
+    res.status(500).json({ message: 'Failed to create transaction' });
     return; // Explicit return for clarity
   }
 });
 
-// GET all transactions - GET /api/transactions - Returns all transactions
+// List transactions - GET /api/transactions
+// Supports filtering (startDate, endDate, categoryId, accountId, minAmount, maxAmount, direction, merchant, needsReview),
+// sorting (sortBy, sortOrder) and cursor pagination (limit, cursor)
 router.get('/', async (req: Request, res: Response) => { // Use imported types
+  const query = req.query as Record<string, string | string[] | undefined>;
+  const { where, orderBy, errors } = parseTransactionFilters(query);
+  const { take, cursor } = parsePageParams(query, errors);
+
+  if (errors.length > 0) {
+    res.status(400).json({ message: errors.join('; ') });
+    return; // Explicit return for clarity
+  }
+
   try {
+    // Fetch one extra row to know whether another page exists
     const transactions = await prisma.transaction.findMany({
-      orderBy: {
-        date: 'desc', // Most recent transactions first
-      },
+      where: { ...where, userId: req.userId },
+      orderBy,
+      take: take + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}), // Skip the cursor row itself
       include: {
         category: true, // Include related category data
+        account: true, // And the account it belongs to
+        transfer: true, // And the transfer it is a leg of, if any
+        splits: { include: { category: true } }, // And the split lines, if any
+        lineItems: { orderBy: { position: 'asc' } }, // And the receipt's itemized lines, if any
       }
     });
-    res.json(transactions);
+
+    const hasMore = transactions.length > take;
+    const page = hasMore ? transactions.slice(0, take) : transactions;
+    res.json({
+      transactions: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
     return; // Explicit return for clarity
   } catch (error: any) {
     console.error('Error fetching transactions:', error);
@@ -169,12 +202,63 @@ router.get('/', async (req: Request, res: Response) => { // Use imported types
   }
 });
 
+// Export transactions as a file - GET /api/transactions/export?format=csv|json|qif
+// Takes the same filters and sort parameters as the list endpoint, without pagination
+router.get('/export', async (req: Request, res: Response) => {
+  const query = req.query as Record<string, string | string[] | undefined>;
+  const { where, orderBy, errors } = parseTransactionFilters(query);
+  const format = query.format ?? 'csv';
+  if (!isExportFormat(format)) {
+    res.status(400).json({ message: `Invalid format parameter (expected one of ${EXPORT_FORMATS.join(', ')})` });
+    return; // Explicit return for clarity
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ message: errors.join('; ') });
+    return; // Explicit return for clarity
+  }
+
+  try {
+    const transactions = await prisma.transaction.findMany({
+      where: { ...where, userId: req.userId },
+      orderBy,
+      include: {
+        category: { select: { name: true } },
+        account: { select: { name: true, type: true } },
+        transfer: { include: { fromAccount: { select: { name: true } }, toAccount: { select: { name: true } } } },
+        splits: { include: { category: { select: { name: true } } } },
+      },
+    });
+    const rows = transactions.map(toExportTransaction);
+
+    let body: string;
+    if (format === 'json') {
+      body = JSON.stringify({ exportedAt: new Date().toISOString(), transactions: rows }, null, 2);
+    } else if (format === 'qif') {
+      const accountTypes = new Map(transactions.flatMap(t => (t.account ? [[t.account.name, t.account.type] as const] : [])));
+      body = toQif(rows, accountTypes);
+    } else {
+      body = toCsv(rows);
+    }
+
+    const fileName = `smortmoney-transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(body);
+    return; // Explicit return for clarity
+  } catch (error: any) {
+    console.error('Error exporting transactions:', error);
+    res.status(500).json({ message: 'Failed to export transactions' });
+    return; // Explicit return for clarity
+  }
+});
+
 
 // Update a transaction - PUT /api/transactions/:id
 router.put('/:id', async (req: Request, res: Response) => { // Use imported types
   const { id } = req.params;
   // Extract fields from request body
-  const { merchant, amount, date, categoryId, description } = req.body;
+  const { merchant, amount, date, categoryId, accountId, description, direction } = req.body;
 
   // Basic request validation
   if (!merchant || amount === undefined || !date) {
@@ -186,38 +270,106 @@ router.put('/:id', async (req: Request, res: Response) => { // Use imported type
     res.status(400).json({ message: 'Amount must be a number' });
     return; // Explicit return for clarity
   }
+  const amountCents = toCents(Math.abs(amountNum)); // Stored as a positive magnitude
   const dateValue = new Date(date);
   if (isNaN(dateValue.getTime())) {
       res.status(400).json({ message: 'Invalid date format' });
       return; // Explicit return for clarity
   }
+  if (direction !== undefined && !isTransactionDirection(direction)) {
+    res.status(400).json({ message: 'Direction must be one of expense, income or transfer' });
+    return; // Explicit return for clarity
+  }
   // Category validation
 
   try {
+    const existing = await prisma.transaction.findUnique({
+      where: { id: id, userId: req.userId },
+      select: { amountCents: true, direction: true, accountId: true, categoryId: true, transferId: true, splits: { select: { amountCents: true } } }
+    });
+    if (!existing) {
+      res.status(404).json({ message: `Transaction with ID ${id} not found` });
+      return; // Explicit return for clarity
+    }
+    if (existing.transferId) {
+      const transferError = transferLegChangeError(existing, direction, accountId);
+      if (transferError) {
+        res.status(400).json({ message: transferError });
+        return; // Explicit return for clarity
+      }
+    }
+    // Split lines must still add up to the (possibly new) amount
+    const newDirection = existing.transferId ? 'transfer' : direction ?? (amountNum < 0 ? 'expense' : existing.direction);
+    const splitUpdate = resolveSplitUpdate(req.body.splits, existing.splits, amountCents, newDirection);
+    if (splitUpdate.error) {
+      res.status(400).json({ message: splitUpdate.error });
+      return; // Explicit return for clarity
+    }
+    const missingSplitCategory = await findMissingSplitCategory(req.userId, splitUpdate.splits);
+    if (missingSplitCategory) {
+      res.status(404).json({ message: `Category with ID ${missingSplitCategory} not found` });
+      return; // Explicit return for clarity
+    }
+
     // Verify category exists if provided (to avoid foreign key constraint errors)
     if (categoryId) {
       const categoryExists = await prisma.category.findUnique({
-        where: { id: categoryId }
+        where: { id: categoryId, userId: req.userId }
       });
       if (!categoryExists) {
         res.status(404).json({ message: `Category with ID ${categoryId} not found` });
         return; // Explicit return for clarity
       }
     }
+    // Same for the account
+    if (accountId) {
+      const accountExists = await prisma.account.findUnique({
+        where: { id: accountId, userId: req.userId }
+      });
+      if (!accountExists) {
+        res.status(404).json({ message: `Account with ID ${accountId} not found` });
+        return; // Explicit return for clarity
+      }
+    }
 
-    // Update the transaction
-    const updatedTransaction = await prisma.transaction.update({
-      where: { id: id },
-      data: {
-        merchant: merchant,
-        amount: amountNum,
-        date: dateValue,
-        categoryId: categoryId !== undefined ? categoryId : null, // Handle null categoryId
-        description: description !== undefined ? description : null, // Same for description if provided
-      },
-      include: {
-        category: true,
+    // Update the transaction, and the other leg too when it is part of a transfer
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const updated = await tx.transaction.update({
+        where: { id: id, userId: req.userId },
+        data: {
+          merchant: merchant,
+          amountCents,
+          // A negative amount without a direction is a debit; otherwise keep the current direction
+          direction: existing.transferId ? 'transfer' : direction ?? (amountNum < 0 ? 'expense' : undefined),
+          date: dateValue,
+          categoryId: categoryId !== undefined ? categoryId : null, // Handle null categoryId
+          // Same for accountId; transfer legs keep theirs
+          accountId: existing.transferId ? existing.accountId : accountId !== undefined ? accountId : null,
+          description: description !== undefined ? description : null, // Same for description if provided
+          // Saving the full edit form counts as having checked the extracted fields
+          needsReview: false,
+          reviewReason: null,
+          // Replace the split lines only when the request sent them
+          splits: splitUpdate.replace ? { deleteMany: {}, create: splitUpdate.splits } : undefined,
+        },
+        include: {
+          category: true,
+          account: true,
+          transfer: true,
+          splits: { include: { category: true } },
+          lineItems: { orderBy: { position: 'asc' } },
+        }
+      });
+      // Remember the category the user picked for this merchant
+      await learnMerchantCategory(tx, req.userId, existing.categoryId, updated);
+      if (existing.transferId) {
+        await syncTransferFields(tx, existing.transferId, {
+          amountCents: updated.amountCents,
+          date: updated.date,
+          description: updated.description,
+        });
       }
+      return updated;
     });
 
     console.log('Updated TX:', description);
@@ -236,14 +388,171 @@ router.put('/:id', async (req: Request, res: Response) => { // Use imported type
   }
 });
 
+// Partially update a transaction - PATCH /api/transactions/:id
+// Only the fields present in the body are validated and written
+router.patch('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const body = req.body ?? {};
+  const { data: fields, fieldErrors } = parseTransactionFieldUpdates(body);
+  const updateData: Prisma.TransactionUncheckedUpdateInput = { ...fields };
+
+  if (fieldErrors.length > 0) {
+    res.status(400).json({ message: 'Invalid transaction fields', errors: fieldErrors });
+    return; // Explicit return for clarity
+  }
+  if (Object.keys(updateData).length === 0 && body.splits === undefined) {
+    res.status(400).json({ message: 'No update data provided (merchant, amount, direction, date, categoryId, accountId, description, needsReview or splits required)' });
+    return; // Explicit return for clarity
+  }
+
+  try {
+    const existing = await prisma.transaction.findUnique({
+      where: { id: id, userId: req.userId },
+      select: { amountCents: true, direction: true, accountId: true, categoryId: true, transferId: true, splits: { select: { amountCents: true } } }
+    });
+    if (!existing) {
+      res.status(404).json({ message: `Transaction with ID ${id} not found` });
+      return; // Explicit return for clarity
+    }
+    if (existing.transferId) {
+      // A negative amount doesn't make a transfer leg an expense; only a direction sent in the body is checked
+      if (body.direction === undefined) delete updateData.direction;
+      const transferError = transferLegChangeError(existing, updateData.direction, updateData.accountId);
+      if (transferError) {
+        res.status(400).json({ message: transferError });
+        return; // Explicit return for clarity
+      }
+    }
+    // Split lines are checked against the amount and direction the transaction ends up with
+    const splitUpdate = resolveSplitUpdate(
+      body.splits,
+      existing.splits,
+      typeof updateData.amountCents === 'number' ? updateData.amountCents : existing.amountCents,
+      typeof updateData.direction === 'string' ? updateData.direction : existing.direction
+    );
+    if (splitUpdate.error) {
+      res.status(400).json({ message: 'Invalid transaction fields', errors: [{ field: 'splits', message: splitUpdate.error }] });
+      return; // Explicit return for clarity
+    }
+    if (splitUpdate.replace) {
+      const missingSplitCategory = await findMissingSplitCategory(req.userId, splitUpdate.splits);
+      if (missingSplitCategory) {
+        res.status(404).json({ message: `Category with ID ${missingSplitCategory} not found` });
+        return; // Explicit return for clarity
+      }
+      updateData.splits = { deleteMany: {}, create: splitUpdate.splits };
+    }
+
+    // Verify category exists if one is being assigned
+    if (typeof updateData.categoryId === 'string') {
+      const categoryExists = await prisma.category.findUnique({
+        where: { id: updateData.categoryId, userId: req.userId }
+      });
+      if (!categoryExists) {
+        res.status(404).json({ message: `Category with ID ${updateData.categoryId} not found` });
+        return; // Explicit return for clarity
+      }
+    }
+    // Same for the account
+    if (typeof updateData.accountId === 'string') {
+      const accountExists = await prisma.account.findUnique({
+        where: { id: updateData.accountId, userId: req.userId }
+      });
+      if (!accountExists) {
+        res.status(404).json({ message: `Account with ID ${updateData.accountId} not found` });
+        return; // Explicit return for clarity
+      }
+    }
+
+    // Amount, date and description are shared with the other leg of a transfer
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const updated = await tx.transaction.update({
+        where: { id: id, userId: req.userId },
+        data: updateData,
+        include: {
+          category: true,
+          account: true,
+          transfer: true,
+          splits: { include: { category: true } },
+          lineItems: { orderBy: { position: 'asc' } },
+        }
+      });
+      // Remember the category the user picked for this merchant
+      await learnMerchantCategory(tx, req.userId, existing.categoryId, updated);
+      if (existing.transferId) {
+        await syncTransferFields(tx, existing.transferId, {
+          amountCents: updateData.amountCents !== undefined ? updated.amountCents : undefined,
+          date: updateData.date !== undefined ? updated.date : undefined,
+          description: updateData.description !== undefined ? updated.description : undefined,
+        });
+      }
+      return updated;
+    });
+
+    console.log('Patched TX:', id, Object.keys(updateData));
+    res.json(updatedTransaction);
+    return; // Explicit return for clarity
+
+  } catch (error: any) {
+    console.error(`Error patching transaction ${id}:`, error);
+    if (error?.code === 'P2025') { // Prisma not found error
+      res.status(404).json({ message: `Transaction with ID ${id} not found` });
+      return; // Explicit return for clarity
+    }
+    res.status(500).json({ message: 'Failed to update transaction' });
+    return; // Explicit return for clarity
+  }
+});
+
+/**
+ * @route  DELETE /api/transactions/clear
+ * @desc   Clear all of the signed-in user's transactions
+ * @access Private (only clears the signed-in user's transactions)
+ * Registered before DELETE /:id, which would otherwise take "clear" for an ID
+ */
+// Add explicit types for req and res
+router.delete('/clear', async (req: Request, res: Response) => {
+  try {
+    // Use deleteMany to remove all of the user's transactions, and the transfers they were legs of
+    await prisma.transaction.deleteMany({ where: { userId: req.userId } });
+    await prisma.transfer.deleteMany({ where: { userId: req.userId } });
+    await deleteOrphanReceipts(prisma, req.userId);
+
+    res.status(200).json({ // Removed explicit return
+      success: true,
+      message: 'All transactions have been deleted'
+    });
+  } catch (error) {
+    console.error('Error clearing transactions:', error);
+    res.status(500).json({ // Removed explicit return
+      success: false,
+      message: 'Server error while clearing transactions'
+    });
+  }
+});
+
 // Delete a transaction - DELETE /api/transactions/:id
+// Deleting either leg of a transfer deletes the whole transfer
 router.delete('/:id', async (req: Request, res: Response) => { // Use imported types
   const { id } = req.params;
 
   try {
-    await prisma.transaction.delete({
-      where: { id: id }
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: id, userId: req.userId },
+      select: { transferId: true }
     });
+    if (transaction?.transferId) {
+      // Both legs go with the transfer (ON DELETE CASCADE)
+      await prisma.transfer.delete({
+        where: { id: transaction.transferId }
+      });
+    } else {
+      await prisma.transaction.delete({
+        where: { id: id, userId: req.userId }
+      });
+    }
+    // Drop the receipt image if this was the last transaction read from it
+    await deleteOrphanReceipts(prisma, req.userId);
 
     console.log('Deleted TX:', id);
     // Return 204 No Content for successful deletion
@@ -263,7 +572,7 @@ router.delete('/:id', async (req: Request, res: Response) => { // Use imported t
 });
 
 
-// Get monthly spending summary grouped by category - GET /api/transactions/summary
+// Get monthly summary grouped by category, with income/expense totals - GET /api/transactions/summary
 router.get('/summary', async (req: Request, res: Response) => { // Use imported types
   // Extract query parameters
   // Type assertion should work correctly now with `Request` type
@@ -283,53 +592,116 @@ router.get('/summary', async (req: Request, res: Response) => { // Use imported
   }
 
   try {
-    // Calculate start and end dates for the given month
-    const startDate = new Date(yearNum, monthNum - 1, 1); // Month is 0-indexed
-    const endDate = new Date(yearNum, monthNum, 0); // Last day of the month
-
-    // Find all transactions for the given month with their categories
-    const monthTransactions = await prisma.transaction.findMany({
-      where: {
-        date: {
-          gte: startDate, // Greater than or equal to start date
-          lte: endDate    // Less than or equal to end date
-        },
-        categoryId: {
-          not: null, // Only include categorized transactions (optional)
-        }
-      },
-      select: {
-        amount: true, // We need the amount
-        date: true,   // Include date for debugging/reference
-        categoryId: true, // Include the category ID
-      },
-      orderBy: {
-        // Correct orderBy syntax
-        date: 'desc'
+    // Calculate the [start, end) range for the given month; dates are stored as UTC midnight
+    const startDate = new Date(Date.UTC(yearNum, monthNum - 1, 1));
+    const endDate = new Date(Date.UTC(yearNum, monthNum, 1)); // First day of the next month
+    const periodWhere: Prisma.TransactionWhereInput = {
+      userId: req.userId,
+      date: {
+        gte: startDate, // Greater than or equal to start date
+        lt: endDate     // Strictly before the next month
       }
-    });
-
-    // Get all category IDs from transactions
-    const categoryIds = monthTransactions.map(item => item.categoryId).filter(id => id !== null) as string[];
+    };
+
+    // Let the database do the grouping: one group per (category, direction).
+    // Amounts are integer cents, so the sums are exact however many rows there are.
+    // Linked transfer legs come in pairs, so they are totalled from the Transfer table instead,
+    // and split transactions are attributed through their split lines.
+    const [transactionGroups, splitLines, transferTotals] = await Promise.all([
+      prisma.transaction.groupBy({
+        by: ['categoryId', 'direction'],
+        where: { ...periodWhere, transferId: null, splits: { none: {} } },
+        _sum: { amountCents: true },
+        _count: { _all: true },
+      }),
+      prisma.transactionSplit.findMany({
+        where: { transaction: { ...periodWhere, transferId: null } },
+        select: { categoryId: true, amountCents: true, transactionId: true, transaction: { select: { direction: true } } },
+      }),
+      prisma.transfer.aggregate({
+        where: { userId: req.userId, date: { gte: startDate, lt: endDate } },
+        _sum: { amountCents: true },
+      }),
+    ]);
+
+    // Bring the split lines into the same (category, direction) shape as the groups
+    const groups = transactionGroups.map(group => ({
+      categoryId: group.categoryId,
+      direction: group.direction,
+      sum: group._sum.amountCents ?? 0,
+      count: group._count._all,
+    }));
+    groups.push(...groupSplitLines(splitLines.map(({ transaction, ...line }) => ({ ...line, direction: transaction.direction }))));
+    // Like the groups, a split transfer counts toward the transfer total but not the transactions
+    const splitTransactionCount = new Set(
+      splitLines.filter(line => line.transaction.direction !== 'transfer').map(line => line.transactionId)
+    ).size;
+
+    // Look up names/icons for the categories that appear in this period
+    const categoryIds = groups.map(group => group.categoryId).filter((id): id is string => id !== null);
     const categories = await prisma.category.findMany({
         where: { id: { in: categoryIds } },
         select: { id: true, name: true, iconName: true }, // Select fields needed
     });
     const categoryMap = new Map(categories.map(cat => [cat.id, cat]));
 
-    // Calculate total spent per category using the defined interface
-    const spendingByCategory: CategorySpendSummary[] = monthTransactions.map(item => {
-        const category = item.categoryId ? categoryMap.get(item.categoryId) : null;
-        return {
-            categoryId: item.categoryId,
-            categoryName: category?.name,
-            // Ensure type compatibility: provide undefined if iconName is null or undefined
-            categoryIcon: category?.iconName ?? undefined,
-            totalSpent: item.amount || 0
+    // Fold the direction groups into one row per category (null = uncategorized)
+    const rowMap = new Map<string | null, CategorySpendSummary>();
+    let income = 0;
+    let expenses = 0;
+    let transfers = transferTotals._sum.amountCents ?? 0;
+    let transactionCount = splitTransactionCount; // Split transactions count once, not once per line
+    for (const group of groups) {
+      // Transfers are not spending; keep them out of the category rows, budgets and charts
+      if (group.direction === 'transfer') {
+        transfers += group.sum;
+        continue;
+      }
+      let row = rowMap.get(group.categoryId);
+      if (!row) {
+        const category = group.categoryId ? categoryMap.get(group.categoryId) : undefined;
+        row = {
+          categoryId: group.categoryId,
+          categoryName: category?.name ?? 'Uncategorized',
+          // Ensure type compatibility: provide undefined if iconName is null or undefined
+          categoryIcon: category?.iconName ?? undefined,
+          totalSpentCents: 0,
+          totalCents: 0,
+          transactionCount: 0,
         };
+        rowMap.set(group.categoryId, row);
+      }
+      const sum = group.sum;
+      if (group.direction === 'expense') {
+        row.totalSpentCents += sum;
+        expenses += sum;
+      } else if (group.direction === 'income') {
+        income += sum;
+      }
+      row.totalCents += signedAmount(sum, group.direction);
+      row.transactionCount += group.count;
+    }
+    transactionCount += transactionGroups
+      .filter(group => group.direction !== 'transfer')
+      .reduce((sum, group) => sum + group._count._all, 0);
+
+    const spendingByCategory = Array.from(rowMap.values())
+      .sort((a, b) => b.totalSpentCents - a.totalSpentCents); // Biggest spending first
+
+    const totals: PeriodTotals = {
+      incomeCents: income,
+      expensesCents: expenses,
+      netCents: income - expenses,
+      transfersCents: transfers,
+      transactionCount,
+    };
+
+    res.json({
+      month: monthNum,
+      year: yearNum,
+      categories: spendingByCategory,
+      totals,
     });
-
-    res.json(spendingByCategory);
     return; // Explicit return for clarity
 
   } catch (error: any) { // Type the error
@@ -339,28 +711,4 @@ router.get('/summary', async (req: Request, res: Response) => { // Use imported
   }
 });
 
-/**
- * @route  DELETE /api/transactions/clear
- * @desc   Clear all transactions from database
- * @access Public (in a real app, this should be admin-only)
- */
-// Add explicit types for req and res
-router.delete('/clear', async (req: Request, res: Response) => {
-  try {
-    // Use deleteMany to remove all transactions
-    await prisma.transaction.deleteMany({});
-
-    res.status(200).json({ // Removed explicit return
-      success: true,
-      message: 'All transactions have been deleted'
-    });
-  } catch (error) {
-    console.error('Error clearing transactions:', error);
-    res.status(500).json({ // Removed explicit return
-      success: false,
-      message: 'Server error while clearing transactions'
-    });
-  }
-});
-
 export default router;
@@ -0,0 +1,232 @@
+import express, { Request, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { buildTransferLegs, syncTransferFields, TransferSharedFields } from '../services/transferService';
+import { toCents } from '../services/money';
+
+const router: Router = express.Router();
+const prisma = new PrismaClient();
+
+// Relations returned with every transfer
+const transferInclude = {
+  fromAccount: true,
+  toAccount: true,
+  transactions: true,
+};
+
+// GET /api/transfers - Get all transfers, most recent first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const transfers = await prisma.transfer.findMany({
+      where: { userId: req.userId },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      include: transferInclude,
+    });
+    res.json(transfers);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error fetching transfers:', error);
+    res.status(500).json({ message: 'Error fetching transfers' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// GET /api/transfers/:id - Get a single transfer with both legs
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const transfer = await prisma.transfer.findUnique({
+      where: { id: id, userId: req.userId },
+      include: transferInclude,
+    });
+    if (!transfer) {
+      res.status(404).json({ message: 'Transfer not found' });
+      return; // Explicitly return void
+    }
+    res.json(transfer);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error(`Error fetching transfer ${id}:`, error);
+    res.status(500).json({ message: 'Error fetching transfer' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// POST /api/transfers - Create a transfer and both of its legs together
+router.post('/', async (req: Request, res: Response) => {
+  // Define expected body structure
+  const { fromAccountId, toAccountId, amount, date, description }: {
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number | string;
+    date: string;
+    description?: string | null;
+  } = req.body;
+
+  if (!fromAccountId || !toAccountId || amount === undefined || !date) {
+    res.status(400).json({ message: 'fromAccountId, toAccountId, amount and date are required' });
+    return; // Explicitly return void
+  }
+  if (fromAccountId === toAccountId) {
+    res.status(400).json({ message: 'A transfer needs two different accounts' });
+    return; // Explicitly return void
+  }
+  const amountNum = parseFloat(String(amount));
+  if (isNaN(amountNum) || toCents(amountNum) <= 0) {
+    res.status(400).json({ message: 'Amount must be a positive number' });
+    return; // Explicitly return void
+  }
+  const dateValue = new Date(date);
+  if (isNaN(dateValue.getTime())) {
+    res.status(400).json({ message: 'Invalid date format' });
+    return; // Explicitly return void
+  }
+
+  try {
+    const [fromAccount, toAccount] = await Promise.all([
+      prisma.account.findUnique({ where: { id: fromAccountId, userId: req.userId } }),
+      prisma.account.findUnique({ where: { id: toAccountId, userId: req.userId } }),
+    ]);
+    if (!fromAccount || !toAccount) {
+      res.status(404).json({ message: `Account with ID ${!fromAccount ? fromAccountId : toAccountId} not found` });
+      return; // Explicitly return void
+    }
+
+    const fields = { amountCents: toCents(amountNum), date: dateValue, description: description?.trim() || null };
+    const newTransfer = await prisma.transfer.create({
+      data: {
+        ...fields,
+        userId: req.userId,
+        fromAccountId,
+        toAccountId,
+        transactions: { create: buildTransferLegs(req.userId, fromAccount, toAccount, fields) },
+      },
+      include: transferInclude,
+    });
+    res.status(201).json(newTransfer);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    console.error('Error creating transfer:', error);
+    res.status(500).json({ message: 'Error creating transfer' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// PUT /api/transfers/:id - Update a transfer; both legs are updated with it
+router.put('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  // Define expected body structure
+  const { fromAccountId, toAccountId, amount, date, description }: {
+    fromAccountId?: string;
+    toAccountId?: string;
+    amount?: number | string;
+    date?: string;
+    description?: string | null;
+  } = req.body;
+
+  // Basic validation: Allow updating any subset of the fields
+  if (fromAccountId === undefined && toAccountId === undefined && amount === undefined && date === undefined && description === undefined) {
+    res.status(400).json({ message: 'No update data provided (fromAccountId, toAccountId, amount, date or description required)' });
+    return; // Explicitly return void
+  }
+
+  const sharedFields: TransferSharedFields = {};
+  if (amount !== undefined) {
+    const amountNum = parseFloat(String(amount));
+    if (isNaN(amountNum) || toCents(amountNum) <= 0) {
+      res.status(400).json({ message: 'Amount must be a positive number' });
+      return; // Explicitly return void
+    }
+    sharedFields.amountCents = toCents(amountNum);
+  }
+  if (date !== undefined) {
+    const dateValue = new Date(date);
+    if (isNaN(dateValue.getTime())) {
+      res.status(400).json({ message: 'Invalid date format' });
+      return; // Explicitly return void
+    }
+    sharedFields.date = dateValue;
+  }
+  if (description !== undefined) {
+    sharedFields.description = description?.trim() || null;
+  }
+
+  try {
+    const existing = await prisma.transfer.findUnique({
+      where: { id: id, userId: req.userId },
+      include: { transactions: true },
+    });
+    if (!existing) {
+      res.status(404).json({ message: `Transfer with ID ${id} not found.` });
+      return; // Explicitly return void
+    }
+
+    const newFromId = fromAccountId ?? existing.fromAccountId;
+    const newToId = toAccountId ?? existing.toAccountId;
+    if (newFromId === newToId) {
+      res.status(400).json({ message: 'A transfer needs two different accounts' });
+      return; // Explicitly return void
+    }
+    const [fromAccount, toAccount] = await Promise.all([
+      prisma.account.findUnique({ where: { id: newFromId, userId: req.userId } }),
+      prisma.account.findUnique({ where: { id: newToId, userId: req.userId } }),
+    ]);
+    if (!fromAccount || !toAccount) {
+      res.status(404).json({ message: `Account with ID ${!fromAccount ? newFromId : newToId} not found` });
+      return; // Explicitly return void
+    }
+
+    const updatedTransfer = await prisma.$transaction(async (tx) => {
+      await syncTransferFields(tx, id, sharedFields);
+      if (newFromId !== existing.fromAccountId || newToId !== existing.toAccountId) {
+        // Re-point each leg at its new account, keeping the merchant text in step
+        await tx.transfer.update({ where: { id: id, userId: req.userId }, data: { fromAccountId: newFromId, toAccountId: newToId } });
+        for (const leg of existing.transactions) {
+          const isOutgoing = leg.accountId === existing.fromAccountId;
+          await tx.transaction.update({
+            where: { id: leg.id },
+            data: isOutgoing
+              ? { accountId: newFromId, merchant: `Transfer to ${toAccount.name}` }
+              : { accountId: newToId, merchant: `Transfer from ${fromAccount.name}` },
+          });
+        }
+      }
+      return tx.transfer.findUniqueOrThrow({ where: { id: id, userId: req.userId }, include: transferInclude });
+    });
+    res.json(updatedTransfer);
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle case where the transfer was deleted in the meantime
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Transfer with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    console.error(`Error updating transfer ${id}:`, error);
+    res.status(500).json({ message: 'Error updating transfer' });
+    return; // Explicitly return void from catch
+  }
+});
+
+// DELETE /api/transfers/:id - Delete a transfer together with both legs
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    // Legs are removed by the ON DELETE CASCADE on Transaction.transferId
+    await prisma.transfer.delete({
+      where: { id: id, userId: req.userId },
+    });
+    res.status(204).send(); // No content on successful deletion
+    return; // Explicitly return void
+  } catch (error: any) { // Add type annotation
+    // Handle case where the transfer to delete doesn't exist
+    if (error?.code === 'P2025') {
+        res.status(404).json({ message: `Transfer with ID ${id} not found.` });
+        return; // Explicitly return void
+    }
+    console.error(`Error deleting transfer ${id}:`, error);
+    res.status(500).json({ message: 'Error deleting transfer' });
+    return; // Explicitly return void from catch
+  }
+});
+
+
+export default router;
@@ -0,0 +1,37 @@
+import { computeBalances } from '../accountBalances';
+import { fakePrismaClient } from '../../testSupport/fakePrismaClient';
+
+const sum = (amountCents: number, count: number) => ({ _sum: { amountCents }, _count: { _all: count } });
+
+describe('computeBalances', () => {
+  it('adds income, subtracts expenses and moves transfers between accounts', async () => {
+    const { client, calls } = fakePrismaClient({
+      transaction: {
+        groupBy: () => [
+          { accountId: 'checking', direction: 'income', ...sum(185000, 1) },
+          { accountId: 'checking', direction: 'expense', ...sum(2622, 2) },
+          { accountId: 'visa', direction: 'expense', ...sum(4500, 1) },
+        ],
+      },
+      transfer: {
+        groupBy: args => (args as { by: string[] }).by[0] === 'fromAccountId'
+          ? [{ fromAccountId: 'checking', ...sum(3000, 1) }]
+          : [{ toAccountId: 'visa', ...sum(3000, 1) }],
+      },
+    });
+
+    const balances = await computeBalances(client, [
+      { id: 'checking', openingBalanceCents: 10000 },
+      { id: 'visa', openingBalanceCents: 0 },
+      { id: 'cash', openingBalanceCents: 2000 },
+    ]);
+
+    expect(Object.fromEntries(balances)).toEqual({
+      checking: { balanceCents: 10000 + 185000 - 2622 - 3000, transactionCount: 4 },
+      visa: { balanceCents: -4500 + 3000, transactionCount: 2 },
+      cash: { balanceCents: 2000, transactionCount: 0 },
+    });
+    // Linked legs are counted once, from the transfers
+    expect(calls[0].args).toEqual(expect.objectContaining({ where: { accountId: { in: ['checking', 'visa', 'cash'] }, transferId: null } }));
+  });
+});
@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+import { createBackup, parseBackupArchive, restoreBackup, BACKUP_FORMAT, BACKUP_VERSION } from '../backup';
+import { fakePrismaClient } from '../../testSupport/fakePrismaClient';
+
+function archive(data: Record<string, unknown[]>) {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: '2025-06-14T00:00:00.000Z', data };
+}
+
+describe('createBackup', () => {
+  it('reads every model except sign-in data, receipt files and imports under review', async () => {
+    const { client, calls } = fakePrismaClient();
+    await createBackup(client, 'user-1');
+
+    const backedUp = calls.map(call => call.model);
+    const excluded = ['receipt', 'importBatch', 'importDraft', 'user', 'session'];
+    const allModels = Object.values(Prisma.ModelName).map(model => model.charAt(0).toLowerCase() + model.slice(1));
+    expect([...backedUp, ...excluded].sort()).toEqual(allModels.sort());
+  });
+
+  it('writes money as decimal amounts and leaves out owner and draft columns', async () => {
+    const { client } = fakePrismaClient({
+      transaction: { findMany: () => [{ id: 't1', userId: 'user-1', merchant: 'Cafe', amountCents: 450 }] },
+      transactionLineItem: { findMany: () => [{ id: 'l1', transactionId: 't1', draftId: null, totalCents: 450 }] },
+    });
+    const backup = await createBackup(client, 'user-1');
+
+    expect(backup).toEqual(expect.objectContaining({ format: BACKUP_FORMAT, version: BACKUP_VERSION }));
+    expect(backup.data.transactions).toEqual([{ id: 't1', merchant: 'Cafe', amount: 4.5 }]);
+    expect(backup.data.transactionLineItems).toEqual([{ id: 'l1', transactionId: 't1', total: 4.5 }]);
+  });
+});
+
+describe('parseBackupArchive', () => {
+  it('accepts a consistent archive and treats missing tables as empty', () => {
+    const result = parseBackupArchive(archive({
+      categories: [{ id: 'c1', name: 'Coffee' }],
+      transactions: [{ id: 't1', merchant: 'Cafe', amount: 4.5, categoryId: 'c1', receiptId: 'elsewhere' }],
+    }));
+    expect(result.error).toBeUndefined();
+    expect(result.archive?.data.accounts).toEqual([]);
+  });
+
+  it('rejects other formats and newer versions', () => {
+    expect(parseBackupArchive({ format: 'other', version: 1, data: {} }).error).toMatch(/Not a SmortMoney backup/);
+    expect(parseBackupArchive({ ...archive({}), version: BACKUP_VERSION + 1 }).error).toMatch(/newer version/);
+    expect(parseBackupArchive({ ...archive({}), data: [] }).error).toBe('Backup has no data object');
+  });
+
+  it('rejects rows with repeated ids, unknown fields or dangling references', () => {
+    expect(parseBackupArchive(archive({ categories: [{ id: 'c1', name: 'A' }, { id: 'c1', name: 'B' }] })).error)
+      .toBe('categories[1] repeats id c1');
+    expect(parseBackupArchive(archive({ transactions: [{ id: 't1', amountCents: 450 }] })).error)
+      .toBe('transactions[0] has unknown field amountCents');
+    expect(parseBackupArchive(archive({ transactions: [{ id: 't1', userId: 'someone' }] })).error)
+      .toBe('transactions[0] has unknown field userId');
+    expect(parseBackupArchive(archive({ transactions: [{ id: 't1', categoryId: 'gone' }] })).error)
+      .toBe('transactions[0].categoryId points at a missing categories row');
+  });
+});
+
+describe('restoreBackup', () => {
+  it('restores cents, the owner and links, dropping receipts this server does not have', async () => {
+    const { archive: parsed } = parseBackupArchive(archive({
+      categories: [{ id: 'c1', name: 'Coffee' }],
+      transactions: [{ id: 't1', merchant: 'Cafe', amount: 4.5, categoryId: 'c1', receiptId: 'elsewhere' }],
+    }));
+    const { client, calls } = fakePrismaClient();
+
+    const results = await restoreBackup(client, 'user-2', parsed!, 'merge');
+
+    expect(results.categories).toEqual({ added: 1, skipped: 0 });
+    expect(results.transactions).toEqual({ added: 1, skipped: 0 });
+    expect(calls.some(call => call.method === 'deleteMany')).toBe(false);
+    const created = calls.find(call => call.model === 'transaction' && call.method === 'createMany');
+    expect(created?.args).toEqual({ data: [
+      { id: 't1', merchant: 'Cafe', amountCents: 450, categoryId: 'c1', receiptId: null, userId: 'user-2' },
+    ] });
+  });
+
+  it('merges into existing rows with the same name instead of adding them', async () => {
+    const { archive: parsed } = parseBackupArchive(archive({
+      categories: [{ id: 'c1', name: 'Coffee' }],
+      transactions: [{ id: 't1', merchant: 'Cafe', amount: 4.5, categoryId: 'c1' }],
+    }));
+    const { client, calls } = fakePrismaClient({ category: { findMany: () => [{ id: 'existing', name: 'Coffee' }] } });
+
+    const results = await restoreBackup(client, 'user-2', parsed!, 'merge');
+
+    expect(results.categories).toEqual({ added: 0, skipped: 1 });
+    const created = calls.find(call => call.model === 'transaction' && call.method === 'createMany');
+    expect(created?.args).toEqual({ data: [expect.objectContaining({ categoryId: 'existing' })] });
+  });
+
+  it('clears the user\'s data first when replacing', async () => {
+    const { client, calls } = fakePrismaClient();
+    await restoreBackup(client, 'user-2', parseBackupArchive(archive({})).archive!, 'replace');
+
+    const deleted = calls.filter(call => call.method === 'deleteMany').map(call => call.model);
+    expect(deleted[0]).toBe('csvImportProfile');
+    expect(deleted[deleted.length - 1]).toBe('category');
+  });
+});
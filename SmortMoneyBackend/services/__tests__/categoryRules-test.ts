@@ -0,0 +1,100 @@
+import { CategoryRule } from '@prisma/client';
+import { parseCategoryRuleInput, ruleMatches, findMatchingRule } from '../categoryRules';
+
+function rule(fields: Partial<CategoryRule>): CategoryRule {
+  return {
+    id: 'rule',
+    createdAt: new Date('2025-06-01T00:00:00Z'),
+    updatedAt: new Date('2025-06-01T00:00:00Z'),
+    userId: 'user',
+    priority: 0,
+    enabled: true,
+    merchantPattern: null,
+    matchType: 'contains',
+    minAmountCents: null,
+    maxAmountCents: null,
+    accountId: null,
+    categoryId: 'category',
+    ...fields,
+  };
+}
+
+describe('parseCategoryRuleInput', () => {
+  it('converts amounts to cents and trims the pattern', () => {
+    expect(parseCategoryRuleInput({ categoryId: 'c1', merchantPattern: '  coffee ', minAmount: '2.50', maxAmount: 10 }, false)).toEqual({
+      data: { categoryId: 'c1', merchantPattern: 'coffee', minAmountCents: 250, maxAmountCents: 1000 },
+    });
+  });
+
+  it('requires a condition and an ordered amount range', () => {
+    expect(parseCategoryRuleInput({ categoryId: 'c1' }, false).error).toMatch(/at least one condition/);
+    expect(parseCategoryRuleInput({ categoryId: 'c1', minAmount: 5, maxAmount: 1 }, false).error).toMatch(/minAmount/);
+  });
+
+  it('checks an update against the stored rule', () => {
+    const existing = rule({ merchantPattern: 'uber' });
+    expect(parseCategoryRuleInput({ matchType: 'regex' }, true, existing).error).toBeUndefined();
+    expect(parseCategoryRuleInput({ merchantPattern: null }, true, existing).error).toMatch(/at least one condition/);
+  });
+
+  it('accepts ordinary regular expressions', () => {
+    for (const merchantPattern of ['^amzn mktp', 'uber\\s*(eats)?', '.*coffee.*', 'shell|bp|esso', '[a-z]{3,} store', '\\d{4}$']) {
+      expect(parseCategoryRuleInput({ categoryId: 'c1', matchType: 'regex', merchantPattern }, false).error).toBeUndefined();
+    }
+  });
+
+  it('rejects invalid and overlong patterns', () => {
+    expect(parseCategoryRuleInput({ categoryId: 'c1', matchType: 'regex', merchantPattern: '(' }, false).error)
+      .toMatch(/not a valid regular expression/);
+    expect(parseCategoryRuleInput({ categoryId: 'c1', merchantPattern: 'x'.repeat(201) }, false).error).toMatch(/at most 200/);
+  });
+
+  it('rejects patterns open to catastrophic backtracking', () => {
+    for (const merchantPattern of ['(a+)+$', '(a*)*b', '(?:\\w+\\s?)+$', '(a|aa)+$', '((ab)*c)*', '([a-z]+){2,}', '(x)\\1']) {
+      expect(parseCategoryRuleInput({ categoryId: 'c1', matchType: 'regex', merchantPattern }, false).error).toBeDefined();
+    }
+    expect(parseCategoryRuleInput({ categoryId: 'c1', matchType: 'regex', merchantPattern: '.*a.*b.*c' }, false).error)
+      .toMatch(/at most 2 variable-length repeats/);
+  });
+});
+
+describe('ruleMatches', () => {
+  const target = { merchant: 'Blue Bottle Coffee', amountCents: 450, accountId: 'checking' };
+
+  it('matches merchants case-insensitively by substring or regex', () => {
+    expect(ruleMatches(rule({ merchantPattern: 'COFFEE' }), target)).toBe(true);
+    expect(ruleMatches(rule({ merchantPattern: '^blue\\s+bottle', matchType: 'regex' }), target)).toBe(true);
+    expect(ruleMatches(rule({ merchantPattern: '^coffee', matchType: 'regex' }), target)).toBe(false);
+  });
+
+  it('requires every condition the rule sets', () => {
+    expect(ruleMatches(rule({ minAmountCents: 450, maxAmountCents: 450 }), target)).toBe(true);
+    expect(ruleMatches(rule({ merchantPattern: 'coffee', maxAmountCents: 449 }), target)).toBe(false);
+    expect(ruleMatches(rule({ merchantPattern: 'coffee', accountId: 'savings' }), target)).toBe(false);
+  });
+
+  it('never runs a stored pattern that could backtrack for long', () => {
+    const stored = rule({ merchantPattern: '(a+)+$', matchType: 'regex' });
+    const started = Date.now();
+    expect(ruleMatches(stored, { ...target, merchant: `${'a'.repeat(40)}!` })).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('tests regex patterns against the start of a long merchant only', () => {
+    const merchant = `${'x'.repeat(100)}coffee`;
+    expect(ruleMatches(rule({ merchantPattern: 'coffee', matchType: 'regex' }), { ...target, merchant })).toBe(false);
+    expect(ruleMatches(rule({ merchantPattern: 'coffee' }), { ...target, merchant })).toBe(true);
+  });
+});
+
+describe('findMatchingRule', () => {
+  it('returns the first matching rule in the given order', () => {
+    const rules = [
+      rule({ id: 'r1', merchantPattern: 'tea' }),
+      rule({ id: 'r2', merchantPattern: 'coffee' }),
+      rule({ id: 'r3', minAmountCents: 0 }),
+    ];
+    expect(findMatchingRule(rules, { merchant: 'Coffee Co', amountCents: 300, accountId: null })?.id).toBe('r2');
+    expect(findMatchingRule(rules.slice(0, 1), { merchant: 'Coffee Co', amountCents: 300, accountId: null })).toBeNull();
+  });
+});
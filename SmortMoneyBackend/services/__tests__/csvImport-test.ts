@@ -0,0 +1,119 @@
+import { parseCsv, parseCsvDate, parseCsvAmount, csvColumns, mapCsvRows, parseCsvProfileInput, withMappingDefaults } from '../csvImport';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('Date,Amount\n2025-06-14,-1.00\n')).toEqual([['Date', 'Amount'], ['2025-06-14', '-1.00']]);
+  });
+
+  it('handles quotes, embedded delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('"Joe\'s, Inc","He said ""hi""","two\nlines"')).toEqual([["Joe's, Inc", 'He said "hi"', 'two\nlines']]);
+  });
+
+  it('strips a byte-order mark, reads CRLF and skips blank lines', () => {
+    expect(parseCsv('﻿a;b\r\n\r\n;\r\nc;d', ';')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a,,c\n,b,')).toEqual([['a', '', 'c'], ['', 'b', '']]);
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('reads each supported format as UTC midnight', () => {
+    const expected = '2025-06-04T00:00:00.000Z';
+    expect(parseCsvDate('2025-06-04', 'YYYY-MM-DD')?.toISOString()).toBe(expected);
+    expect(parseCsvDate('06/04/2025', 'MM/DD/YYYY')?.toISOString()).toBe(expected);
+    expect(parseCsvDate('04/06/2025', 'DD/MM/YYYY')?.toISOString()).toBe(expected);
+    expect(parseCsvDate('6/4/2025', 'M/D/YYYY')?.toISOString()).toBe(expected);
+    expect(parseCsvDate('04.06.2025', 'DD.MM.YYYY')?.toISOString()).toBe(expected);
+    expect(parseCsvDate('04/06/25', 'DD/MM/YY')?.toISOString()).toBe(expected);
+    expect(parseCsvDate('20250604', 'YYYYMMDD')?.toISOString()).toBe(expected);
+  });
+
+  it('rejects values that do not fit the format or name no real day', () => {
+    expect(parseCsvDate('2025-06-04', 'DD/MM/YYYY')).toBeNull();
+    expect(parseCsvDate('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+    expect(parseCsvDate('04x06x2025', 'DD.MM.YYYY')).toBeNull();
+  });
+});
+
+describe('parseCsvAmount', () => {
+  it('ignores currency symbols and thousands separators', () => {
+    expect(parseCsvAmount('$1,234.56', false)).toBe(1234.56);
+    expect(parseCsvAmount('1.234,56 €', true)).toBe(1234.56);
+  });
+
+  it('reads accounting negatives', () => {
+    expect(parseCsvAmount('(12.34)', false)).toBe(-12.34);
+    expect(parseCsvAmount('12.34-', false)).toBe(-12.34);
+    expect(parseCsvAmount('-12.34', false)).toBe(-12.34);
+  });
+
+  it('returns null for empty cells and NaN for text', () => {
+    expect(parseCsvAmount('  ', false)).toBeNull();
+    expect(parseCsvAmount('n/a', false)).toBeNaN();
+  });
+});
+
+describe('csvColumns', () => {
+  it('uses the header row or column numbers', () => {
+    const rows = [[' Date ', 'Amount'], ['2025-06-04', '1', 'extra']];
+    expect(csvColumns(rows, true)).toEqual(['Date', 'Amount']);
+    expect(csvColumns(rows, false)).toEqual(['1', '2', '3']);
+  });
+});
+
+describe('mapCsvRows', () => {
+  it('maps a signed amount column by header name, in any case', () => {
+    const rows = parseCsv('Date,Payee,Memo,Amount\n2025-06-04,Corner Grocery,Card 1234,-23.47\n2025-06-05,Payroll,,1850.00');
+    const result = mapCsvRows(rows, withMappingDefaults({ dateColumn: 'date', merchantColumn: 'PAYEE', memoColumn: 'Memo', amountColumn: 'Amount' }));
+
+    expect(result.issues).toEqual([]);
+    expect(result.rows).toEqual([
+      expect.objectContaining({ line: 2, merchant: 'Corner Grocery', amount: -23.47, date: '2025-06-04', description: 'Card 1234', direction: null }),
+      expect.objectContaining({ line: 3, merchant: 'Payroll', amount: 1850, date: '2025-06-05', description: null }),
+    ]);
+  });
+
+  it('combines debit and credit columns and can invert signs', () => {
+    const rows = parseCsv('04.06.2025;Shop;12,50;\n05.06.2025;Refund;;3,00', ';');
+    const mapping = withMappingDefaults({
+      hasHeader: false, dateColumn: '1', dateFormat: 'DD.MM.YYYY', merchantColumn: '2',
+      debitColumn: '3', creditColumn: '4', decimalComma: true,
+    });
+
+    expect(mapCsvRows(rows, mapping).rows.map(row => row.amount)).toEqual([-12.5, 3]);
+    expect(mapCsvRows(rows, { ...mapping, invertAmounts: true }).rows.map(row => row.amount)).toEqual([12.5, -3]);
+  });
+
+  it('reports unusable rows by line and keeps the rest', () => {
+    const rows = parseCsv('Date,Payee,Amount\n2025-06-31,Shop,-1\n2025-06-04,,0\n2025-06-04,Cafe,-4.50');
+    const result = mapCsvRows(rows, withMappingDefaults({ dateColumn: 'Date', merchantColumn: 'Payee', amountColumn: 'Amount' }));
+
+    expect(result.rows.map(row => row.merchant)).toEqual(['Cafe']);
+    expect(result.issues.map(issue => [issue.line, issue.field])).toEqual([[2, 'date'], [3, 'merchant'], [3, 'amount']]);
+  });
+
+  it('fails as a whole when a mapped column is missing', () => {
+    const rows = parseCsv('Date,Amount\n2025-06-04,-1');
+    expect(mapCsvRows(rows, withMappingDefaults({ dateColumn: 'Date', merchantColumn: 'Payee', amountColumn: 'Amount' }))).toEqual({
+      rows: [],
+      issues: [{ line: 0, field: 'merchant', message: 'Column "Payee" not found' }],
+    });
+  });
+});
+
+describe('parseCsvProfileInput', () => {
+  it('requires exactly one way of reading the amount', () => {
+    const base = { dateColumn: 'Date', merchantColumn: 'Payee' };
+    expect(parseCsvProfileInput(base, false).error).toMatch(/amount column/);
+    expect(parseCsvProfileInput({ ...base, amountColumn: 'Amount', debitColumn: 'Out' }, false).error).toMatch(/either amountColumn/);
+    expect(parseCsvProfileInput({ ...base, debitColumn: 'Out', creditColumn: 'In' }, false).error).toBeUndefined();
+  });
+
+  it('rejects unknown formats and delimiters', () => {
+    const base = { dateColumn: 'Date', merchantColumn: 'Payee', amountColumn: 'Amount' };
+    expect(parseCsvProfileInput({ ...base, dateFormat: 'YYYY.MM.DD' }, false).error).toMatch(/Date format/);
+    expect(parseCsvProfileInput({ ...base, delimiter: ':' }, false).error).toMatch(/Delimiter/);
+  });
+});
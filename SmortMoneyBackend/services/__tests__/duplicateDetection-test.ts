@@ -0,0 +1,79 @@
+import { merchantsSimilar, isLikelyDuplicate, findDuplicateIn, findExistingDuplicate, DuplicateCandidate } from '../duplicateDetection';
+import { fakePrismaClient } from '../../testSupport/fakePrismaClient';
+
+const stored: DuplicateCandidate = {
+  merchant: 'STARBUCKS #1234',
+  amountCents: 475,
+  direction: 'expense',
+  date: new Date('2025-06-14T00:00:00Z'),
+  accountId: 'checking',
+};
+
+describe('merchantsSimilar', () => {
+  it('matches the same merchant written differently', () => {
+    expect(merchantsSimilar('STARBUCKS #1234', 'Starbucks 0567')).toBe(true);
+    expect(merchantsSimilar('STARBUCKS', 'Starbucks Coffee Seattle')).toBe(true);
+    expect(merchantsSimilar('Corner Grocery Main St', 'The Corner Grocery')).toBe(true);
+  });
+
+  it('does not match different merchants or empty keys', () => {
+    expect(merchantsSimilar('Starbucks', 'Blue Bottle Coffee')).toBe(false);
+    expect(merchantsSimilar('#1234', '#1234')).toBe(false);
+  });
+});
+
+describe('isLikelyDuplicate', () => {
+  it('matches a repeat posted a few days later', () => {
+    expect(isLikelyDuplicate({ ...stored, merchant: 'Starbucks', date: new Date('2025-06-17T00:00:00Z') }, stored)).toBe(true);
+  });
+
+  it('needs the same amount, direction and account', () => {
+    expect(isLikelyDuplicate({ ...stored, amountCents: 476 }, stored)).toBe(false);
+    expect(isLikelyDuplicate({ ...stored, direction: 'income' }, stored)).toBe(false);
+    expect(isLikelyDuplicate({ ...stored, accountId: 'savings' }, stored)).toBe(false);
+    expect(isLikelyDuplicate({ ...stored, accountId: null }, stored)).toBe(true);
+  });
+
+  it('ignores rows outside the date window', () => {
+    expect(isLikelyDuplicate({ ...stored, date: new Date('2025-06-18T00:00:00Z') }, stored)).toBe(false);
+  });
+});
+
+describe('findDuplicateIn', () => {
+  it('returns the first duplicate in the pool', () => {
+    const pool = [{ ...stored, id: 'a', merchant: 'Blue Bottle' }, { ...stored, id: 'b' }, { ...stored, id: 'c' }];
+    expect(findDuplicateIn(stored, pool)?.id).toBe('b');
+    expect(findDuplicateIn(stored, [])).toBeNull();
+  });
+});
+
+describe('findExistingDuplicate', () => {
+  it('queries the amount and date window and checks the merchant', async () => {
+    const { client, calls } = fakePrismaClient({
+      transaction: { findMany: () => [{ ...stored, id: 'tx-1', merchant: 'Other Shop' }, { ...stored, id: 'tx-2' }] },
+    });
+
+    const duplicate = await findExistingDuplicate(client, 'user-1', { ...stored, merchant: 'Starbucks' });
+
+    expect(duplicate?.id).toBe('tx-2');
+    expect(calls[0].args).toEqual(expect.objectContaining({
+      where: {
+        userId: 'user-1',
+        amountCents: 475,
+        date: { gte: new Date('2025-06-11T00:00:00Z'), lte: new Date('2025-06-17T00:00:00Z') },
+      },
+    }));
+  });
+});
+
+describe('findExistingDuplicate for statement rows', () => {
+  it('leaves out rows of the account that came from a statement', async () => {
+    const { client, calls } = fakePrismaClient();
+
+    await findExistingDuplicate(client, 'user-1', { ...stored, fitId: 'FIT-2' });
+
+    expect(calls[0].args).toEqual(expect.objectContaining({
+      where: expect.objectContaining({ NOT: { accountId: 'checking', fitId: { not: null } } }),
+    }));
+  });
+});
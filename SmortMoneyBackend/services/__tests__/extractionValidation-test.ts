@@ -0,0 +1,101 @@
+import { validateExtractedTransactions, implausibleDateReason, reviewReasonFor, matchCategoryName, UNKNOWN_MERCHANT } from '../extractionValidation';
+
+const uploadedAt = new Date('2025-06-14T15:00:00Z');
+const categories = ['Groceries', 'Dining Out'];
+
+describe('validateExtractedTransactions', () => {
+  it('keeps valid rows and uses the stored category name', () => {
+    const { transactions, issues } = validateExtractedTransactions([
+      { merchant: ' Corner Grocery ', amount: -23.47, direction: 'expense', date: '2025-06-13', category: 'groceries', items: [] },
+    ], uploadedAt, categories);
+
+    expect(issues).toEqual([]);
+    expect(transactions).toEqual([{
+      merchant: 'Corner Grocery',
+      amount: -23.47,
+      direction: 'expense',
+      date: '2025-06-13',
+      category: 'Groceries',
+      items: [],
+      reviewReason: null,
+    }]);
+  });
+
+  it('drops rows without a usable amount or with a malformed or implausible date', () => {
+    const { transactions, issues } = validateExtractedTransactions([
+      { merchant: 'A', amount: 0, date: '2025-06-13' },
+      { merchant: 'B', amount: '12', date: '2025-06-13' },
+      { merchant: 'C', amount: -1, date: '2025-02-30' },
+      { merchant: 'D', amount: -1, date: '2025-12-24' },
+      { merchant: 'E', amount: -1, date: '2022-12-31' },
+      'not a row',
+    ], uploadedAt, categories);
+
+    expect(transactions).toEqual([]);
+    expect(issues.map(issue => [issue.index, issue.field, issue.dropped])).toEqual([
+      [0, 'amount', true],
+      [1, 'amount', true],
+      [2, 'date', true],
+      [3, 'date', true],
+      [4, 'date', true],
+      [5, 'row', true],
+    ]);
+  });
+
+  it('fills in a missing merchant or date and marks the row for review', () => {
+    const { transactions, issues } = validateExtractedTransactions([
+      { merchant: '  ', amount: -5, date: null, category: null },
+    ], uploadedAt, categories);
+
+    expect(transactions).toEqual([expect.objectContaining({
+      merchant: UNKNOWN_MERCHANT,
+      date: '2025-06-14',
+      reviewReason: 'Merchant was missing, date was missing',
+    })]);
+    expect(issues.every(issue => !issue.dropped)).toBe(true);
+  });
+
+  it('clears an unknown category or direction without dropping the row', () => {
+    const { transactions, issues } = validateExtractedTransactions([
+      { merchant: 'Cafe', amount: -4.5, direction: 'refund', date: '2025-06-14', category: 'Coffee' },
+    ], uploadedAt, categories);
+
+    expect(transactions).toEqual([expect.objectContaining({ direction: null, category: null })]);
+    expect(issues.map(issue => issue.field)).toEqual(['direction', 'category']);
+  });
+
+  it('rejects a response that is not an array', () => {
+    expect(validateExtractedTransactions({ transactions: [] }, uploadedAt, categories)).toEqual({
+      transactions: [],
+      issues: [expect.objectContaining({ index: -1, field: 'response', dropped: true })],
+    });
+  });
+});
+
+describe('implausibleDateReason', () => {
+  it('allows a couple of days after the upload and two calendar years before it', () => {
+    expect(implausibleDateReason(new Date('2025-06-16T00:00:00Z'), uploadedAt)).toBeNull();
+    expect(implausibleDateReason(new Date('2023-01-01T00:00:00Z'), uploadedAt)).toBeNull();
+    expect(implausibleDateReason(new Date('2025-06-17T00:00:00Z'), uploadedAt)).toBe('Date is after the upload date');
+    expect(implausibleDateReason(new Date('2022-12-31T00:00:00Z'), uploadedAt)).toMatch(/more than 2 years/);
+  });
+});
+
+describe('reviewReasonFor', () => {
+  it('lists filled-in and low-confidence fields', () => {
+    expect(reviewReasonFor({ merchant: 0.95, amount: 0.4, date: 0.69 }, [])).toBe('Low confidence in amount (40%), low confidence in date (69%)');
+    expect(reviewReasonFor({ merchant: 0.1 }, ['merchant'])).toBe('Merchant was missing');
+  });
+
+  it('ignores scores that are missing or out of range', () => {
+    expect(reviewReasonFor(null, [])).toBeNull();
+    expect(reviewReasonFor({ amount: 7, date: 'low' }, [])).toBeNull();
+  });
+});
+
+describe('matchCategoryName', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(matchCategoryName(' dining out ', categories)).toBe('Dining Out');
+    expect(matchCategoryName('Dining', categories)).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import path from 'path';
+import { ImportDraft, Prisma } from '@prisma/client';
+import { extractTransactions } from '../extractionProvider';
+import { buildDrafts, commitDrafts, prepareImportRows, ImportRow } from '../importDrafts';
+import { accountBalanceEffect } from '../transferService';
+import { fakePrismaClient } from '../../testSupport/fakePrismaClient';
+
+// Upload -> drafts -> commit with the fake extraction provider and the bundled default.json.
+// The database starts empty apart from the user's categories and records what gets written.
+function fakeClient() {
+  return fakePrismaClient({
+    category: {
+      findMany: () => [
+        { id: 'cat-groceries', name: 'Groceries' },
+        { id: 'cat-transport', name: 'Transport' },
+        { id: 'cat-income', name: 'Income' },
+        { id: 'cat-transfer', name: 'Transfer' },
+      ],
+    },
+  });
+}
+
+// What the upload route stores for each draft create input
+function storedDrafts(inputs: Prisma.ImportDraftUncheckedCreateInput[]): ImportDraft[] {
+  return inputs.map(({ lineItems, ...input }, index) => ({
+    id: `draft-${index}`,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    description: null,
+    categoryId: null,
+    accountId: null,
+    duplicateReason: null,
+    duplicateOfId: null,
+    transactionId: null,
+    receiptId: 'receipt-1',
+    needsReview: false,
+    reviewReason: null,
+    ...input,
+    status: input.status ?? 'pending',
+    direction: input.direction ?? 'expense',
+    date: new Date(input.date),
+  }) as ImportDraft);
+}
+
+describe('import pipeline with the fake extraction provider', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.EXTRACTION_PROVIDER = 'fake';
+    process.env.EXTRACTION_FIXTURES_DIR = path.join(__dirname, '../../fixtures/extraction');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('dates the default fixture relative to the upload and commits every row', async () => {
+    // Years after the fixture was written, to catch dates that fall out of the plausible window
+    const uploadedAt = new Date('2031-03-10T12:00:00Z');
+    const categories = ['Groceries', 'Transport', 'Income'].map(name => ({ name, description: null, keywords: null }));
+    const { transactions: extracted, issues } = await extractTransactions(Buffer.from('any image'), 'image/png', { uploadedAt, categories });
+
+    expect(issues).toEqual([]);
+    expect(extracted.map(row => [row.merchant, row.date])).toEqual([
+      ['Corner Grocery', '2031-03-10'],
+      ['City Transit', '2031-03-10'],
+      ['Payroll Deposit', '2031-03-09'],
+    ]);
+
+    const { client, calls } = fakeClient();
+    const batch = { id: 'batch-1', accountId: null };
+    const drafts = await buildDrafts(client, 'user-1', batch, 0, extracted, []);
+
+    expect(drafts).toEqual([
+      expect.objectContaining({ merchant: 'Corner Grocery', amountCents: 2347, direction: 'expense', categoryId: 'cat-groceries', status: 'pending' }),
+      expect.objectContaining({ merchant: 'City Transit', amountCents: 275, categoryId: 'cat-transport', needsReview: true }),
+      expect.objectContaining({ merchant: 'Payroll Deposit', amountCents: 185000, direction: 'income', categoryId: 'cat-income' }),
+    ]);
+    expect(drafts[0].lineItems).toEqual({ create: expect.arrayContaining([expect.objectContaining({ description: 'Milk 2L' })]) });
+
+    const saved = await commitDrafts(client, 'user-1', { id: batch.id, drafts: storedDrafts(drafts) });
+
+    expect(saved.map(transaction => [transaction.merchant, transaction.amountCents, transaction.date.toISOString().slice(0, 10)])).toEqual([
+      ['Corner Grocery', 2347, '2031-03-10'],
+      ['City Transit', 275, '2031-03-10'],
+      ['Payroll Deposit', 185000, '2031-03-09'],
+    ]);
+    expect(saved.every(transaction => transaction.userId === 'user-1' && transaction.receiptId === 'receipt-1')).toBe(true);
+    const accepted = expect.objectContaining({ data: expect.objectContaining({ status: 'accepted' }) });
+    expect(calls.filter(call => call.model === 'importDraft').map(call => call.args)).toEqual([accepted, accepted, accepted]);
+    expect(calls.find(call => call.model === 'importBatch')?.args).toEqual(expect.objectContaining({
+      where: { id: 'batch-1', status: 'pending' },
+      data: expect.objectContaining({ status: 'committed' }),
+    }));
+  });
+
+  it('saves nothing when the batch was committed in the meantime', async () => {
+    const { transactions: extracted } = await extractTransactions(Buffer.from('any image'), 'image/png', { uploadedAt: new Date(), categories: [] });
+    const { client } = fakeClient();
+    const drafts = storedDrafts(await buildDrafts(client, 'user-1', { id: 'batch-1', accountId: null }, 0, extracted, []));
+    const { client: committedClient, calls: commitCalls } = fakePrismaClient({
+      importBatch: { update: () => { throw Object.assign(new Error('Record not found'), { code: 'P2025' }); } },
+    });
+
+    await expect(commitDrafts(committedClient, 'user-1', { id: 'batch-1', drafts })).rejects.toMatchObject({ code: 'P2025' });
+    expect(commitCalls.filter(call => call.model === 'transaction')).toEqual([]);
+  });
+
+  it('leaves rejected drafts out of the commit', async () => {
+    const uploadedAt = new Date();
+    const { transactions: extracted } = await extractTransactions(Buffer.from('any image'), 'image/png', { uploadedAt, categories: [] });
+    const { client } = fakeClient();
+    const drafts = storedDrafts(await buildDrafts(client, 'user-1', { id: 'batch-1', accountId: null }, 0, extracted, []));
+    drafts[1].status = 'rejected';
+
+    const saved = await commitDrafts(client, 'user-1', { id: 'batch-1', drafts });
+
+    expect(saved.map(transaction => transaction.merchant)).toEqual(['Corner Grocery', 'Payroll Deposit']);
+  });
+});
+
+describe('prepareImportRows', () => {
+  const row = (fields: Partial<ImportRow>): ImportRow => ({
+    merchant: 'Savings', amount: -100, direction: null, date: '2025-06-14', category: null, items: null, reviewReason: null, ...fields,
+  });
+
+  it('keeps the sign of transfers that are not linked to a second account, so they move the balance', async () => {
+    const { client } = fakeClient();
+    const prepared = await prepareImportRows(client, 'user-1', 'checking', [
+      row({ merchant: 'Card payment', amount: -250, category: 'Transfer' }),
+      row({ merchant: 'From savings', amount: 100, direction: 'transfer' }),
+    ], null);
+
+    expect(prepared.map(({ direction, categoryId }) => [direction, categoryId])).toEqual([
+      ['expense', 'cat-transfer'],
+      ['income', null],
+    ]);
+    const balanceCents = prepared.reduce((sum, transaction) => sum + accountBalanceEffect(transaction), 0);
+    expect(balanceCents).toBe(-15000);
+  });
+});
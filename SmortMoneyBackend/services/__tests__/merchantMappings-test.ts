@@ -0,0 +1,48 @@
+import { normalizeMerchant, learnMerchantCategory } from '../merchantMappings';
+import { fakePrismaClient } from '../../testSupport/fakePrismaClient';
+
+describe('normalizeMerchant', () => {
+  it('drops case, store numbers and punctuation', () => {
+    expect(normalizeMerchant('STARBUCKS #1234')).toBe('starbucks');
+    expect(normalizeMerchant('Starbucks 0567')).toBe('starbucks');
+  });
+
+  it('drops reference codes so each charge of a merchant shares one key', () => {
+    expect(normalizeMerchant('  AMZN Mktp US*2K4XY  ')).toBe('amzn mktp us');
+    expect(normalizeMerchant('AMZN Mktp US*7H1QA')).toBe('amzn mktp us');
+    expect(normalizeMerchant('AMAZON.COM MK1AB2 SEATTLE')).toBe('amazon com seattle');
+    expect(normalizeMerchant('SQ *BLUE BOTTLE')).toBe('sq blue bottle');
+  });
+
+  it("keeps letters of any script, ampersands and apostrophes", () => {
+    expect(normalizeMerchant("Ben & Jerry's")).toBe("ben & jerry's");
+    expect(normalizeMerchant('Café Zürich')).toBe('café zürich');
+  });
+
+  it('is empty for merchants without letters', () => {
+    expect(normalizeMerchant('#1234 / 56')).toBe('');
+  });
+});
+
+describe('learnMerchantCategory', () => {
+  const transaction = { merchant: 'STARBUCKS #1234', categoryId: 'coffee', transferId: null, splits: [] };
+
+  it('remembers a changed category under the normalized merchant', async () => {
+    const { client, calls } = fakePrismaClient();
+    await learnMerchantCategory(client, 'user-1', 'dining', transaction);
+    expect(calls).toEqual([{ model: 'merchantCategoryMapping', method: 'upsert', args: expect.objectContaining({
+      where: { userId_merchantKey: { userId: 'user-1', merchantKey: 'starbucks' } },
+      create: { userId: 'user-1', merchantKey: 'starbucks', merchant: 'STARBUCKS #1234', categoryId: 'coffee' },
+    }) }]);
+  });
+
+  it('ignores unchanged or cleared categories, transfer legs and split transactions', async () => {
+    const { client, calls } = fakePrismaClient();
+    await learnMerchantCategory(client, 'user-1', 'coffee', transaction);
+    await learnMerchantCategory(client, 'user-1', 'coffee', { ...transaction, categoryId: null });
+    await learnMerchantCategory(client, 'user-1', 'dining', { ...transaction, transferId: 'transfer-1' });
+    await learnMerchantCategory(client, 'user-1', 'dining', { ...transaction, splits: [{}] });
+    await learnMerchantCategory(client, 'user-1', 'dining', { ...transaction, merchant: '#1234' });
+    expect(calls).toEqual([]);
+  });
+});
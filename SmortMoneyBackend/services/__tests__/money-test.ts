@@ -0,0 +1,81 @@
+import { toCents, fromCents, decimalFieldName, centsToDecimal } from '../money';
+
+describe('toCents', () => {
+  it('converts decimal amounts to whole cents', () => {
+    expect(toCents(12.34)).toBe(1234);
+    expect(toCents(0)).toBe(0);
+    expect(toCents(-7.5)).toBe(-750);
+  });
+
+  it('rounds away float noise instead of truncating it', () => {
+    expect(toCents(1.005)).toBe(101); // 1.005 * 100 is 100.49999999999999
+    expect(toCents(0.1 + 0.2)).toBe(30);
+    expect(toCents(19.99)).toBe(1999);
+  });
+
+  it('rounds amounts with more than two decimals to the nearest cent', () => {
+    expect(toCents(2.344)).toBe(234);
+    expect(toCents(2.346)).toBe(235);
+  });
+});
+
+describe('fromCents', () => {
+  it('converts cents back to a decimal amount', () => {
+    expect(fromCents(1234)).toBe(12.34);
+    expect(fromCents(-5)).toBe(-0.05);
+  });
+
+  it('sums exactly where floats drift', () => {
+    const amounts = Array.from({ length: 1000 }, () => 0.1);
+    const floatSum = amounts.reduce((sum, amount) => sum + amount, 0);
+    const centsSum = amounts.reduce((sum, amount) => sum + toCents(amount), 0);
+    expect(floatSum).not.toBe(100);
+    expect(fromCents(centsSum)).toBe(100);
+  });
+});
+
+describe('decimalFieldName', () => {
+  it('strips the Cents suffix', () => {
+    expect(decimalFieldName('amountCents')).toBe('amount');
+    expect(decimalFieldName('openingBalanceCents')).toBe('openingBalance');
+  });
+
+  it('returns null for other fields', () => {
+    expect(decimalFieldName('amount')).toBeNull();
+    expect(decimalFieldName('Cents')).toBeNull();
+  });
+});
+
+describe('centsToDecimal', () => {
+  it('renames and converts cents fields at any depth', () => {
+    const body = {
+      amountCents: 1999,
+      splits: [{ amountCents: 999 }, { amountCents: 1000 }],
+      account: { openingBalanceCents: 0, ledgerBalanceCents: null },
+    };
+    expect(centsToDecimal(body)).toEqual({
+      amount: 19.99,
+      splits: [{ amount: 9.99 }, { amount: 10 }],
+      account: { openingBalance: 0, ledgerBalance: null },
+    });
+  });
+
+  it('leaves dates, other fields and non-number cents values alone', () => {
+    const date = new Date('2025-06-14T00:00:00Z');
+    const result = centsToDecimal({ date, merchant: 'Cafe', transactionCount: 3, noteCents: 'n/a' });
+    expect(result.date).toBe(date);
+    expect(result).toEqual({ date, merchant: 'Cafe', transactionCount: 3, noteCents: 'n/a' });
+  });
+
+  it('does not modify its input', () => {
+    const body = { amountCents: 100 };
+    centsToDecimal(body);
+    expect(body).toEqual({ amountCents: 100 });
+  });
+
+  it('passes primitives and null through', () => {
+    expect(centsToDecimal(null)).toBeNull();
+    expect(centsToDecimal('text')).toBe('text');
+    expect(centsToDecimal(42)).toBe(42);
+  });
+});
@@ -0,0 +1,139 @@
+import { parseOfx, parseOfxDate, OfxParseError } from '../ofxImport';
+
+// OFX 1.x: SGML header, leaf elements without closing tags
+const SGML_HEADER = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+`;
+
+function sgmlStatement(transactions: string, ledger = '<LEDGERBAL><BALAMT>1500.25<DTASOF>20250630120000[-5:EST]</LEDGERBAL>') {
+  return `${SGML_HEADER}
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20250630<LANGUAGE>ENG</SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><TRNUID>1<STATUS><CODE>0<SEVERITY>INFO</STATUS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>121000248<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20250601<DTEND>20250630
+${transactions}
+</BANKTRANLIST>
+${ledger}
+</STMTRS>
+</STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+}
+
+describe('parseOfx', () => {
+  it('reads an SGML bank statement', () => {
+    const [statement] = parseOfx(sgmlStatement(`
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250614<TRNAMT>-23.47<FITID>A1<NAME>CORNER GROCERY<MEMO>POS PURCHASE</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250613120000.000[-5:EST]<TRNAMT>1850.00<FITID>A2<NAME>PAYROLL</STMTTRN>
+`));
+
+    expect(statement.accountNumber).toBe('000123456789');
+    expect(statement.currency).toBe('USD');
+    expect(statement.issues).toEqual([]);
+    expect(statement.transactions).toEqual([
+      expect.objectContaining({ fitId: 'A1', merchant: 'CORNER GROCERY', amount: -23.47, date: '2025-06-14', description: 'POS PURCHASE' }),
+      expect.objectContaining({ fitId: 'A2', merchant: 'PAYROLL', amount: 1850, date: '2025-06-13', description: null }),
+    ]);
+    expect(statement.ledgerBalance).toEqual({ amount: 1500.25, asOf: '2025-06-30' });
+  });
+
+  it('keeps reading a row after an empty leaf', () => {
+    const [statement] = parseOfx(sgmlStatement(`
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250614<MEMO>
+<NAME>
+<TRNAMT>-9.99<FITID>B1<CHECKNUM>1042</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250615<NAME><TRNAMT>-4.50<FITID>B2<MEMO>COFFEE SHOP</STMTTRN>
+`));
+
+    expect(statement.issues).toEqual([]);
+    expect(statement.transactions).toEqual([
+      expect.objectContaining({ fitId: 'B1', merchant: 'Check 1042', amount: -9.99, description: null }),
+      expect.objectContaining({ fitId: 'B2', merchant: 'COFFEE SHOP', amount: -4.5, description: null }),
+    ]);
+  });
+
+  it('decodes decimal and hexadecimal character references', () => {
+    const [statement] = parseOfx(sgmlStatement(`
+<STMTTRN><DTPOSTED>20250614<TRNAMT>-12.00<FITID>C1<NAME>BEN &#38; JERRY&#x27;S<MEMO>CAF&#xE9; &amp; MORE</STMTTRN>
+`));
+
+    expect(statement.transactions[0]).toEqual(expect.objectContaining({
+      merchant: "BEN & JERRY'S",
+      description: 'CAFé & MORE',
+    }));
+  });
+
+  it('reads an XML credit card statement with a PAYEE aggregate', () => {
+    const [statement] = parseOfx(`<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <CCSTMTRS>
+        <CURDEF>EUR</CURDEF>
+        <CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20250702</DTPOSTED>
+            <TRNAMT>-45,10</TRNAMT>
+            <FITID>X1</FITID>
+            <PAYEE><NAME>BOOKSHOP</NAME><CITY>BERLIN</CITY></PAYEE>
+            <MEMO></MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`);
+
+    expect(statement.accountNumber).toBe('4111111111111111');
+    expect(statement.currency).toBe('EUR');
+    expect(statement.ledgerBalance).toBeNull();
+    expect(statement.transactions).toEqual([
+      expect.objectContaining({ fitId: 'X1', merchant: 'BOOKSHOP', amount: -45.1, date: '2025-07-02', description: null }),
+    ]);
+  });
+
+  it('reports unusable rows and keeps a repeated FITID once', () => {
+    const [statement] = parseOfx(sgmlStatement(`
+<STMTTRN><DTPOSTED>20250614<TRNAMT>-1.00<FITID>D1<NAME>FIRST</STMTTRN>
+<STMTTRN><DTPOSTED>20250614<TRNAMT>-1.00<FITID>D1<NAME>FIRST AGAIN</STMTTRN>
+<STMTTRN><DTPOSTED>20251340<TRNAMT>0<NAME>BROKEN</STMTTRN>
+`));
+
+    expect(statement.transactions.map(row => row.merchant)).toEqual(['FIRST']);
+    expect(statement.issues.map(issue => [issue.index, issue.field])).toEqual([
+      [2, 'fitId'],
+      [2, 'date'],
+      [2, 'amount'],
+    ]);
+  });
+
+  it('rejects text that is not OFX', () => {
+    expect(() => parseOfx('Date,Amount\n2025-06-14,-1.00')).toThrow(OfxParseError);
+  });
+});
+
+describe('parseOfxDate', () => {
+  it('keeps the calendar date of an OFX date-time', () => {
+    expect(parseOfxDate('20250614')).toBe('2025-06-14');
+    expect(parseOfxDate('20250614235959.999[+9:JST]')).toBe('2025-06-14');
+  });
+
+  it('rejects impossible and malformed dates', () => {
+    expect(parseOfxDate('20250231')).toBeNull();
+    expect(parseOfxDate('2025-06-14')).toBeNull();
+    expect(parseOfxDate(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { reconcileStatement, splitPdfPages, extractStatement, StatementReadError, MAX_STATEMENT_PAGES } from '../statementExtraction';
+import { ValidatedTransaction } from '../extractionValidation';
+
+function row(amount: number): ValidatedTransaction {
+  return { merchant: 'Shop', amount, direction: null, date: '2025-06-14', category: null, items: null, reviewReason: null };
+}
+
+async function pdfWithPages(count: number): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  for (let index = 0; index < count; index++) document.addPage();
+  return Buffer.from(await document.save());
+}
+
+describe('reconcileStatement', () => {
+  it('balances when the rows account for the balance movement', () => {
+    expect(reconcileStatement({ openingBalance: 100, closingBalance: 80.3 }, [row(-0.1), row(-0.2), row(-19.4)])).toEqual({
+      openingBalanceCents: 10000,
+      closingBalanceCents: 8030,
+      extractedTotalCents: -1970,
+      differenceCents: 0,
+      balanced: true,
+    });
+  });
+
+  it('reports the difference when a row is missing', () => {
+    expect(reconcileStatement({ openingBalance: 100, closingBalance: 50 }, [row(-20)])).toEqual(
+      expect.objectContaining({ differenceCents: -3000, balanced: false })
+    );
+  });
+
+  it('reverses the movement on a credit card statement, where spending raises the amount owed', () => {
+    expect(reconcileStatement({ openingBalance: 100, closingBalance: 150 }, [row(-40), row(-10)], 'credit')).toEqual(
+      expect.objectContaining({ extractedTotalCents: -5000, differenceCents: 0, balanced: true })
+    );
+    expect(reconcileStatement({ openingBalance: 100, closingBalance: 150 }, [row(-40), row(-10)])).toEqual(
+      expect.objectContaining({ differenceCents: 10000, balanced: false })
+    );
+  });
+
+  it('skips reconciliation without both balances', () => {
+    expect(reconcileStatement({ openingBalance: 100, closingBalance: null }, [row(-20)])).toBeNull();
+  });
+});
+
+describe('splitPdfPages', () => {
+  it('returns one single-page PDF per page', async () => {
+    const pages = await splitPdfPages(await pdfWithPages(3));
+    expect(pages).toHaveLength(3);
+    for (const page of pages) {
+      expect((await PDFDocument.load(page)).getPageCount()).toBe(1);
+    }
+  });
+
+  it('rejects unreadable and overlong documents', async () => {
+    await expect(splitPdfPages(Buffer.from('not a pdf'))).rejects.toThrow(StatementReadError);
+    await expect(splitPdfPages(await pdfWithPages(MAX_STATEMENT_PAGES + 1))).rejects.toThrow(/at most 20/);
+  });
+});
+
+describe('extractStatement with the fake provider', () => {
+  const uploadedAt = new Date('2025-06-14T15:00:00Z');
+  const env = { ...process.env };
+  let fixturesDir: string;
+
+  beforeEach(() => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statement-fixtures-'));
+    fs.writeFileSync(path.join(fixturesDir, 'default.json'), JSON.stringify([
+      { merchant: 'Corner Grocery', amount: -20, date: '2025-06-14', category: null },
+      { merchant: 'Bad row', amount: 0, date: '2025-06-14', category: null },
+    ]));
+    process.env.EXTRACTION_PROVIDER = 'fake';
+    process.env.EXTRACTION_FIXTURES_DIR = fixturesDir;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('extracts every page and numbers the issues by page', async () => {
+    const result = await extractStatement(await pdfWithPages(2), { uploadedAt, categories: [] });
+
+    expect(result.pageCount).toBe(2);
+    expect(result.transactions).toHaveLength(2);
+    expect(result.issues.map(issue => [issue.page, issue.field])).toEqual([[1, 'amount'], [2, 'amount']]);
+    expect(result.reconciliation).toBeNull();
+  });
+
+  it('marks every row for review when the statement does not balance', async () => {
+    fs.writeFileSync(path.join(fixturesDir, 'default.balances.json'), JSON.stringify({ openingBalance: 100, closingBalance: 50 }));
+
+    const result = await extractStatement(await pdfWithPages(2), { uploadedAt, categories: [] });
+
+    expect(result.reconciliation).toEqual(expect.objectContaining({ extractedTotalCents: -4000, differenceCents: -1000, balanced: false }));
+    expect(result.transactions.map(transaction => transaction.reviewReason)).toEqual([
+      "Statement doesn't balance, off by -10.00",
+      "Statement doesn't balance, off by -10.00",
+    ]);
+  });
+});
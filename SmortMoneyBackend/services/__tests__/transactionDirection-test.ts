@@ -0,0 +1,20 @@
+import { isTransactionDirection, directionFromSignedAmount, signedAmount } from '../transactionDirection';
+
+describe('transaction directions', () => {
+  it('knows expense, income and transfer', () => {
+    expect(['expense', 'income', 'transfer'].every(isTransactionDirection)).toBe(true);
+    expect(isTransactionDirection('refund')).toBe(false);
+    expect(isTransactionDirection(undefined)).toBe(false);
+  });
+
+  it('reads debits as expenses and credits as income', () => {
+    expect(directionFromSignedAmount(-4.75)).toBe('expense');
+    expect(directionFromSignedAmount(1850)).toBe('income');
+  });
+
+  it('signs stored magnitudes by direction and leaves transfers out of net amounts', () => {
+    expect(signedAmount(475, 'expense')).toBe(-475);
+    expect(signedAmount(185000, 'income')).toBe(185000);
+    expect(signedAmount(10000, 'transfer')).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+import { toExportTransaction, toCsv, toQif, ExportSourceTransaction, ExportTransaction } from '../transactionExport';
+
+const stored = (fields: Partial<ExportSourceTransaction>): ExportSourceTransaction => ({
+  id: 'tx-1',
+  date: new Date('2025-06-14T00:00:00Z'),
+  merchant: 'Corner Grocery',
+  amountCents: 2347,
+  direction: 'expense',
+  description: null,
+  accountId: 'checking',
+  category: { name: 'Groceries' },
+  account: { name: 'Checking', type: 'checking' },
+  transfer: null,
+  splits: [],
+  ...fields,
+});
+
+const transfer = { fromAccountId: 'checking', fromAccount: { name: 'Checking' }, toAccount: { name: 'Visa' } };
+
+describe('toExportTransaction', () => {
+  it('writes decimal amounts signed by direction, with names instead of ids', () => {
+    expect(toExportTransaction(stored({}))).toEqual({
+      id: 'tx-1',
+      date: '2025-06-14',
+      merchant: 'Corner Grocery',
+      amount: -23.47,
+      direction: 'expense',
+      category: 'Groceries',
+      account: 'Checking',
+      transferAccount: null,
+      description: null,
+      splits: [],
+    });
+    expect(toExportTransaction(stored({ direction: 'income', amountCents: 185000 })).amount).toBe(1850);
+  });
+
+  it('writes an unlinked transfer as 0, like the account balance counts it', () => {
+    expect(toExportTransaction(stored({ direction: 'transfer', category: null })).amount).toBe(0);
+  });
+
+  it('signs transfer legs by the account they are on and names the other account', () => {
+    const out = toExportTransaction(stored({ direction: 'transfer', category: null, transfer }));
+    const into = toExportTransaction(stored({ direction: 'transfer', category: null, accountId: 'visa', account: { name: 'Visa', type: 'credit' }, transfer }));
+
+    expect([out.amount, out.transferAccount]).toEqual([-23.47, 'Visa']);
+    expect([into.amount, into.transferAccount]).toEqual([23.47, 'Checking']);
+  });
+
+  it('signs split lines like the parent', () => {
+    const split = toExportTransaction(stored({
+      category: null,
+      splits: [
+        { amountCents: 2000, description: null, category: { name: 'Groceries' } },
+        { amountCents: 347, description: 'Deposit', category: null },
+      ],
+    }));
+    expect(split.splits).toEqual([
+      { category: 'Groceries', amount: -20, description: null },
+      { category: null, amount: -3.47, description: 'Deposit' },
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a header and quotes cells with commas, quotes or line breaks', () => {
+    const csv = toCsv([toExportTransaction(stored({ merchant: 'Joe\'s "Deli", Main St', description: 'two\nlines' }))]);
+    expect(csv).toBe(
+      'Date,Merchant,Amount,Direction,Category,Account,Description,Splits\r\n'
+      + '2025-06-14,"Joe\'s ""Deli"", Main St",-23.47,expense,Groceries,Checking,"two\nlines",\r\n'
+    );
+  });
+
+  it('keeps text that starts like a formula from running in a spreadsheet', () => {
+    const [, row] = toCsv([toExportTransaction(stored({ merchant: '=HYPERLINK("http://x")', description: '@SUM(A1)' }))]).split('\r\n');
+    expect(row).toBe('2025-06-14,"\'=HYPERLINK(""http://x"")",-23.47,expense,Groceries,Checking,\'@SUM(A1),');
+
+    const [, negative] = toCsv([toExportTransaction(stored({ merchant: '-Refund', description: '+1 555 0100' }))]).split('\r\n');
+    expect(negative).toBe('2025-06-14,\'-Refund,-23.47,expense,Groceries,Checking,\'+1 555 0100,');
+  });
+
+  it('lists split lines in the last column and names the account of a transfer', () => {
+    const rows = toCsv([
+      toExportTransaction(stored({ category: null, splits: [{ amountCents: 2347, description: null, category: null }] })),
+      toExportTransaction(stored({ direction: 'transfer', category: null, transfer })),
+    ]).split('\r\n');
+    expect(rows[1]).toBe('2025-06-14,Corner Grocery,-23.47,expense,,Checking,,Uncategorized: -23.47');
+    expect(rows[2]).toBe('2025-06-14,Corner Grocery,-23.47,transfer,Transfer: Visa,Checking,,');
+  });
+});
+
+describe('toQif', () => {
+  const exported = (fields: Partial<ExportTransaction>): ExportTransaction => ({
+    ...toExportTransaction(stored({})),
+    ...fields,
+  });
+
+  it('writes one section per account, unassigned transactions first as a bank register', () => {
+    const qif = toQif([
+      exported({ account: 'Visa', merchant: 'Cafe', amount: -4.5, category: null, transferAccount: null }),
+      exported({ account: null, description: 'Weekly shop' }),
+    ], new Map([['Visa', 'credit']]));
+
+    expect(qif.split('\r\n')).toEqual([
+      '!Type:Bank',
+      'D06/14/2025', 'T-23.47', 'PCorner Grocery', 'MWeekly shop', 'LGroceries', '^',
+      '!Account', 'NVisa', 'TCCard', '^',
+      '!Type:CCard',
+      'D06/14/2025', 'T-4.50', 'PCafe', '^',
+      '',
+    ]);
+  });
+
+  it('brackets the other account of a transfer and writes split lines', () => {
+    const qif = toQif([
+      exported({ category: null, transferAccount: 'Savings' }),
+      exported({ category: null, splits: [{ category: 'Groceries', amount: -20, description: 'Food' }, { category: null, amount: -3.47, description: null }] }),
+    ], new Map([['Checking', 'checking']]));
+
+    expect(qif).toContain('L[Savings]\r\n');
+    expect(qif).toContain('SGroceries\r\nEFood\r\n$-20.00\r\nS\r\n$-3.47\r\n^');
+  });
+});
@@ -0,0 +1,52 @@
+import { parseTransactionFieldUpdates } from '../transactionFields';
+
+describe('parseTransactionFieldUpdates', () => {
+  it('returns only the fields present in the body', () => {
+    expect(parseTransactionFieldUpdates({ merchant: ' Cafe ' })).toEqual({ data: { merchant: 'Cafe' }, fieldErrors: [] });
+    expect(parseTransactionFieldUpdates({})).toEqual({ data: {}, fieldErrors: [] });
+  });
+
+  it('stores amounts as positive cents and takes a negative amount without a direction as an expense', () => {
+    expect(parseTransactionFieldUpdates({ amount: '-12.34' }).data).toEqual({ amountCents: 1234, direction: 'expense' });
+    expect(parseTransactionFieldUpdates({ amount: 12.34 }).data).toEqual({ amountCents: 1234 });
+    expect(parseTransactionFieldUpdates({ amount: -5, direction: 'income' }).data).toEqual({ amountCents: 500, direction: 'income' });
+  });
+
+  it('clears nullable fields with null or an empty string', () => {
+    expect(parseTransactionFieldUpdates({ categoryId: '', accountId: null, description: '' }).data)
+      .toEqual({ categoryId: null, accountId: null, description: null });
+    expect(parseTransactionFieldUpdates({ description: ' Lunch with Sam ' }).data).toEqual({ description: 'Lunch with Sam' });
+  });
+
+  it('parses dates', () => {
+    expect(parseTransactionFieldUpdates({ date: '2025-06-14' }).data).toEqual({ date: new Date('2025-06-14') });
+  });
+
+  it('collects a problem per field instead of stopping at the first', () => {
+    const { data, fieldErrors } = parseTransactionFieldUpdates({
+      merchant: '  ',
+      amount: null,
+      direction: 'refund',
+      date: 'someday',
+      categoryId: 7,
+      accountId: {},
+      description: 3,
+    });
+
+    expect(data).toEqual({});
+    expect(fieldErrors.map(error => error.field)).toEqual(['merchant', 'amount', 'direction', 'date', 'categoryId', 'accountId', 'description']);
+  });
+});
+
+describe('parseTransactionFieldUpdates with the review flag', () => {
+  it('clears the reason when a transaction is marked as checked', () => {
+    expect(parseTransactionFieldUpdates({ needsReview: false }).data).toEqual({ needsReview: false, reviewReason: null });
+    expect(parseTransactionFieldUpdates({ needsReview: true }).data).toEqual({ needsReview: true });
+  });
+
+  it('only takes a boolean', () => {
+    expect(parseTransactionFieldUpdates({ needsReview: 'false' }).fieldErrors).toEqual([
+      { field: 'needsReview', message: 'needsReview must be a boolean' },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { parseTransactionFilters, parsePageParams, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../transactionQuery';
+
+describe('parseTransactionFilters', () => {
+  it('lists everything newest first by default, with id as a tie-breaker', () => {
+    expect(parseTransactionFilters({})).toEqual({ where: {}, orderBy: [{ date: 'desc' }, { id: 'desc' }], errors: [] });
+  });
+
+  it('includes the whole end day of a date range', () => {
+    const { where } = parseTransactionFilters({ startDate: '2025-06-01', endDate: '2025-06-30' });
+    expect(where).toEqual({ AND: [{ date: { gte: new Date('2025-06-01T00:00:00.000Z'), lte: new Date('2025-06-30T23:59:59.999Z') } }] });
+  });
+
+  it('reads lists as repeated or comma-separated parameters', () => {
+    const { where } = parseTransactionFilters({ accountId: ['checking', 'savings,visa'], direction: 'expense,income' });
+    expect(where).toEqual({ AND: [
+      { accountId: { in: ['checking', 'savings', 'visa'] } },
+      { direction: { in: ['expense', 'income'] } },
+    ] });
+  });
+
+  it('matches categories through split lines, and "uncategorized" through a missing category', () => {
+    const { where } = parseTransactionFilters({ categoryId: 'groceries,uncategorized' });
+    expect(where).toEqual({ AND: [{ OR: [
+      { categoryId: { in: ['groceries'] }, splits: { none: {} } },
+      { splits: { some: { categoryId: { in: ['groceries'] } } } },
+      { categoryId: null, splits: { none: {} } },
+      { splits: { some: { categoryId: null } } },
+    ] }] });
+  });
+
+  it('filters amounts in cents and merchants by substring', () => {
+    const { where } = parseTransactionFilters({ minAmount: '10', maxAmount: '25.5', merchant: ' coffee ' });
+    expect(where).toEqual({ AND: [
+      { amountCents: { gte: 1000, lte: 2550 } },
+      { merchant: { contains: 'coffee' } },
+    ] });
+  });
+
+  it('sorts by the stored column', () => {
+    expect(parseTransactionFilters({ sortBy: 'amount', sortOrder: 'ASC' }).orderBy).toEqual([{ amountCents: 'asc' }, { id: 'asc' }]);
+  });
+
+  it('collects every invalid parameter', () => {
+    const { errors } = parseTransactionFilters({
+      startDate: 'soon', minAmount: 'lots', direction: 'refund', sortBy: 'category', sortOrder: 'up',
+    });
+    expect(errors).toEqual([
+      'Invalid startDate parameter',
+      'Invalid minAmount parameter',
+      'Invalid direction parameter (expected expense, income or transfer)',
+      'Invalid sortBy parameter (expected one of date, amount, merchant, createdAt)',
+      'Invalid sortOrder parameter (expected asc or desc)',
+    ]);
+  });
+});
+
+describe('parsePageParams', () => {
+  it('passes the cursor through and caps the page size', () => {
+    const errors: string[] = [];
+    expect(parsePageParams({}, errors)).toEqual({ take: DEFAULT_PAGE_SIZE, cursor: undefined });
+    expect(parsePageParams({ limit: '20', cursor: 'tx-41' }, errors)).toEqual({ take: 20, cursor: 'tx-41' });
+    expect(parsePageParams({ limit: '5000' }, errors)).toEqual({ take: MAX_PAGE_SIZE, cursor: undefined });
+    expect(errors).toEqual([]);
+  });
+
+  it('reports a limit that is not a positive number', () => {
+    const errors: string[] = [];
+    parsePageParams({ limit: '0' }, errors);
+    parsePageParams({ limit: 'all' }, errors);
+    expect(errors).toEqual(['Invalid limit parameter', 'Invalid limit parameter']);
+  });
+});
+
+describe('parseTransactionFilters with the review flag', () => {
+  it('lists flagged transactions or the rest', () => {
+    expect(parseTransactionFilters({ needsReview: 'true' }).where).toEqual({ AND: [{ needsReview: true }] });
+    expect(parseTransactionFilters({ needsReview: 'false' }).where).toEqual({ AND: [{ needsReview: false }] });
+    expect(parseTransactionFilters({ needsReview: 'yes' }).errors).toEqual(['Invalid needsReview parameter (expected true or false)']);
+  });
+});
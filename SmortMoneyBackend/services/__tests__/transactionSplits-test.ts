@@ -0,0 +1,67 @@
+import { parseSplits, resolveSplitUpdate, groupSplitLines } from '../transactionSplits';
+
+describe('parseSplits', () => {
+  it('converts line amounts to cents and checks they add up to the parent', () => {
+    expect(parseSplits([
+      { categoryId: 'groceries', amount: 12.34, description: ' Food ' },
+      { categoryId: null, amount: '7.66' },
+    ], 2000)).toEqual({
+      splits: [
+        { categoryId: 'groceries', amountCents: 1234, description: 'Food' },
+        { categoryId: null, amountCents: 766, description: null },
+      ],
+    });
+  });
+
+  it('adds up float amounts exactly', () => {
+    expect(parseSplits([{ amount: 0.1 }, { amount: 0.2 }], 30).error).toBeUndefined();
+  });
+
+  it('rejects lines that are missing, single or off the total', () => {
+    expect(parseSplits({}, 100).error).toBe('Splits must be an array');
+    expect(parseSplits([{ amount: 1 }], 100).error).toMatch(/at least two lines/);
+    expect(parseSplits([{ amount: 1 }, { amount: 0 }], 100).error).toMatch(/Split 2: amount/);
+    expect(parseSplits([{ amount: 1 }, { amount: 2 }], 400).error).toBe('Splits add up to 3.00 but the transaction amount is 4.00');
+  });
+
+  it('treats an empty array as not split', () => {
+    expect(parseSplits([], 100)).toEqual({ splits: [] });
+  });
+});
+
+describe('resolveSplitUpdate', () => {
+  it('keeps stored lines that still match the amount', () => {
+    expect(resolveSplitUpdate(undefined, [{ amountCents: 60 }, { amountCents: 40 }], 100, 'expense'))
+      .toEqual({ splits: [], replace: false });
+  });
+
+  it('asks for new lines when only the amount changes', () => {
+    expect(resolveSplitUpdate(undefined, [{ amountCents: 60 }, { amountCents: 40 }], 150, 'expense').error)
+      .toMatch(/send updated splits/);
+  });
+
+  it('refuses to split a transfer', () => {
+    expect(resolveSplitUpdate([{ amount: 0.6 }, { amount: 0.4 }], [], 100, 'transfer').error)
+      .toBe('Transfers cannot be split across categories');
+  });
+});
+
+describe('groupSplitLines', () => {
+  it('totals lines per category and direction, counting each transaction once', () => {
+    const groups = groupSplitLines([
+      { transactionId: 't1', categoryId: 'groceries', amountCents: 500, direction: 'expense' },
+      { transactionId: 't1', categoryId: 'groceries', amountCents: 250, direction: 'expense' },
+      { transactionId: 't1', categoryId: 'household', amountCents: 300, direction: 'expense' },
+      { transactionId: 't2', categoryId: 'groceries', amountCents: 100, direction: 'expense' },
+      { transactionId: 't3', categoryId: 'groceries', amountCents: 900, direction: 'income' },
+      { transactionId: 't3', categoryId: null, amountCents: 50, direction: 'income' },
+    ]);
+
+    expect(groups).toEqual([
+      { categoryId: 'groceries', direction: 'expense', sum: 850, count: 2 },
+      { categoryId: 'household', direction: 'expense', sum: 300, count: 1 },
+      { categoryId: 'groceries', direction: 'income', sum: 900, count: 1 },
+      { categoryId: null, direction: 'income', sum: 50, count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { buildTransferLegs, syncTransferFields, accountBalanceEffect } from '../transferService';
+import { fakePrismaClient } from '../../testSupport/fakePrismaClient';
+
+const checking = { id: 'checking', name: 'Checking' };
+const visa = { id: 'visa', name: 'Visa' };
+
+describe('buildTransferLegs', () => {
+  it('builds an outgoing and an incoming leg that are neither spending nor income', () => {
+    const date = new Date('2025-06-14');
+    const [out, into] = buildTransferLegs('user-1', checking, visa, { amountCents: 30000, date, description: 'June payment' });
+
+    expect(out).toEqual(expect.objectContaining({ merchant: 'Transfer to Visa', amountCents: 30000, direction: 'transfer', account: { connect: { id: 'checking' } } }));
+    expect(into).toEqual(expect.objectContaining({ merchant: 'Transfer from Checking', amountCents: 30000, direction: 'transfer', account: { connect: { id: 'visa' } } }));
+    expect([out, into].every(leg => leg.date === date && leg.description === 'June payment')).toBe(true);
+  });
+});
+
+describe('syncTransferFields', () => {
+  it('writes the shared fields to the transfer and both legs', async () => {
+    const { client, calls } = fakePrismaClient();
+    await syncTransferFields(client, 'transfer-1', { amountCents: 2000, description: undefined });
+
+    expect(calls).toEqual([
+      { model: 'transfer', method: 'update', args: { where: { id: 'transfer-1' }, data: { amountCents: 2000 } } },
+      { model: 'transaction', method: 'updateMany', args: { where: { transferId: 'transfer-1' }, data: { amountCents: 2000 } } },
+    ]);
+  });
+
+  it('writes nothing when no shared field changed', async () => {
+    const { client, calls } = fakePrismaClient();
+    await syncTransferFields(client, 'transfer-1', {});
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('accountBalanceEffect', () => {
+  const leg = { amountCents: 30000, direction: 'transfer', transfer: { fromAccountId: 'checking' } };
+
+  it('takes a linked transfer out of the source account and into the destination', () => {
+    expect(accountBalanceEffect({ ...leg, accountId: 'checking' })).toBe(-30000);
+    expect(accountBalanceEffect({ ...leg, accountId: 'visa' })).toBe(30000);
+  });
+
+  it('follows the direction for everything else', () => {
+    expect(accountBalanceEffect({ amountCents: 475, direction: 'expense', accountId: 'checking' })).toBe(-475);
+    expect(accountBalanceEffect({ amountCents: 475, direction: 'income', accountId: 'checking', transfer: null })).toBe(475);
+  });
+});
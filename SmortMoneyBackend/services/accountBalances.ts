@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client';
+import { signedAmount } from './transactionDirection';
+
+export interface AccountBalance {
+  balanceCents: number;
+  transactionCount: number; // Transactions and transfers on the account
+}
+
+// Current balance per account: opening balance plus income minus expenses,
+// minus transfers out plus transfers in.
+// Credit accounts go negative as charges accumulate (the amount owed).
+// Summed in cents; the response middleware turns balanceCents into a decimal balance.
+export async function computeBalances(
+  client: Prisma.TransactionClient,
+  accounts: { id: string; openingBalanceCents: number }[]
+): Promise<Map<string, AccountBalance>> {
+  const accountIds = accounts.map(account => account.id);
+  const [groups, transfersOut, transfersIn] = await Promise.all([
+    // Linked transfer legs are counted from the Transfer table below
+    client.transaction.groupBy({
+      by: ['accountId', 'direction'],
+      where: { accountId: { in: accountIds }, transferId: null },
+      _sum: { amountCents: true },
+      _count: { _all: true },
+    }),
+    client.transfer.groupBy({
+      by: ['fromAccountId'],
+      where: { fromAccountId: { in: accountIds } },
+      _sum: { amountCents: true },
+      _count: { _all: true },
+    }),
+    client.transfer.groupBy({
+      by: ['toAccountId'],
+      where: { toAccountId: { in: accountIds } },
+      _sum: { amountCents: true },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const balances = new Map(accounts.map(account => [account.id, { balanceCents: account.openingBalanceCents, transactionCount: 0 }]));
+  for (const group of groups) {
+    const entry = group.accountId ? balances.get(group.accountId) : undefined;
+    if (!entry) continue;
+    entry.balanceCents += signedAmount(group._sum.amountCents ?? 0, group.direction);
+    entry.transactionCount += group._count._all;
+  }
+  for (const group of transfersOut) {
+    const entry = balances.get(group.fromAccountId);
+    if (!entry) continue;
+    entry.balanceCents -= group._sum.amountCents ?? 0;
+    entry.transactionCount += group._count._all;
+  }
+  for (const group of transfersIn) {
+    const entry = balances.get(group.toAccountId);
+    if (!entry) continue;
+    entry.balanceCents += group._sum.amountCents ?? 0;
+    entry.transactionCount += group._count._all;
+  }
+  return balances;
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+export const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Hashes a password as "salt:hash" (both hex) using scrypt from Node's crypto module
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const derived = await scrypt(password, salt, KEY_LENGTH);
+  return `${salt}:${derived.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [salt, hash] = storedHash.split(':');
+  if (!salt || !hash) return false;
+  const derived = await scrypt(password, salt, KEY_LENGTH);
+  const expected = Buffer.from(hash, 'hex');
+  return expected.length === derived.length && crypto.timingSafeEqual(expected, derived);
+}
+
+// Random bearer token handed to the client; only its hash is stored in the Session table
+export function generateSessionToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function hashSessionToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Starter categories for a new user; the receipt scanner suggests from whatever categories they have
+export const DEFAULT_CATEGORIES: { name: string; iconName: string }[] = [
+  { name: 'Groceries', iconName: 'cart' },
+  { name: 'Dining', iconName: 'silverware-fork-knife' },
+  { name: 'Transport', iconName: 'car' },
+  { name: 'Utilities', iconName: 'flash' },
+  { name: 'Entertainment', iconName: 'movie-open' },
+  { name: 'Shopping', iconName: 'shopping' },
+  { name: 'Income', iconName: 'cash-plus' },
+  { name: 'Transfer', iconName: 'bank-transfer' },
+  { name: 'Rent/Mortgage', iconName: 'home' },
+  { name: 'Fees', iconName: 'receipt' },
+  { name: 'Other', iconName: 'dots-horizontal' },
+];
@@ -0,0 +1,345 @@
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { centsToDecimal, decimalFieldName, toCents } from './money';
+
+// Versioned JSON backups of one user's data. Every table is exported with all of its scalar
+// fields, so new columns are picked up automatically; new models must be listed in
+// MODEL_COVERAGE (the type check fails until they are) as backed up or deliberately left out.
+// Money columns are written as decimal amounts under their API names (amountCents -> amount),
+// so archives don't depend on how amounts are stored.
+
+export const BACKUP_FORMAT = 'smortmoney-backup';
+// Bump when a change to the schema means older archives need converting on restore
+export const BACKUP_VERSION = 1;
+
+export const RESTORE_MODES = ['replace', 'merge'] as const;
+export type RestoreMode = typeof RESTORE_MODES[number];
+
+export function isRestoreMode(value: unknown): value is RestoreMode {
+  return typeof value === 'string' && (RESTORE_MODES as readonly string[]).includes(value);
+}
+
+type BackupRow = Record<string, unknown> & { id: string };
+
+interface BackupTable {
+  key: string; // Property of the archive's `data`
+  model: Prisma.ModelName;
+  fields: string[]; // Scalar fields of the model
+  // Foreign keys and the table (key) they point into; 'receipts' is checked against stored receipts
+  references: Record<string, string>;
+  owned: (userId: string) => object; // `where` matching the user's rows
+  omit?: string[]; // Fields left out of the archive and left empty on restore
+  // Rows that match an existing row on this key are merged into it instead of being added
+  naturalKey?: (row: Record<string, unknown>) => string;
+}
+
+// In insert order: every table only points into tables above it
+const BACKUP_TABLES: BackupTable[] = [
+  {
+    key: 'categories',
+    model: 'Category',
+    fields: Object.values(Prisma.CategoryScalarFieldEnum),
+    references: {},
+    owned: userId => ({ userId }),
+    naturalKey: row => String(row.name),
+  },
+  {
+    key: 'accounts',
+    model: 'Account',
+    fields: Object.values(Prisma.AccountScalarFieldEnum),
+    references: {},
+    owned: userId => ({ userId }),
+    naturalKey: row => String(row.name),
+  },
+  {
+    key: 'transfers',
+    model: 'Transfer',
+    fields: Object.values(Prisma.TransferScalarFieldEnum),
+    references: { fromAccountId: 'accounts', toAccountId: 'accounts' },
+    owned: userId => ({ userId }),
+  },
+  {
+    key: 'transactions',
+    model: 'Transaction',
+    fields: Object.values(Prisma.TransactionScalarFieldEnum),
+    references: { categoryId: 'categories', accountId: 'accounts', transferId: 'transfers', receiptId: 'receipts' },
+    owned: userId => ({ userId }),
+  },
+  {
+    key: 'transactionSplits',
+    model: 'TransactionSplit',
+    fields: Object.values(Prisma.TransactionSplitScalarFieldEnum),
+    references: { transactionId: 'transactions', categoryId: 'categories' },
+    owned: userId => ({ transaction: { userId } }),
+  },
+  {
+    key: 'transactionLineItems',
+    model: 'TransactionLineItem',
+    fields: Object.values(Prisma.TransactionLineItemScalarFieldEnum),
+    references: { transactionId: 'transactions' },
+    // Lines of drafts still under review aren't backed up, see MODEL_COVERAGE
+    owned: userId => ({ transaction: { userId } }),
+    omit: ['draftId'],
+  },
+  {
+    key: 'budgets',
+    model: 'Budget',
+    fields: Object.values(Prisma.BudgetScalarFieldEnum),
+    references: { categoryId: 'categories' },
+    owned: userId => ({ userId }),
+    naturalKey: row => `${row.categoryId}|${row.month}|${row.year}`,
+  },
+  {
+    key: 'categoryRules',
+    model: 'CategoryRule',
+    fields: Object.values(Prisma.CategoryRuleScalarFieldEnum),
+    references: { accountId: 'accounts', categoryId: 'categories' },
+    owned: userId => ({ userId }),
+  },
+  {
+    key: 'merchantMappings',
+    model: 'MerchantCategoryMapping',
+    fields: Object.values(Prisma.MerchantCategoryMappingScalarFieldEnum),
+    references: { categoryId: 'categories' },
+    owned: userId => ({ userId }),
+    naturalKey: row => String(row.merchantKey),
+  },
+  {
+    key: 'csvImportProfiles',
+    model: 'CsvImportProfile',
+    fields: Object.values(Prisma.CsvImportProfileScalarFieldEnum),
+    references: { accountId: 'accounts' },
+    owned: userId => ({ userId }),
+    naturalKey: row => String(row.name),
+  },
+];
+
+// Every model, and whether it's in the backup. Not backed up: sign-in data, screenshot files
+// (restored transactions keep their receipt only if it's still on this server) and imports
+// still under review.
+const MODEL_COVERAGE: Record<Prisma.ModelName, 'backed up' | 'excluded'> = {
+  Category: 'backed up',
+  Account: 'backed up',
+  Transfer: 'backed up',
+  Transaction: 'backed up',
+  TransactionSplit: 'backed up',
+  TransactionLineItem: 'backed up',
+  Budget: 'backed up',
+  CategoryRule: 'backed up',
+  MerchantCategoryMapping: 'backed up',
+  CsvImportProfile: 'backed up',
+  Receipt: 'excluded',
+  ImportBatch: 'excluded',
+  ImportDraft: 'excluded',
+  User: 'excluded',
+  Session: 'excluded',
+};
+
+const missingTable = (Object.keys(MODEL_COVERAGE) as Prisma.ModelName[])
+  .find(model => MODEL_COVERAGE[model] === 'backed up' && !BACKUP_TABLES.some(table => table.model === model));
+if (missingTable) {
+  throw new Error(`${missingTable} is marked as backed up but has no entry in BACKUP_TABLES`);
+}
+
+// Fields set from the restoring user rather than taken from the archive
+const OWNER_FIELDS = ['userId'];
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: Record<string, BackupRow[]>;
+}
+
+export interface BackupParseResult {
+  archive: BackupArchive | null;
+  error?: string;
+}
+
+export interface RestoreTableResult {
+  added: number;
+  skipped: number; // Already present (same id, or same name etc. in merge mode)
+}
+
+// Prisma model delegates share this shape; the tables are handled generically
+interface ModelDelegate {
+  findMany(args: object): Promise<Record<string, unknown>[]>;
+  createMany(args: { data: Record<string, unknown>[] }): Promise<{ count: number }>;
+  deleteMany(args: object): Promise<{ count: number }>;
+}
+
+function delegateFor(client: Prisma.TransactionClient, model: Prisma.ModelName): ModelDelegate {
+  const name = model.charAt(0).toLowerCase() + model.slice(1);
+  return (client as unknown as Record<string, ModelDelegate>)[name];
+}
+
+// Name of a column in the archive: money columns go by their decimal name
+const archiveFieldName = (field: string) => decimalFieldName(field) ?? field;
+
+// Turns the decimal amounts of an archive row back into the stored cents columns
+function restoreMoneyFields(table: BackupTable, row: Record<string, unknown>): Record<string, unknown> {
+  const restored = { ...row };
+  for (const field of table.fields) {
+    const decimalName = decimalFieldName(field);
+    if (!decimalName || !(decimalName in restored)) continue;
+    const value = restored[decimalName];
+    delete restored[decimalName];
+    // Anything but a number is left for Prisma to reject
+    restored[field] = typeof value === 'number' ? toCents(value) : value;
+  }
+  return restored;
+}
+
+/**
+ * Reads every backed-up table of the user. Owner columns are left out, so an archive can
+ * be restored into another user's account.
+ */
+export async function createBackup(client: Prisma.TransactionClient, userId: string): Promise<BackupArchive> {
+  const data: Record<string, BackupRow[]> = {};
+  for (const table of BACKUP_TABLES) {
+    const rows = await delegateFor(client, table.model).findMany({ where: table.owned(userId), orderBy: { id: 'asc' } });
+    data[table.key] = rows.map(row => {
+      const copy = { ...row };
+      for (const field of [...OWNER_FIELDS, ...(table.omit ?? [])]) delete copy[field];
+      return centsToDecimal(copy) as BackupRow;
+    });
+  }
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), data };
+}
+
+/**
+ * Checks an uploaded archive before anything is written: format and version, one array of
+ * rows per table, known fields only, unique ids, and foreign keys that point at rows of the
+ * archive. Tables missing from the archive are treated as empty.
+ */
+export function parseBackupArchive(body: unknown): BackupParseResult {
+  if (!body || typeof body !== 'object') {
+    return { archive: null, error: 'backup must be a SmortMoney backup object' };
+  }
+  const archive = body as Record<string, unknown>;
+  if (archive.format !== BACKUP_FORMAT) {
+    return { archive: null, error: `Not a SmortMoney backup (format must be "${BACKUP_FORMAT}")` };
+  }
+  if (typeof archive.version !== 'number' || !Number.isInteger(archive.version) || archive.version < 1) {
+    return { archive: null, error: 'Backup version must be a positive integer' };
+  }
+  if (archive.version > BACKUP_VERSION) {
+    return { archive: null, error: `Backup version ${archive.version} was made by a newer version of SmortMoney (this one reads up to ${BACKUP_VERSION})` };
+  }
+  const rawData = archive.data;
+  if (!rawData || typeof rawData !== 'object' || Array.isArray(rawData)) {
+    return { archive: null, error: 'Backup has no data object' };
+  }
+
+  const data: Record<string, BackupRow[]> = {};
+  const idsByTable = new Map<string, Set<string>>();
+  for (const table of BACKUP_TABLES) {
+    const rows = (rawData as Record<string, unknown>)[table.key] ?? [];
+    if (!Array.isArray(rows)) {
+      return { archive: null, error: `${table.key} must be an array` };
+    }
+    const ids = new Set<string>();
+    for (const [index, row] of rows.entries()) {
+      if (!row || typeof row !== 'object' || typeof row.id !== 'string' || !row.id) {
+        return { archive: null, error: `${table.key}[${index}] must be an object with a string id` };
+      }
+      if (ids.has(row.id)) {
+        return { archive: null, error: `${table.key}[${index}] repeats id ${row.id}` };
+      }
+      ids.add(row.id);
+      const unknownField = Object.keys(row)
+        .find(field => !table.fields.map(archiveFieldName).includes(field) || OWNER_FIELDS.includes(field) || table.omit?.includes(field));
+      if (unknownField) {
+        return { archive: null, error: `${table.key}[${index}] has unknown field ${unknownField}` };
+      }
+    }
+    idsByTable.set(table.key, ids);
+    data[table.key] = rows as BackupRow[];
+  }
+
+  // Foreign keys must point at rows of the archive (receipts aren't part of it)
+  for (const table of BACKUP_TABLES) {
+    for (const [index, row] of data[table.key].entries()) {
+      for (const [field, target] of Object.entries(table.references)) {
+        const value = row[field];
+        if (value === undefined || value === null || target === 'receipts') continue;
+        if (typeof value !== 'string' || !idsByTable.get(target)?.has(value)) {
+          return { archive: null, error: `${table.key}[${index}].${field} points at a missing ${target} row` };
+        }
+      }
+    }
+  }
+
+  return { archive: { format: BACKUP_FORMAT, version: archive.version, exportedAt: String(archive.exportedAt ?? ''), data } };
+}
+
+/**
+ * Writes a validated archive for the user; call inside a transaction. In "replace" mode the
+ * user's backed-up data is deleted first. In "merge" mode existing data is kept: rows whose id
+ * is already the user's, and categories, accounts, profiles, budgets and learned merchants
+ * with the same name (or month, or merchant), are skipped and links to them are kept.
+ * Ids taken by another user's rows are replaced by new ones.
+ */
+export async function restoreBackup(
+  client: Prisma.TransactionClient,
+  userId: string,
+  archive: BackupArchive,
+  mode: RestoreMode
+): Promise<Record<string, RestoreTableResult>> {
+  if (mode === 'replace') {
+    for (const table of [...BACKUP_TABLES].reverse()) {
+      await delegateFor(client, table.model).deleteMany({ where: table.owned(userId) });
+    }
+  }
+
+  const receipts = await client.receipt.findMany({ where: { userId }, select: { id: true } });
+  const receiptIds = new Set(receipts.map(receipt => receipt.id));
+  const idMaps = new Map<string, Map<string, string>>(); // Table key -> archive id -> stored id
+  const results: Record<string, RestoreTableResult> = {};
+
+  for (const table of BACKUP_TABLES) {
+    const delegate = delegateFor(client, table.model);
+    const rows = archive.data[table.key];
+    const idMap = new Map<string, string>();
+    idMaps.set(table.key, idMap);
+
+    const existing = await delegate.findMany({ where: table.owned(userId) });
+    const existingIds = new Set(existing.map(row => row.id as string));
+    const existingByKey = new Map(table.naturalKey ? existing.map(row => [table.naturalKey!(row), row.id as string]) : []);
+    // Ids of other users' rows can't be reused
+    const taken = await delegate.findMany({ where: { id: { in: rows.map(row => row.id) } }, select: { id: true } });
+    const takenIds = new Set(taken.map(row => row.id as string));
+
+    const toCreate: Record<string, unknown>[] = [];
+    for (const row of rows) {
+      const restored = restoreMoneyFields(table, row);
+      for (const [field, target] of Object.entries(table.references)) {
+        const value = row[field];
+        if (typeof value !== 'string') continue;
+        restored[field] = target === 'receipts'
+          ? (receiptIds.has(value) ? value : null)
+          : idMaps.get(target)?.get(value) ?? null;
+      }
+
+      if (existingIds.has(row.id)) {
+        idMap.set(row.id, row.id);
+        continue;
+      }
+      const match = table.naturalKey ? existingByKey.get(table.naturalKey(restored)) : undefined;
+      if (match) {
+        idMap.set(row.id, match);
+        continue;
+      }
+
+      const id = takenIds.has(row.id) ? randomUUID() : row.id;
+      idMap.set(row.id, id);
+      if (table.fields.includes('userId')) restored.userId = userId;
+      toCreate.push({ ...restored, id });
+    }
+
+    const { count } = toCreate.length > 0 ? await delegate.createMany({ data: toCreate }) : { count: 0 };
+    results[table.key] = { added: count, skipped: rows.length - toCreate.length };
+  }
+
+  return results;
+}
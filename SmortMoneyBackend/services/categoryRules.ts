@@ -0,0 +1,255 @@
+import { Prisma, CategoryRule } from '@prisma/client';
+import { toCents } from './money';
+
+// User-defined categorization rules. A rule matches when every condition it sets
+// (merchant pattern, amount range, account) holds; the first matching rule in
+// ascending priority decides the category.
+
+export const RULE_MATCH_TYPES = ['contains', 'regex'] as const;
+export type RuleMatchType = typeof RULE_MATCH_TYPES[number];
+
+// The parts of a transaction a rule looks at
+export interface RuleTarget {
+  merchant: string;
+  amountCents: number; // Positive magnitude
+  accountId: string | null;
+}
+
+// Validated rule fields from a create/update request
+export interface CategoryRuleInput {
+  priority?: number;
+  enabled?: boolean;
+  merchantPattern?: string | null;
+  matchType?: RuleMatchType;
+  minAmountCents?: number | null;
+  maxAmountCents?: number | null;
+  accountId?: string | null;
+  categoryId?: string;
+}
+
+export interface CategoryRuleParseResult {
+  data: CategoryRuleInput;
+  error?: string;
+}
+
+// Regex rules run against every imported row, so patterns are kept to a shape
+// whose backtracking stays bounded (see unsafePatternReason)
+const MAX_PATTERN_LENGTH = 200;
+const MAX_VARIABLE_REPEATS = 2;
+// Only the start of a merchant is tested against a regex rule
+const MAX_MATCHED_MERCHANT_LENGTH = 100;
+
+// Order in which rules are tried; ties go to the older rule
+export const RULE_ORDER: Prisma.CategoryRuleOrderByWithRelationInput[] = [{ priority: 'asc' }, { createdAt: 'asc' }];
+
+function isRuleMatchType(value: unknown): value is RuleMatchType {
+  return typeof value === 'string' && (RULE_MATCH_TYPES as readonly string[]).includes(value);
+}
+
+// Repeat count of the quantifier starting at `index`, if there is one
+function readQuantifier(pattern: string, index: number): { min: number; max: number; length: number } | null {
+  const char = pattern[index];
+  let quantifier: { min: number; max: number; length: number } | null = null;
+  if (char === '*') quantifier = { min: 0, max: Infinity, length: 1 };
+  else if (char === '+') quantifier = { min: 1, max: Infinity, length: 1 };
+  else if (char === '?') quantifier = { min: 0, max: 1, length: 1 };
+  else if (char === '{') {
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (braces) {
+      const min = parseInt(braces[1], 10);
+      const max = braces[2] === undefined ? min : braces[3] ? parseInt(braces[3], 10) : Infinity;
+      quantifier = { min, max, length: braces[0].length };
+    }
+  }
+  if (quantifier && pattern[index + quantifier.length] === '?') quantifier.length++; // Lazy
+  return quantifier;
+}
+
+/**
+ * Why a regex pattern could backtrack for a very long time on a non-matching
+ * merchant, or null when it is safe to run. Refuses backreferences, a repeated
+ * group that itself contains a repeat or alternatives, e.g. (a+)+ or (a|ab)*,
+ * and more than MAX_VARIABLE_REPEATS variable-length repeats in total.
+ */
+function unsafePatternReason(pattern: string): string | null {
+  const groups: { repeats: boolean; alternatives: boolean }[] = [];
+  let variableRepeats = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    let closedGroup: { repeats: boolean; alternatives: boolean } | undefined;
+    const char = pattern[i];
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'Merchant pattern cannot use backreferences';
+      i++;
+    } else if (char === '[') {
+      i++;
+      if (pattern[i] === '^') i++;
+      if (pattern[i] === ']') i++; // A leading ] is a literal
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternatives: false });
+      continue; // (?: and friends are not quantifiers
+    } else if (char === ')') {
+      closedGroup = groups.pop();
+      if (closedGroup && groups.length && (closedGroup.repeats || closedGroup.alternatives)) {
+        groups[groups.length - 1].repeats ||= closedGroup.repeats;
+        groups[groups.length - 1].alternatives ||= closedGroup.alternatives;
+      }
+    } else if (char === '|') {
+      if (groups.length) groups[groups.length - 1].alternatives = true;
+      continue;
+    }
+
+    const quantifier = readQuantifier(pattern, i + 1);
+    if (!quantifier) continue;
+    i += quantifier.length;
+    if (quantifier.max > 1 && closedGroup && (closedGroup.repeats || closedGroup.alternatives)) {
+      return 'Merchant pattern cannot repeat a group that contains a repeat or alternatives, e.g. (a+)+';
+    }
+    if (quantifier.max > quantifier.min) {
+      if (quantifier.max > 1 && ++variableRepeats > MAX_VARIABLE_REPEATS) {
+        return `Merchant pattern can use at most ${MAX_VARIABLE_REPEATS} variable-length repeats (*, + or {n,m})`;
+      }
+      if (groups.length) groups[groups.length - 1].repeats = true;
+    }
+  }
+  return null;
+}
+
+// Decimal amount from the request, in cents
+function parseOptionalAmount(name: string, value: unknown): { value?: number | null; error?: string } {
+  if (value === undefined) return {};
+  if (value === null || value === '') return { value: null };
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(num) || num < 0) {
+    return { error: `${name} must be a non-negative number or null` };
+  }
+  return { value: toCents(num) };
+}
+
+/**
+ * Validates the body of a rule create (`partial` false) or update (`partial` true) request.
+ * `existing` supplies the stored values so an update is checked as the rule it will become.
+ * Problems are returned in `error` instead of thrown, like parseSplits.
+ */
+export function parseCategoryRuleInput(
+  body: Record<string, unknown>,
+  partial: boolean,
+  existing?: CategoryRule
+): CategoryRuleParseResult {
+  const data: CategoryRuleInput = {};
+
+  if (body.categoryId !== undefined || !partial) {
+    if (!body.categoryId || typeof body.categoryId !== 'string') {
+      return { data, error: 'categoryId is required' };
+    }
+    data.categoryId = body.categoryId;
+  }
+  if (body.priority !== undefined) {
+    const priority = typeof body.priority === 'number' ? body.priority : parseInt(String(body.priority), 10);
+    if (!Number.isInteger(priority)) {
+      return { data, error: 'Priority must be an integer' };
+    }
+    data.priority = priority;
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { data, error: 'Enabled must be a boolean' };
+    }
+    data.enabled = body.enabled;
+  }
+  if (body.matchType !== undefined) {
+    if (!isRuleMatchType(body.matchType)) {
+      return { data, error: 'Match type must be one of contains or regex' };
+    }
+    data.matchType = body.matchType;
+  }
+  if (body.merchantPattern !== undefined) {
+    if (body.merchantPattern !== null && typeof body.merchantPattern !== 'string') {
+      return { data, error: 'Merchant pattern must be a string or null' };
+    }
+    data.merchantPattern = body.merchantPattern?.trim() || null;
+    if (data.merchantPattern && data.merchantPattern.length > MAX_PATTERN_LENGTH) {
+      return { data, error: `Merchant pattern can be at most ${MAX_PATTERN_LENGTH} characters` };
+    }
+  }
+  const minAmount = parseOptionalAmount('minAmount', body.minAmount);
+  const maxAmount = parseOptionalAmount('maxAmount', body.maxAmount);
+  if (minAmount.error || maxAmount.error) {
+    return { data, error: minAmount.error ?? maxAmount.error };
+  }
+  if (minAmount.value !== undefined) data.minAmountCents = minAmount.value;
+  if (maxAmount.value !== undefined) data.maxAmountCents = maxAmount.value;
+  if (body.accountId !== undefined) {
+    if (body.accountId !== null && typeof body.accountId !== 'string') {
+      return { data, error: 'Account ID must be a string or null' };
+    }
+    data.accountId = body.accountId || null;
+  }
+
+  // Check the rule as a whole, combining the update with the stored values
+  const merged = {
+    merchantPattern: data.merchantPattern !== undefined ? data.merchantPattern : existing?.merchantPattern ?? null,
+    matchType: data.matchType ?? existing?.matchType ?? 'contains',
+    minAmountCents: data.minAmountCents !== undefined ? data.minAmountCents : existing?.minAmountCents ?? null,
+    maxAmountCents: data.maxAmountCents !== undefined ? data.maxAmountCents : existing?.maxAmountCents ?? null,
+    accountId: data.accountId !== undefined ? data.accountId : existing?.accountId ?? null,
+  };
+  if (!merged.merchantPattern && merged.minAmountCents === null && merged.maxAmountCents === null && !merged.accountId) {
+    return { data, error: 'A rule needs at least one condition (merchant pattern, amount range or account)' };
+  }
+  if (merged.minAmountCents !== null && merged.maxAmountCents !== null && merged.minAmountCents > merged.maxAmountCents) {
+    return { data, error: 'minAmount cannot be greater than maxAmount' };
+  }
+  if (merged.matchType === 'regex' && merged.merchantPattern) {
+    try {
+      new RegExp(merged.merchantPattern, 'i');
+    } catch {
+      return { data, error: 'Merchant pattern is not a valid regular expression' };
+    }
+    const unsafe = unsafePatternReason(merged.merchantPattern);
+    if (unsafe) {
+      return { data, error: unsafe };
+    }
+  }
+
+  return { data };
+}
+
+function merchantMatches(rule: Pick<CategoryRule, 'merchantPattern' | 'matchType'>, merchant: string): boolean {
+  if (!rule.merchantPattern) return true;
+  if (rule.matchType === 'regex') {
+    // Rules saved before patterns were checked for backtracking never match
+    if (rule.merchantPattern.length > MAX_PATTERN_LENGTH || unsafePatternReason(rule.merchantPattern)) return false;
+    try {
+      return new RegExp(rule.merchantPattern, 'i').test(merchant.slice(0, MAX_MATCHED_MERCHANT_LENGTH));
+    } catch {
+      return false; // Patterns are validated on save, but never let a bad one break an upload
+    }
+  }
+  return merchant.toLowerCase().includes(rule.merchantPattern.toLowerCase());
+}
+
+// True when every condition the rule sets holds for the transaction
+export function ruleMatches(rule: CategoryRule, target: RuleTarget): boolean {
+  if (rule.accountId && rule.accountId !== target.accountId) return false;
+  if (rule.minAmountCents !== null && target.amountCents < rule.minAmountCents) return false;
+  if (rule.maxAmountCents !== null && target.amountCents > rule.maxAmountCents) return false;
+  return merchantMatches(rule, target.merchant);
+}
+
+// First matching rule; `rules` must already be in RULE_ORDER
+export function findMatchingRule(rules: CategoryRule[], target: RuleTarget): CategoryRule | null {
+  return rules.find(rule => ruleMatches(rule, target)) ?? null;
+}
+
+// The user's enabled rules in the order they are tried
+export function loadActiveRules(client: Prisma.TransactionClient, userId: string): Promise<CategoryRule[]> {
+  return client.categoryRule.findMany({
+    where: { userId, enabled: true },
+    orderBy: RULE_ORDER,
+  });
+}
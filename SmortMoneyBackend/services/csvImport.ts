@@ -0,0 +1,338 @@
+import { CsvImportProfile } from '@prisma/client';
+import { ImportRow } from './importDrafts';
+
+// Bank CSV exports. A mapping says which column holds the date, merchant, memo and amount
+// (one signed column, or separate debit and credit columns) and how dates and numbers are
+// written. Mappings can be saved per bank as CsvImportProfile rows.
+
+// Date formats a mapping can use; YYYY/YY year, MM/M month, DD/D day
+export const DATE_FORMATS = [
+  'YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'M/D/YYYY', 'D/M/YYYY',
+  'MM/DD/YY', 'DD/MM/YY', 'DD.MM.YYYY', 'YYYYMMDD',
+] as const;
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+// Mapping fields shared by a saved profile and a one-off import request
+export type CsvMapping = Pick<CsvImportProfile,
+  'delimiter' | 'hasHeader' | 'dateColumn' | 'dateFormat' | 'merchantColumn' | 'memoColumn'
+  | 'amountColumn' | 'debitColumn' | 'creditColumn' | 'invertAmounts' | 'decimalComma'>;
+
+// Validated profile fields from a create/update request
+export type CsvProfileInput = Partial<CsvMapping> & { name?: string; accountId?: string | null };
+
+export interface CsvProfileParseResult {
+  data: CsvProfileInput;
+  error?: string;
+}
+
+export interface CsvRowIssue {
+  line: number; // 1-based row in the file, counting the header but not blank lines
+  field: string;
+  message: string;
+  data?: string[]; // The row's cells
+}
+
+// One mapped CSV line, ready for prepareImportRows
+export interface CsvImportRow extends ImportRow {
+  line: number;
+}
+
+export interface CsvMappingResult {
+  rows: CsvImportRow[];
+  issues: CsvRowIssue[];
+}
+
+const MAPPING_DEFAULTS: Omit<CsvMapping, 'dateColumn' | 'merchantColumn'> = {
+  delimiter: ',',
+  hasHeader: true,
+  dateFormat: 'YYYY-MM-DD',
+  memoColumn: null,
+  amountColumn: null,
+  debitColumn: null,
+  creditColumn: null,
+  invertAmounts: false,
+  decimalComma: false,
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells (with doubled quotes, delimiters and
+ * line breaks inside), CRLF line endings and a leading byte-order mark; blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      inQuotes = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Reads a date written in one of DATE_FORMATS as a UTC midnight Date, or null when the value
+ * doesn't fit the format or names a day that doesn't exist. Two-digit years are 20YY.
+ */
+export function parseCsvDate(value: string, format: string): Date | null {
+  const tokens: string[] = [];
+  const pattern = format.replace(/YYYY|YY|MM|M|DD|D|[^A-Z]/g, (token) => {
+    if (!/^[YMD]+$/.test(token)) return token.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    tokens.push(token);
+    return token.length === 1 ? '(\\d{1,2})' : `(\\d{${token.length}})`;
+  });
+  const match = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (!match) return null;
+
+  let year = 0, month = 0, day = 0;
+  tokens.forEach((token, index) => {
+    const num = Number(match[index + 1]);
+    if (token.startsWith('Y')) year = token === 'YY' ? 2000 + num : num;
+    else if (token.startsWith('M')) month = num;
+    else day = num;
+  });
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Reads an amount as exported by a bank: currency symbols and thousands separators are ignored,
+ * and "(12.34)" or a trailing minus mean a negative amount. Returns null for an empty cell and
+ * NaN for text that isn't a number.
+ */
+export function parseCsvAmount(value: string, decimalComma: boolean): number | null {
+  let text = value.trim();
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  text = text.replace(/[^0-9.,+-]/g, '');
+  text = decimalComma ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) return NaN;
+  const num = parseFloat(text);
+  return negative ? -Math.abs(num) : num;
+}
+
+// Index of the column a mapping names: a header (any case) or, without a header, a 1-based number
+function columnIndex(column: string, header: string[] | null): number {
+  if (header) {
+    const wanted = column.trim().toLowerCase();
+    return header.findIndex(name => name.trim().toLowerCase() === wanted);
+  }
+  const number = parseInt(column, 10);
+  return String(number) === column.trim() ? number - 1 : -1;
+}
+
+// Column names for the mapping step: the header row, or "1", "2", ... without one
+export function csvColumns(rows: string[][], hasHeader: boolean): string[] {
+  const width = Math.max(0, ...rows.slice(0, 20).map(row => row.length));
+  if (hasHeader && rows.length > 0) return rows[0].map(name => name.trim());
+  return Array.from({ length: width }, (_, index) => String(index + 1));
+}
+
+/**
+ * Applies a mapping to parsed CSV rows. Rows without a usable date, merchant or amount are
+ * left out and reported in `issues`; a mapping that names a missing column fails as a whole
+ * with a single issue on line 0.
+ */
+export function mapCsvRows(rows: string[][], mapping: CsvMapping): CsvMappingResult {
+  const header = mapping.hasHeader ? rows[0] ?? [] : null;
+  const body = mapping.hasHeader ? rows.slice(1) : rows;
+  const firstLine = mapping.hasHeader ? 2 : 1;
+  const issues: CsvRowIssue[] = [];
+
+  const columns: Record<string, number> = {};
+  const mapped = {
+    date: mapping.dateColumn,
+    merchant: mapping.merchantColumn,
+    memo: mapping.memoColumn,
+    amount: mapping.amountColumn,
+    debit: mapping.debitColumn,
+    credit: mapping.creditColumn,
+  };
+  for (const [field, column] of Object.entries(mapped)) {
+    if (!column) continue;
+    const index = columnIndex(column, header);
+    if (index < 0) {
+      issues.push({ line: 0, field, message: `Column "${column}" not found` });
+    }
+    columns[field] = index;
+  }
+  if (issues.length > 0) return { rows: [], issues };
+
+  const cellOf = (cells: string[], field: string) =>
+    columns[field] === undefined ? '' : (cells[columns[field]] ?? '').trim();
+
+  const result: CsvImportRow[] = [];
+  body.forEach((cells, index) => {
+    const line = firstLine + index;
+    const rowIssues: CsvRowIssue[] = [];
+
+    const dateText = cellOf(cells, 'date');
+    const date = parseCsvDate(dateText, mapping.dateFormat);
+    if (!date) {
+      rowIssues.push({ line, field: 'date', message: `"${dateText}" is not a ${mapping.dateFormat} date`, data: cells });
+    }
+    const merchant = cellOf(cells, 'merchant');
+    if (!merchant) {
+      rowIssues.push({ line, field: 'merchant', message: 'Merchant is empty', data: cells });
+    }
+
+    // One signed column, or debit (money out) and credit (money in) columns
+    let amount: number | null;
+    if (mapping.amountColumn) {
+      amount = parseCsvAmount(cellOf(cells, 'amount'), mapping.decimalComma);
+    } else {
+      const debit = parseCsvAmount(cellOf(cells, 'debit'), mapping.decimalComma);
+      const credit = parseCsvAmount(cellOf(cells, 'credit'), mapping.decimalComma);
+      if (Number.isNaN(debit) || Number.isNaN(credit)) {
+        amount = NaN;
+      } else if (debit === null && credit === null) {
+        amount = null;
+      } else {
+        amount = Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+      }
+    }
+    if (amount !== null && mapping.invertAmounts) amount = -amount;
+    if (amount === null || Number.isNaN(amount) || amount === 0) {
+      rowIssues.push({ line, field: 'amount', message: 'Amount must be a non-zero number', data: cells });
+    }
+
+    issues.push(...rowIssues);
+    if (rowIssues.length > 0) return;
+
+    result.push({
+      line,
+      merchant,
+      amount: amount as number,
+      direction: null, // From the sign
+      date: (date as Date).toISOString().slice(0, 10),
+      category: null,
+      items: null,
+      reviewReason: null,
+      description: cellOf(cells, 'memo') || null,
+    });
+  });
+
+  return { rows: result, issues };
+}
+
+function parseOptionalColumn(name: string, value: unknown): { value?: string | null; error?: string } {
+  if (value === undefined) return {};
+  if (value === null || value === '') return { value: null };
+  if (typeof value !== 'string') return { error: `${name} must be a column name or null` };
+  return { value: value.trim() || null };
+}
+
+/**
+ * Validates the mapping fields of a profile create (`partial` false) or update (`partial` true)
+ * request, or of a one-off import. `existing` supplies the stored values so an update is checked
+ * as the mapping it will become. Problems are returned in `error` instead of thrown.
+ */
+export function parseCsvProfileInput(
+  body: Record<string, unknown>,
+  partial: boolean,
+  existing?: CsvMapping
+): CsvProfileParseResult {
+  const data: CsvProfileInput = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { data, error: 'Name must be a non-empty string' };
+    }
+    data.name = body.name.trim();
+  }
+  for (const field of ['dateColumn', 'merchantColumn'] as const) {
+    if (body[field] !== undefined || !partial) {
+      const value = body[field];
+      if (typeof value !== 'string' || !value.trim()) {
+        return { data, error: `${field} is required` };
+      }
+      data[field] = value.trim();
+    }
+  }
+  for (const field of ['memoColumn', 'amountColumn', 'debitColumn', 'creditColumn'] as const) {
+    const column = parseOptionalColumn(field, body[field]);
+    if (column.error) return { data, error: column.error };
+    if (column.value !== undefined) data[field] = column.value;
+  }
+  if (body.dateFormat !== undefined) {
+    if (!(DATE_FORMATS as readonly unknown[]).includes(body.dateFormat)) {
+      return { data, error: `Date format must be one of ${DATE_FORMATS.join(', ')}` };
+    }
+    data.dateFormat = body.dateFormat as string;
+  }
+  if (body.delimiter !== undefined) {
+    if (!(CSV_DELIMITERS as readonly unknown[]).includes(body.delimiter)) {
+      return { data, error: 'Delimiter must be one of , ; | or a tab' };
+    }
+    data.delimiter = body.delimiter as string;
+  }
+  for (const field of ['hasHeader', 'invertAmounts', 'decimalComma'] as const) {
+    if (body[field] !== undefined) {
+      if (typeof body[field] !== 'boolean') {
+        return { data, error: `${field} must be a boolean` };
+      }
+      data[field] = body[field] as boolean;
+    }
+  }
+  if (body.accountId !== undefined) {
+    if (body.accountId !== null && typeof body.accountId !== 'string') {
+      return { data, error: 'Account ID must be a string or null' };
+    }
+    data.accountId = body.accountId || null;
+  }
+
+  // Exactly one way of reading the amount
+  const merged = { ...MAPPING_DEFAULTS, ...existing, ...data };
+  if (merged.amountColumn && (merged.debitColumn || merged.creditColumn)) {
+    return { data, error: 'Use either amountColumn or debitColumn/creditColumn, not both' };
+  }
+  if (!merged.amountColumn && !merged.debitColumn && !merged.creditColumn) {
+    return { data, error: 'An amount column (or a debit and/or credit column) is required' };
+  }
+
+  return { data };
+}
+
+// The full mapping for a one-off import, with defaults for the fields the request left out
+export function withMappingDefaults(data: CsvProfileInput): CsvMapping {
+  return { ...MAPPING_DEFAULTS, ...data } as CsvMapping;
+}
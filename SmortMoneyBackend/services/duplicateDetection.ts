@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client';
+import { normalizeMerchant } from './merchantMappings';
+
+// Duplicate detection for ingested transactions. Overlapping screenshots of the same
+// banking app produce the same rows again, usually with slightly different merchant
+// text and sometimes a posting date a day or two later.
+
+// How far apart (in days) two rows may be dated and still count as the same transaction
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of merchant words two rows must have in common to count as the same merchant
+const MERCHANT_SIMILARITY_THRESHOLD = 0.5;
+
+// The fields compared between an incoming row and an existing one
+export interface DuplicateCandidate {
+  merchant: string;
+  amountCents: number; // Positive magnitude
+  direction: string;
+  date: Date;
+  accountId: string | null;
+}
+
+// "STARBUCKS #1234" vs "Starbucks Coffee": equal or contained keys, or enough shared words
+export function merchantsSimilar(a: string, b: string): boolean {
+  const keyA = normalizeMerchant(a);
+  const keyB = normalizeMerchant(b);
+  if (!keyA || !keyB) return false;
+  if (keyA === keyB || keyA.includes(keyB) || keyB.includes(keyA)) return true;
+
+  const wordsA = new Set(keyA.split(' '));
+  const wordsB = new Set(keyB.split(' '));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / Math.min(wordsA.size, wordsB.size) >= MERCHANT_SIMILARITY_THRESHOLD;
+}
+
+export function isLikelyDuplicate(incoming: DuplicateCandidate, existing: DuplicateCandidate): boolean {
+  if (incoming.amountCents !== existing.amountCents) return false;
+  if (incoming.direction !== existing.direction) return false;
+  // Rows in two different accounts are two different transactions
+  if (incoming.accountId && existing.accountId && incoming.accountId !== existing.accountId) return false;
+  if (Math.abs(incoming.date.getTime() - existing.date.getTime()) > DUPLICATE_DATE_WINDOW_DAYS * DAY_MS) return false;
+  return merchantsSimilar(incoming.merchant, existing.merchant);
+}
+
+// First row in `pool` the incoming row duplicates, if any
+export function findDuplicateIn<T extends DuplicateCandidate>(incoming: DuplicateCandidate, pool: T[]): T | null {
+  return pool.find(existing => isLikelyDuplicate(incoming, existing)) ?? null;
+}
+
+/**
+ * Looks for a stored transaction of the user that the incoming row duplicates.
+ * Amount and date window are matched in the query; merchant similarity is checked here.
+ * A statement row (one with the bank's `fitId`) is not compared with rows of the same account
+ * that came from a statement too: the bank gave those a different FITID, so they are other
+ * transactions however alike they look (two $4.75 coffees in one week).
+ */
+export async function findExistingDuplicate(
+  client: Prisma.TransactionClient,
+  userId: string,
+  incoming: DuplicateCandidate & { fitId?: string }
+) {
+  const windowMs = DUPLICATE_DATE_WINDOW_DAYS * DAY_MS;
+  const nearby = await client.transaction.findMany({
+    where: {
+      userId,
+      amountCents: incoming.amountCents,
+      date: { gte: new Date(incoming.date.getTime() - windowMs), lte: new Date(incoming.date.getTime() + windowMs) },
+      ...(incoming.fitId ? { NOT: { accountId: incoming.accountId, fitId: { not: null } } } : {}),
+    },
+    orderBy: { date: 'asc' },
+    include: { category: true, account: true },
+  });
+  return findDuplicateIn(incoming, nearby);
+}
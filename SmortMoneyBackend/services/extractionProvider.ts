@@ -0,0 +1,91 @@
+import { geminiExtractionProvider } from './geminiService';
+import { fakeExtractionProvider } from './fakeExtractionProvider';
+import { validateExtractedTransactions, ExtractionValidationResult } from './extractionValidation';
+
+// Extraction turns an uploaded screenshot or receipt into transaction rows. The provider
+// is picked with EXTRACTION_PROVIDER ("gemini" by default, or "fake" to run offline).
+
+// One itemized line of a receipt, when the image shows them
+export interface ExtractedLineItem {
+  description: string | null;
+  quantity?: number | null;
+  unitPrice?: number | null;
+  total: number | null; // Positive, negative for discounts and coupons
+}
+
+// How sure the provider is of a field, from 0 (a guess) to 1 (clearly printed)
+export interface ExtractedConfidence {
+  merchant?: number | null;
+  amount?: number | null;
+  date?: number | null;
+}
+
+// One transaction row as a provider returns it; fields it couldn't read are null
+export interface ExtractedTransaction {
+  merchant: string | null;
+  amount: number | null; // Signed: negative for debits, positive for credits
+  direction?: string | null; // "expense", "income" or "transfer" when the provider can tell
+  date: string | null; // Expecting YYYY-MM-DD string
+  category: string | null;
+  items?: ExtractedLineItem[] | null; // Receipts only; bank screenshots have no line items
+  confidence?: ExtractedConfidence | null; // Missing scores count as confident
+}
+
+// One of the user's categories as offered to extraction, with the optional hints they added
+export interface ExtractionCategory {
+  name: string;
+  description: string | null;
+  keywords: string | null; // Comma-separated
+}
+
+// What a provider knows about the upload besides the image
+export interface ExtractionContext {
+  uploadedAt: Date; // Anchors dates printed without a year
+  categories: ExtractionCategory[]; // The only categories a row may suggest; empty means none
+  statementPage?: { page: number; pageCount: number }; // Set when the image is one page of a PDF statement
+}
+
+// Balances printed on a bank statement; null when they couldn't be read
+export interface StatementBalances {
+  openingBalance: number | null;
+  closingBalance: number | null;
+}
+
+export interface ExtractionProvider {
+  name: string;
+  // Rejects when the image can't be analyzed; an empty array means nothing was found.
+  // The rows are checked by validateExtractedTransactions afterwards, whatever the provider.
+  analyzeImage(imageBuffer: Buffer, mimeType: string, context: ExtractionContext): Promise<ExtractedTransaction[]>;
+  // Reads the opening and closing balance of a whole PDF statement, see services/statementExtraction.ts
+  readStatementBalances(pdfBuffer: Buffer): Promise<StatementBalances>;
+}
+
+const PROVIDERS: Record<string, ExtractionProvider> = {
+  gemini: geminiExtractionProvider,
+  fake: fakeExtractionProvider,
+};
+
+export const EXTRACTION_PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+/**
+ * Returns the provider named by EXTRACTION_PROVIDER. Read on every call so the choice
+ * follows the environment; an unknown name is a configuration error and throws.
+ */
+export function getExtractionProvider(): ExtractionProvider {
+  const name = (process.env.EXTRACTION_PROVIDER || 'gemini').trim().toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown EXTRACTION_PROVIDER "${name}" (expected one of ${EXTRACTION_PROVIDER_NAMES.join(', ')})`);
+  }
+  return provider;
+}
+
+// Runs the configured provider and validates its rows, see services/extractionValidation.ts
+export async function extractTransactions(
+  imageBuffer: Buffer,
+  mimeType: string,
+  context: ExtractionContext
+): Promise<ExtractionValidationResult> {
+  const rows = await getExtractionProvider().analyzeImage(imageBuffer, mimeType, context);
+  return validateExtractedTransactions(rows, context.uploadedAt, context.categories.map(category => category.name));
+}
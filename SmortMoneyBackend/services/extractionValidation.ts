@@ -0,0 +1,167 @@
+import { ExtractedLineItem } from './extractionProvider';
+import { isTransactionDirection, TransactionDirection } from './transactionDirection';
+
+// Checks every row a provider returns before it becomes a draft. Problems are reported per
+// row and field; a row without a usable amount or with a malformed date is dropped, while an
+// unknown category or direction is only cleared. A missing merchant or date is filled in and,
+// like a low-confidence merchant, amount or date, marks the row for review.
+
+// How far from the upload date a transaction may be dated. A date after the upload usually
+// means a year was guessed for a date printed without one (December receipt sent in January).
+const MAX_DAYS_AFTER_UPLOAD = 2; // Time zones and pending transactions
+const MAX_YEARS_BEFORE_UPLOAD = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Confidence below this marks a merchant, amount or date for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+// Stand-in for a merchant the provider couldn't read
+export const UNKNOWN_MERCHANT = 'Unknown merchant';
+const REVIEWED_FIELDS = ['merchant', 'amount', 'date'] as const;
+
+// A row that passed validation; the required fields are known to be present
+export interface ValidatedTransaction {
+  merchant: string;
+  amount: number; // Signed: negative for debits, positive for credits
+  direction: TransactionDirection | null;
+  date: string; // YYYY-MM-DD
+  category: string | null;
+  items: ExtractedLineItem[] | null;
+  reviewReason: string | null; // Set when the row needs a second look
+}
+
+export interface ExtractionIssue {
+  index: number; // Position of the row in the provider's output
+  page?: number; // Statement page the row was on, for PDF statements
+  field: string;
+  message: string;
+  dropped: boolean; // True when the whole row was left out because of this problem
+  data?: unknown; // The row as returned
+}
+
+export interface ExtractionValidationResult {
+  transactions: ValidatedTransaction[];
+  issues: ExtractionIssue[];
+}
+
+// Strict YYYY-MM-DD that names a real calendar day
+function parseIsoDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value ? date : null;
+}
+
+// Finds the allowed category a suggestion names, ignoring case and surrounding spaces
+export function matchCategoryName(suggestion: string, categories: string[]): string | null {
+  const wanted = suggestion.trim().toLowerCase();
+  return categories.find(name => name.toLowerCase() === wanted) ?? null;
+}
+
+// Reads a 0-1 confidence score; anything else counts as unknown
+function confidenceOf(confidence: unknown, field: string): number | null {
+  if (!confidence || typeof confidence !== 'object') return null;
+  const score = (confidence as Record<string, unknown>)[field];
+  return typeof score === 'number' && score >= 0 && score <= 1 ? score : null;
+}
+
+/**
+ * Explains why a row needs review: fields that were filled in (`filledFields`) and fields
+ * scored below LOW_CONFIDENCE_THRESHOLD. Returns null when neither applies.
+ */
+export function reviewReasonFor(confidence: unknown, filledFields: string[]): string | null {
+  const reasons: string[] = [];
+  for (const field of REVIEWED_FIELDS) {
+    const score = confidenceOf(confidence, field);
+    if (filledFields.includes(field)) {
+      reasons.push(`${field} was missing`);
+    } else if (score !== null && score < LOW_CONFIDENCE_THRESHOLD) {
+      reasons.push(`low confidence in ${field} (${Math.round(score * 100)}%)`);
+    }
+  }
+  if (reasons.length === 0) return null;
+  const reason = reasons.join(', ');
+  return reason.charAt(0).toUpperCase() + reason.slice(1);
+}
+
+// Returns a message when the date is outside the plausible window around the upload
+export function implausibleDateReason(date: Date, uploadedAt: Date): string | null {
+  if (date.getTime() > uploadedAt.getTime() + MAX_DAYS_AFTER_UPLOAD * DAY_MS) {
+    return 'Date is after the upload date';
+  }
+  if (date.getUTCFullYear() < uploadedAt.getUTCFullYear() - MAX_YEARS_BEFORE_UPLOAD) {
+    return `Date is more than ${MAX_YEARS_BEFORE_UPLOAD} years before the upload date`;
+  }
+  return null;
+}
+
+/**
+ * Validates a provider's raw output against the extraction contract.
+ * `uploadedAt` anchors the plausible date window; `categories` are the names of the user's
+ * categories, and a suggested category is replaced by the matching name as stored.
+ */
+export function validateExtractedTransactions(
+  raw: unknown,
+  uploadedAt: Date,
+  categories: string[]
+): ExtractionValidationResult {
+  const transactions: ValidatedTransaction[] = [];
+  const issues: ExtractionIssue[] = [];
+  if (!Array.isArray(raw)) {
+    issues.push({ index: -1, field: 'response', message: 'Response must be a JSON array of transactions', dropped: true, data: raw });
+    return { transactions, issues };
+  }
+
+  raw.forEach((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      issues.push({ index, field: 'row', message: 'Transaction must be an object', dropped: true, data: row });
+      return;
+    }
+    const { merchant, amount, direction, date, category, items, confidence } = row as Record<string, unknown>;
+    const rowIssues: Omit<ExtractionIssue, 'index' | 'data'>[] = [];
+    const filledFields: string[] = [];
+
+    const merchantMissing = merchant == null || (typeof merchant === 'string' && !merchant.trim());
+    if (merchantMissing) {
+      filledFields.push('merchant');
+      rowIssues.push({ field: 'merchant', message: `Merchant is missing, saved as "${UNKNOWN_MERCHANT}"`, dropped: false });
+    } else if (typeof merchant !== 'string') {
+      rowIssues.push({ field: 'merchant', message: 'Merchant must be a string', dropped: true });
+    }
+    if (typeof amount !== 'number' || !isFinite(amount) || amount === 0) {
+      rowIssues.push({ field: 'amount', message: 'Amount must be a non-zero number', dropped: true });
+    }
+    let parsedDate: Date | null = null;
+    const uploadDate = uploadedAt.toISOString().slice(0, 10);
+    if (date == null) {
+      filledFields.push('date');
+      rowIssues.push({ field: 'date', message: `Date is missing, saved as the upload date (${uploadDate})`, dropped: false });
+    } else if (typeof date !== 'string' || !(parsedDate = parseIsoDate(date))) {
+      rowIssues.push({ field: 'date', message: 'Date must be a valid YYYY-MM-DD date', dropped: true });
+    } else {
+      const reason = implausibleDateReason(parsedDate, uploadedAt);
+      if (reason) rowIssues.push({ field: 'date', message: `${reason} (${date})`, dropped: true });
+    }
+    if (direction != null && !isTransactionDirection(direction)) {
+      rowIssues.push({ field: 'direction', message: `Unknown direction "${String(direction)}"`, dropped: false });
+    }
+    const matchedCategory = typeof category === 'string' ? matchCategoryName(category, categories) : null;
+    if (category != null && !matchedCategory) {
+      rowIssues.push({ field: 'category', message: `Category "${String(category)}" is not one of the allowed categories`, dropped: false });
+    }
+
+    issues.push(...rowIssues.map(issue => ({ ...issue, index, data: row })));
+    if (rowIssues.some(issue => issue.dropped)) return;
+
+    transactions.push({
+      merchant: merchantMissing ? UNKNOWN_MERCHANT : (merchant as string).trim(),
+      amount: amount as number,
+      direction: isTransactionDirection(direction) ? direction : null,
+      date: date == null ? uploadDate : date as string,
+      category: matchedCategory,
+      items: Array.isArray(items) ? items : null,
+      reviewReason: reviewReasonFor(confidence, filledFields),
+    });
+  });
+
+  return { transactions, issues };
+}
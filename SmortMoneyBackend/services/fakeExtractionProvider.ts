@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ExtractionProvider, ExtractionContext, ExtractedTransaction, StatementBalances } from './extractionProvider';
+
+// Offline stand-in for Gemini that returns canned results, so uploads can be exercised
+// without network access or an API key. Results are looked up by the SHA-256 of the image:
+// <fixtures dir>/<hash>.json holds the array to return for that exact image, and
+// default.json (if present) is used for any other image. Without either, nothing is found.
+// Statement balances work the same way with <hash>.balances.json and default.balances.json,
+// holding {"openingBalance": number, "closingBalance": number}.
+// A fixture date of "upload" or "upload-<days>" stands for the upload date or that many
+// days before it, so canned rows never fall outside the plausible date window.
+
+// Relative paths are resolved against the working directory
+export function extractionFixturesDir(): string {
+  return path.resolve(process.env.EXTRACTION_FIXTURES_DIR || 'fixtures/extraction');
+}
+
+export function imageHash(imageBuffer: Buffer): string {
+  return crypto.createHash('sha256').update(imageBuffer).digest('hex');
+}
+
+// Parsed contents of a fixture file, or null when there is none
+async function readFixtureFile(fileName: string): Promise<unknown> {
+  const filePath = path.join(extractionFixturesDir(), fileName);
+  let text: string;
+  try {
+    text = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+  return JSON.parse(text);
+}
+
+async function readFixture(fileName: string): Promise<ExtractedTransaction[] | null> {
+  const fixture = await readFixtureFile(fileName);
+  if (fixture === null) return null;
+  if (!Array.isArray(fixture)) {
+    const filePath = path.join(extractionFixturesDir(), fileName);
+    throw new Error(`Extraction fixture ${filePath} must contain a JSON array`);
+  }
+  return fixture;
+}
+
+const RELATIVE_DATE_PATTERN = /^upload(?:-(\d+))?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixture rows with "upload"/"upload-<days>" dates resolved against the upload date
+function resolveRelativeDates(rows: ExtractedTransaction[], uploadedAt: Date): ExtractedTransaction[] {
+  return rows.map(row => {
+    const match = typeof row.date === 'string' ? RELATIVE_DATE_PATTERN.exec(row.date) : null;
+    if (!match) return row;
+    const daysBefore = match[1] ? parseInt(match[1], 10) : 0;
+    return { ...row, date: new Date(uploadedAt.getTime() - daysBefore * DAY_MS).toISOString().slice(0, 10) };
+  });
+}
+
+export const fakeExtractionProvider: ExtractionProvider = {
+  name: 'fake',
+  async analyzeImage(imageBuffer: Buffer, mimeType: string, context: ExtractionContext): Promise<ExtractedTransaction[]> {
+    const hash = imageHash(imageBuffer);
+    const exact = await readFixture(`${hash}.json`);
+    if (exact) {
+      console.log(`Fake extraction: using fixture ${hash}.json`);
+      return resolveRelativeDates(exact, context.uploadedAt);
+    }
+    console.log(`Fake extraction: no fixture for image ${hash} (${mimeType}), using default.json`);
+    return resolveRelativeDates((await readFixture('default.json')) ?? [], context.uploadedAt);
+  },
+  async readStatementBalances(pdfBuffer: Buffer): Promise<StatementBalances> {
+    const hash = imageHash(pdfBuffer);
+    const fixture = (await readFixtureFile(`${hash}.balances.json`)) ?? (await readFixtureFile('default.balances.json'));
+    const { openingBalance, closingBalance } = (fixture ?? {}) as Record<string, unknown>;
+    return {
+      openingBalance: typeof openingBalance === 'number' ? openingBalance : null,
+      closingBalance: typeof closingBalance === 'number' ? closingBalance : null,
+    };
+  },
+};
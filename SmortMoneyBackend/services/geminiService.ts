@@ -1,18 +1,21 @@
-import { GoogleGenerativeAI, Part } from "@google/generative-ai"; // Use import, correct type is Part
+import { GoogleGenerativeAI, Part, ResponseSchema, SchemaType } from "@google/generative-ai"; // Use import, correct type is Part
+import { ExtractionProvider, ExtractedTransaction, ExtractionContext, ExtractionCategory, StatementBalances } from './extractionProvider';
+import { validateExtractedTransactions } from './extractionValidation';
+import { TRANSACTION_DIRECTIONS } from './transactionDirection';
 
-// Access your API key as an environment variable
-const apiKey = process.env.GEMINI_API_KEY;
-if (!apiKey) {
-  throw new Error("GEMINI_API_KEY environment variable not set.");
-}
-const genAI = new GoogleGenerativeAI(apiKey);
-
-// Define the expected structure of the JSON result from Gemini
-export interface GeminiTransactionResult {
-  merchant: string | null;
-  amount: number | null; // Expecting a number directly from Gemini based on prompt
-  date: string | null; // Expecting YYYY-MM-DD string
-  category: string | null;
+// Created on first use, so the server (and the fake provider) run without GEMINI_API_KEY
+let genAI: GoogleGenerativeAI | null = null;
+
+function getClient(): GoogleGenerativeAI {
+  if (!genAI) {
+    // Access your API key as an environment variable
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable not set.");
+    }
+    genAI = new GoogleGenerativeAI(apiKey);
+  }
+  return genAI;
 }
 
 // --- Helper function to convert buffer to Gemini Part ---
@@ -26,62 +29,210 @@ function fileToGenerativePart(buffer: Buffer, mimeType: string): Part { // Use P
   };
 }
 
-// --- Main analysis function ---
-// Add export keyword, parameter types, and return type annotation
-export async function analyzeTransactionImage(imageBuffer: Buffer, mimeType: string): Promise<GeminiTransactionResult[]> {
-  // For text-and-image input (multimodal), use the gemini-2.0-flash model
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" }); // Use gemini-2.0-flash for multimodal
+// Attempts per image: the first request plus corrective retries
+const MAX_ATTEMPTS = 3;
 
-  const prompt = `
-    Analyze the following transaction screenshot. Extract ALL transaction details visible.
+// Structured output: Gemini answers with JSON in this shape instead of free text. The category
+// enum is the user's own category names; without any, category can only be null.
+function buildTransactionsSchema(categoryNames: string[]): ResponseSchema {
+  return {
+    type: SchemaType.ARRAY,
+    items: {
+      type: SchemaType.OBJECT,
+      properties: {
+        merchant: { type: SchemaType.STRING, nullable: true, description: 'Name of the merchant or vendor' },
+        amount: { type: SchemaType.NUMBER, nullable: true, description: 'Negative for debits/purchases, positive for credits/income' },
+        direction: { type: SchemaType.STRING, format: 'enum', enum: [...TRANSACTION_DIRECTIONS], nullable: true },
+        date: { type: SchemaType.STRING, nullable: true, description: 'Transaction date as YYYY-MM-DD' },
+        category: categoryNames.length > 0
+          ? { type: SchemaType.STRING, format: 'enum', enum: categoryNames, nullable: true }
+          : { type: SchemaType.STRING, nullable: true, description: 'Always null' },
+        items: {
+          type: SchemaType.ARRAY,
+          nullable: true,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              description: { type: SchemaType.STRING },
+              quantity: { type: SchemaType.NUMBER, nullable: true },
+              unitPrice: { type: SchemaType.NUMBER, nullable: true },
+              total: { type: SchemaType.NUMBER, description: 'Negative for discounts and coupons' },
+            },
+            required: ['description', 'total'],
+          },
+        },
+        confidence: {
+          type: SchemaType.OBJECT,
+          description: 'How sure you are of each field, from 0 to 1',
+          properties: {
+            merchant: { type: SchemaType.NUMBER },
+            amount: { type: SchemaType.NUMBER },
+            date: { type: SchemaType.NUMBER },
+          },
+          required: ['merchant', 'amount', 'date'],
+        },
+      },
+      required: ['merchant', 'amount', 'direction', 'date', 'category', 'items', 'confidence'],
+    },
+  };
+}
+
+// One line per category, with the description and keywords the user gave it
+function describeCategories(categories: ExtractionCategory[]): string {
+  return categories
+    .map(category => {
+      const hints = [
+        category.description,
+        category.keywords ? `keywords: ${category.keywords}` : null,
+      ].filter(Boolean);
+      return `      * ${category.name}${hints.length > 0 ? ` (${hints.join('; ')})` : ''}`;
+    })
+    .join('\n');
+}
+
+function buildPrompt({ uploadedAt, categories, statementPage }: ExtractionContext): string {
+  const uploadDate = uploadedAt.toISOString().slice(0, 10);
+  const categoryRule = categories.length > 0
+    ? `Suggest ONE category name, exactly as written, from this list (string):\n${describeCategories(categories)}`
+    : 'The user has no categories yet; always use null.';
+  const source = statementPage
+    ? `page ${statementPage.page} of ${statementPage.pageCount} of a bank statement PDF. Leave out balance, subtotal and summary lines`
+    : 'transaction screenshot';
+  return `
+    Analyze the following ${source}. Extract ALL transaction details visible.
     For each transaction, provide a JSON object with these fields:
     - merchant: The name of the merchant or vendor (string).
     - amount: The transaction amount as a number (float). Use negative for debits/purchases, positive for credits/income.
-    - date: The date of the transaction in "YYYY-MM-DD" format (string). If the year isn't present, assume the current year.
-    - category: Suggest ONE category from this list: Groceries, Dining, Transport, Utilities, Entertainment, Shopping, Income, Transfer, Rent/Mortgage, Fees, Other (string).
+    - direction: "expense" for purchases/debits, "income" for money received, or "transfer" for moves between the user's own accounts and card payments (string).
+    - date: The date of the transaction in "YYYY-MM-DD" format (string). The image was uploaded on ${uploadDate}; if the year isn't present, use the year that puts the date on or before ${uploadDate}.
+    - category: ${categoryRule}
+    - items: Only when the image is an itemized receipt, an array with one object per purchased line: {"description": string, "quantity": number or null, "unitPrice": number or null, "total": number}. Line totals are positive; discounts and coupons are negative lines. Leave out subtotal, tax and total summary lines. Use null when no items are shown (e.g. a bank statement or app screenshot).
+    - confidence: How sure you are of the merchant, amount and date you gave, each from 0 (a guess, blurry or cut off) to 1 (clearly printed): {"merchant": number, "amount": number, "date": number}. Use a low score for a field you inferred, such as a year that isn't shown.
 
     If any field is unclear or missing for a transaction, use null for that field.
-    Respond ONLY with a valid JSON array containing one object for each distinct transaction found in the image. Do not include any other text or markdown formatting. Example: [{"merchant": "Example Cafe", "amount": -12.50, "date": "2024-03-15", "category": "Dining"}, {"merchant": "Salary", "amount": 2000.00, "date": "2024-03-14", "category": "Income"}]
+    Respond with a JSON array containing one object for each distinct transaction found in the image, or an empty array if there are none.
   `;
+}
 
-  const imagePart = fileToGenerativePart(imageBuffer, mimeType);
+// Follow-up message asking Gemini to fix the problems found in its previous answer
+function buildCorrection(problems: string[]): string {
+  return `
+    Your previous response had these problems:
+    ${problems.map(problem => `- ${problem}`).join('\n    ')}
+    Look at the image again and respond with the corrected JSON array for ALL transactions, following the same field rules.
+  `;
+}
 
+// Problems worth a retry: unparseable output, or rows dropped for a field Gemini could fix
+function describeProblems(text: string, context: ExtractionContext): { rows: unknown; problems: string[] } {
+  let rows: unknown;
   try {
-    // Corrected console log to reflect the actual model being used
-    console.log("Sending image to Gemini (gemini-2.0-flash) for analysis...");
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    const text = response.text();
-    console.log("Gemini Raw Response Text:", text);
-
-    // Attempt to parse the JSON response from Gemini
-    let jsonData: GeminiTransactionResult[]; // Type the variable
-
-    // Clean potential markdown formatting
-    const cleanedText = text.replace(/^```json\s*|\s*```$/g, '').trim();
-
-    try {
-        jsonData = JSON.parse(cleanedText);
-        // Basic validation: Check if it's an array
-        if (!Array.isArray(jsonData)) {
-            console.error("Gemini response was not a JSON array:", jsonData);
-            throw new Error("Gemini response was not in the expected array format.");
-        }
-    } catch (parseError: any) {
-        console.error("Failed to parse Gemini JSON response:", parseError);
-        console.error("Cleaned Gemini Text:", cleanedText); // Log the text that failed parsing
-        throw new Error(`Failed to parse Gemini response: ${parseError.message}`);
-    }
+    rows = JSON.parse(text);
+  } catch (parseError: any) {
+    return { rows: null, problems: [`The response was not valid JSON (${parseError.message}).`] };
+  }
+  const { issues } = validateExtractedTransactions(rows, context.uploadedAt, context.categories.map(category => category.name));
+  const problems = issues
+    .filter(issue => issue.dropped)
+    .map(issue => issue.index < 0 ? issue.message : `Transaction ${issue.index + 1}, ${issue.field}: ${issue.message}.`);
+  return { rows, problems };
+}
 
+// --- Main analysis function ---
+/**
+ * Sends the image to Gemini and returns the transaction rows it found. Output that doesn't
+ * parse or fails validation is sent back with a corrective message, up to MAX_ATTEMPTS times;
+ * after that the last parseable rows are returned and validation reports what is still wrong.
+ */
+export async function analyzeTransactionImage(
+  imageBuffer: Buffer,
+  mimeType: string,
+  context: ExtractionContext = { uploadedAt: new Date(), categories: [] }
+): Promise<ExtractedTransaction[]> {
+  // For text-and-image input (multimodal), use the gemini-2.0-flash model
+  const model = getClient().getGenerativeModel({
+    model: "gemini-2.0-flash", // Use gemini-2.0-flash for multimodal
+    generationConfig: { responseMimeType: 'application/json', responseSchema: buildTransactionsSchema(context.categories.map(category => category.name)) },
+  });
+  // A chat keeps the image and earlier answers in context for the corrective retries
+  const chat = model.startChat();
+  const imagePart = fileToGenerativePart(imageBuffer, mimeType);
 
-    console.log("Parsed Gemini JSON Data (Array):", jsonData);
-    return jsonData; // Return the array
+  let message: string | Array<string | Part> = [buildPrompt(context), imagePart];
+  let lastRows: unknown = null;
+  try {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      console.log(`Sending image to Gemini (gemini-2.0-flash) for analysis, attempt ${attempt} of ${MAX_ATTEMPTS}...`);
+      const result = await chat.sendMessage(message);
+      const text = result.response.text();
+      console.log("Gemini Raw Response Text:", text);
 
+      const { rows, problems } = describeProblems(text, context);
+      if (rows !== null) lastRows = rows;
+      if (problems.length === 0) {
+        return rows as ExtractedTransaction[];
+      }
+      console.warn(`Gemini response failed validation (attempt ${attempt}):`, problems);
+      message = buildCorrection(problems);
+    }
   } catch (error: any) { // Add type annotation
     console.error("Error analyzing image with Gemini:", error);
     // Improve error message detail
     throw new Error(`Failed to analyze transaction image with Gemini: ${error.message}`);
   }
+
+  if (lastRows === null) {
+    throw new Error(`Gemini did not return valid JSON after ${MAX_ATTEMPTS} attempts`);
+  }
+  // Validation reports the remaining problems per row to the caller
+  return lastRows as ExtractedTransaction[];
 }
 
+// Structured output for readStatementBalances
+const BALANCES_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    openingBalance: { type: SchemaType.NUMBER, nullable: true, description: 'Balance at the start of the statement period' },
+    closingBalance: { type: SchemaType.NUMBER, nullable: true, description: 'Balance at the end of the statement period' },
+  },
+  required: ['openingBalance', 'closingBalance'],
+};
+
+/**
+ * Asks Gemini for the opening and closing balance printed on a PDF statement. Balances that
+ * aren't shown, or an answer that doesn't parse, come back as null.
+ */
+export async function readStatementBalances(pdfBuffer: Buffer): Promise<StatementBalances> {
+  const model = getClient().getGenerativeModel({
+    model: "gemini-2.0-flash",
+    generationConfig: { responseMimeType: 'application/json', responseSchema: BALANCES_SCHEMA },
+  });
+  const prompt = `
+    This is a bank or credit card statement. Give the opening (previous) balance and the closing (new) balance
+    of the statement period as numbers, as the statement shows them: on a credit card statement the amount owed
+    is positive, and an overdrawn bank account is negative. Use null for a balance that isn't shown.
+  `;
+  try {
+    console.log('Sending statement to Gemini (gemini-2.0-flash) for its balances...');
+    const result = await model.generateContent([prompt, fileToGenerativePart(pdfBuffer, 'application/pdf')]);
+    const text = result.response.text();
+    console.log("Gemini Raw Balances Text:", text);
+    const { openingBalance, closingBalance } = JSON.parse(text) ?? {};
+    return {
+      openingBalance: typeof openingBalance === 'number' ? openingBalance : null,
+      closingBalance: typeof closingBalance === 'number' ? closingBalance : null,
+    };
+  } catch (error: any) { // Add type annotation
+    // Without balances the statement is still imported, just not reconciled
+    console.error("Error reading statement balances with Gemini:", error);
+    return { openingBalance: null, closingBalance: null };
+  }
+}
+
+export const geminiExtractionProvider: ExtractionProvider = {
+  name: 'gemini',
+  analyzeImage: analyzeTransactionImage,
+  readStatementBalances,
+};
+
 // No need for module.exports when using export keyword above
@@ -0,0 +1,169 @@
+import { Prisma, ImportDraft } from '@prisma/client';
+import { ValidatedTransaction } from './extractionValidation';
+import { directionFromSignedAmount, TransactionDirection } from './transactionDirection';
+import { findMatchingRule, loadActiveRules } from './categoryRules';
+import { loadMerchantCategories, normalizeMerchant } from './merchantMappings';
+import { findDuplicateIn, findExistingDuplicate, DuplicateCandidate } from './duplicateDetection';
+import { normalizeLineItems, LineItemInput } from './lineItems';
+import { toCents } from './money';
+
+// Review states of an import draft; everything but "rejected" is saved on commit
+export const DRAFT_STATUSES = ['pending', 'accepted', 'rejected'] as const;
+export type DraftStatus = typeof DRAFT_STATUSES[number];
+
+export function isDraftStatus(value: unknown): value is DraftStatus {
+  return typeof value === 'string' && (DRAFT_STATUSES as readonly string[]).includes(value);
+}
+
+// A row to import: validated extraction output, a mapped CSV line with its memo, or an
+// OFX statement row with the bank's FITID
+export type ImportRow = ValidatedTransaction & { description?: string | null; fitId?: string };
+
+// An import row with its category and duplicate check worked out
+export interface PreparedImportRow extends DuplicateCandidate {
+  direction: TransactionDirection;
+  description: string | null;
+  categoryId: string | null;
+  duplicateReason: 'existing' | 'batch' | null;
+  duplicateOfId: string | null; // Stored transaction it looks like, for "existing"
+  reviewReason: string | null;
+  lineItems: LineItemInput[];
+}
+
+/**
+ * Works out the direction, category and duplicate status of rows about to be imported.
+ * The category comes from the user's rules first, then the merchant categories learned
+ * from their corrections, then the category extraction suggests. Rows are compared with
+ * stored transactions and, unless `batchRows` is null, with the earlier rows of the same
+ * import (`batchRows` holds those from earlier uploads; it is not modified).
+ */
+export async function prepareImportRows(
+  client: Prisma.TransactionClient,
+  userId: string,
+  accountId: string | null,
+  rows: ImportRow[],
+  batchRows: DuplicateCandidate[] | null
+): Promise<PreparedImportRow[]> {
+  const prepared: PreparedImportRow[] = [];
+
+  const rules = await loadActiveRules(client, userId);
+  const learnedCategories = await loadMerchantCategories(client, userId);
+  const categories = await client.category.findMany({ where: { userId }, select: { id: true, name: true } });
+  // Keyed by lowercased name, like the matching in validateExtractedTransactions
+  const categoryIdsByName = new Map(categories.map(category => [category.name.toLowerCase(), category.id]));
+  const seenRows = batchRows ? [...batchRows] : null;
+
+  for (const row of rows) {
+    const date = new Date(row.date);
+
+    // Normalize the signed extraction result: an explicit expense/income direction wins,
+    // then the sign of the amount (negative = debit). Imported rows are never linked to a
+    // second account, so a transfer (by direction or Transfer category) keeps its sign and
+    // moves the balance; only linked transfer legs are balance-neutral.
+    const direction: TransactionDirection = row.direction && row.direction !== 'transfer'
+      ? row.direction
+      : directionFromSignedAmount(row.amount);
+
+    const candidate: DuplicateCandidate = {
+      merchant: row.merchant,
+      amountCents: toCents(Math.abs(row.amount)), // Stored as a positive magnitude
+      direction,
+      date,
+      accountId,
+    };
+    const matchingRule = findMatchingRule(rules, candidate);
+    const learnedCategoryId = learnedCategories.get(normalizeMerchant(row.merchant));
+    const suggestedCategoryId = row.category ? categoryIdsByName.get(row.category.toLowerCase()) : undefined;
+
+    // Overlapping screenshots repeat rows, both within one batch and across imports
+    const batchDuplicate = seenRows ? findDuplicateIn(candidate, seenRows) : null;
+    const existingDuplicate = batchDuplicate ? null : await findExistingDuplicate(client, userId, { ...candidate, fitId: row.fitId });
+    seenRows?.push(candidate);
+
+    prepared.push({
+      ...candidate,
+      direction,
+      description: row.description ?? null,
+      categoryId: matchingRule?.categoryId ?? learnedCategoryId ?? suggestedCategoryId ?? null,
+      duplicateReason: existingDuplicate ? 'existing' : batchDuplicate ? 'batch' : null,
+      duplicateOfId: existingDuplicate?.id ?? null,
+      reviewReason: row.reviewReason,
+      lineItems: normalizeLineItems(row.items),
+    });
+  }
+
+  return prepared;
+}
+
+/**
+ * Turns the validated rows extracted from one screenshot into drafts for a batch,
+ * with the receipt's line items nested. Rows that look like a stored transaction or an
+ * earlier row of the batch (`earlierRows`) start out rejected, see prepareImportRows.
+ */
+export async function buildDrafts(
+  client: Prisma.TransactionClient,
+  userId: string,
+  batch: { id: string; accountId: string | null },
+  imageIndex: number,
+  extracted: ValidatedTransaction[],
+  earlierRows: DuplicateCandidate[]
+): Promise<Prisma.ImportDraftUncheckedCreateInput[]> {
+  const prepared = await prepareImportRows(client, userId, batch.accountId, extracted, earlierRows);
+  return prepared.map(({ lineItems, reviewReason, ...row }) => ({
+    ...row,
+    batchId: batch.id,
+    imageIndex,
+    status: row.duplicateReason ? 'rejected' : 'pending',
+    needsReview: reviewReason !== null,
+    reviewReason,
+    lineItems: lineItems.length > 0 ? { create: lineItems } : undefined,
+  }));
+}
+
+/**
+ * Saves every draft of a batch that isn't rejected as a transaction, moving its line items
+ * over, and marks the batch committed. Meant to run inside one database transaction.
+ * The batch is claimed first, only while it is still pending: a second commit of the same
+ * batch (a double tap) fails with P2025 and rolls back instead of saving every row twice.
+ */
+export async function commitDrafts(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  batch: { id: string; drafts: ImportDraft[] }
+) {
+  await tx.importBatch.update({
+    where: { id: batch.id, status: 'pending' },
+    data: { status: 'committed', committedAt: new Date() },
+  });
+
+  const saved = [];
+  for (const draft of batch.drafts.filter(draft => draft.status !== 'rejected')) {
+    const transaction = await tx.transaction.create({
+      data: {
+        userId,
+        merchant: draft.merchant,
+        amountCents: draft.amountCents,
+        direction: draft.direction,
+        date: draft.date,
+        description: draft.description,
+        categoryId: draft.categoryId,
+        accountId: draft.accountId,
+        receiptId: draft.receiptId,
+        needsReview: draft.needsReview,
+        reviewReason: draft.reviewReason,
+      },
+      include: { category: true, account: true },
+    });
+    // The receipt's line items move from the draft to the transaction
+    await tx.transactionLineItem.updateMany({
+      where: { draftId: draft.id },
+      data: { transactionId: transaction.id, draftId: null },
+    });
+    await tx.importDraft.update({
+      where: { id: draft.id },
+      data: { status: 'accepted', transactionId: transaction.id },
+    });
+    saved.push(transaction);
+  }
+  return saved;
+}
@@ -0,0 +1,53 @@
+// Itemized receipt lines (description, quantity, unit price, total) as returned by extraction.
+// Extraction is noisy, so unusable lines are dropped instead of failing the whole receipt.
+import { toCents } from './money';
+
+export interface LineItemInput {
+  position: number; // Order on the receipt (0-based)
+  description: string;
+  quantity: number | null;
+  unitPriceCents: number | null;
+  totalCents: number; // Negative for discounts and coupons
+}
+
+// Numbers sometimes come back as strings ("2", "$3.49")
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[^0-9.+-]/g, ''));
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Turns the `items` of one extracted transaction into line items. A line needs a description
+ * and a total; a missing total is worked out from quantity × unit price when both are given.
+ */
+export function normalizeLineItems(raw: unknown): LineItemInput[] {
+  if (!Array.isArray(raw)) return [];
+
+  const items: LineItemInput[] = [];
+  for (const line of raw) {
+    if (!line || typeof line !== 'object') continue;
+    const { description, quantity, unitPrice, total } = line as Record<string, unknown>;
+    if (typeof description !== 'string' || !description.trim()) continue;
+
+    const quantityNum = toNumber(quantity);
+    const unitPriceNum = toNumber(unitPrice);
+    let totalNum = toNumber(total);
+    if (totalNum === null && quantityNum !== null && unitPriceNum !== null) {
+      totalNum = quantityNum * unitPriceNum;
+    }
+    if (totalNum === null) continue;
+
+    items.push({
+      position: items.length,
+      description: description.trim(),
+      quantity: quantityNum,
+      unitPriceCents: unitPriceNum === null ? null : toCents(unitPriceNum),
+      totalCents: toCents(totalNum),
+    });
+  }
+  return items;
+}
@@ -0,0 +1,55 @@
+import { Prisma } from '@prisma/client';
+
+// Learned merchant -> category mappings. When the user corrects the category of a
+// transaction, the choice is remembered for the merchant and used on later uploads
+// instead of the category Gemini suggests.
+
+/**
+ * Key under which a merchant is learned: lower-cased, without store numbers, reference
+ * codes and punctuation, so "STARBUCKS #1234" and "Starbucks 0567" share one mapping,
+ * as do "AMZN Mktp US*2K4XY" and "AMZN Mktp US*7H1QA".
+ */
+export function normalizeMerchant(merchant: string): string {
+  return merchant
+    .toLowerCase()
+    // A code glued on with "*" ("US*2K4XY"); "SQ *BLUE BOTTLE" is a prefix and the name stays
+    .replace(/(?<=\S)\*\S+/gu, ' ')
+    // Runs mixing letters and digits ("mk1ab2") are order or terminal references
+    .replace(/[\p{L}\d]*(?:\p{L}\d|\d\p{L})[\p{L}\d]*/gu, ' ')
+    .replace(/[^\p{L}\s&']/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Records a category correction for the transaction's merchant. Only real changes to a
+ * category count; clearing the category, transfer legs and split transactions are ignored.
+ */
+export async function learnMerchantCategory(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  previousCategoryId: string | null,
+  transaction: { merchant: string; categoryId: string | null; transferId: string | null; splits: unknown[] }
+): Promise<void> {
+  const { merchant, categoryId } = transaction;
+  if (!categoryId || categoryId === previousCategoryId || transaction.transferId || transaction.splits.length > 0) {
+    return;
+  }
+  const merchantKey = normalizeMerchant(merchant);
+  if (!merchantKey) return;
+
+  await tx.merchantCategoryMapping.upsert({
+    where: { userId_merchantKey: { userId, merchantKey } },
+    create: { userId, merchantKey, merchant, categoryId },
+    update: { merchant, categoryId, correctionCount: { increment: 1 } },
+  });
+}
+
+// The user's learned mappings keyed by normalized merchant, for lookups in the upload loop
+export async function loadMerchantCategories(client: Prisma.TransactionClient, userId: string): Promise<Map<string, string>> {
+  const mappings = await client.merchantCategoryMapping.findMany({
+    where: { userId },
+    select: { merchantKey: true, categoryId: true },
+  });
+  return new Map(mappings.map(mapping => [mapping.merchantKey, mapping.categoryId]));
+}
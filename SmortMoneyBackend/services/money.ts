@@ -0,0 +1,51 @@
+// Money is stored as integer cents so sums and comparisons are exact.
+// The API still speaks decimal amounts: request bodies are converted with toCents
+// where they're parsed, and responses go through centsToDecimal (see middleware/decimalMoney).
+
+const CENTS_SUFFIX = 'Cents';
+
+// 12.34 -> 1234. Rounds away float noise such as 1.005 * 100 = 100.49999999999999
+export function toCents(amount: number): number {
+  return Math.round(Number((amount * 100).toPrecision(15)));
+}
+
+// 1234 -> 12.34
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+// Name a "...Cents" column has in the API: amountCents -> amount
+export function decimalFieldName(field: string): string | null {
+  return field.endsWith(CENTS_SUFFIX) && field.length > CENTS_SUFFIX.length
+    ? field.slice(0, -CENTS_SUFFIX.length)
+    : null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Deep copy of a response body with every "...Cents" number renamed and turned
+ * back into a decimal amount: { amountCents: 1234 } -> { amount: 12.34 }.
+ * Dates, buffers and other class instances are passed through untouched.
+ */
+export function centsToDecimal<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => centsToDecimal(item)) as unknown as T;
+  }
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const decimalName = decimalFieldName(key);
+    if (decimalName && (typeof field === 'number' || field === null)) {
+      result[decimalName] = field === null ? null : fromCents(field);
+    } else {
+      result[key] = centsToDecimal(field);
+    }
+  }
+  return result as T;
+}
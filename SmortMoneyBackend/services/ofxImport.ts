@@ -0,0 +1,212 @@
+import { ImportRow } from './importDrafts';
+
+// OFX statement downloads (QFX is Quicken's name for the same format). Every statement row
+// carries the bank's own transaction ID (FITID), so a re-downloaded statement can be imported
+// again without doubling anything. OFX 1.x is SGML, where leaf elements have no closing tag;
+// OFX 2.x is XML. Both are read by the same tag scanner.
+
+interface OfxNode {
+  name: string;
+  values: Record<string, string>; // Leaf elements, e.g. TRNAMT; empty string when sent without a value
+  children: OfxNode[]; // Aggregates, e.g. STMTTRN
+}
+
+// One statement row, ready for prepareImportRows
+export interface OfxImportRow extends ImportRow {
+  fitId: string;
+}
+
+export interface OfxRowIssue {
+  index: number; // Position of the row in the statement's transaction list
+  fitId: string | null;
+  field: string;
+  message: string;
+}
+
+export interface OfxLedgerBalance {
+  amount: number;
+  asOf: string; // YYYY-MM-DD
+}
+
+export interface OfxStatement {
+  accountNumber: string | null; // ACCTID of the bank or card account
+  currency: string | null;
+  transactions: OfxImportRow[];
+  issues: OfxRowIssue[];
+  ledgerBalance: OfxLedgerBalance | null; // null when the statement has no LEDGERBAL
+}
+
+// The file isn't OFX at all; reported to the client as a bad request
+export class OfxParseError extends Error {}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Named entities, and decimal (&#38;) or hexadecimal (&#x26;) character references
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Aggregates on the way to the elements that are read. Any other tag is a leaf, even without
+// text: banks send empty SGML leaves such as a bare <MEMO>, which must not swallow the
+// elements after it. Leaves inside aggregates not listed here end up in the nearest listed one.
+const OFX_AGGREGATES = new Set([
+  'OFX',
+  'SIGNONMSGSRSV1', 'SONRS', 'STATUS', 'FI',
+  'BANKMSGSRSV1', 'STMTTRNRS', 'STMTRS',
+  'CREDITCARDMSGSRSV1', 'CCSTMTTRNRS', 'CCSTMTRS',
+  'BANKACCTFROM', 'CCACCTFROM', 'BANKACCTTO', 'CCACCTTO',
+  'BANKTRANLIST', 'STMTTRN', 'PAYEE', 'CURRENCY', 'ORIGCURRENCY',
+  'LEDGERBAL', 'AVAILBAL', 'BALLIST', 'BAL',
+]);
+
+/**
+ * Reads the element tree of an OFX file. The header (key:value lines in OFX 1.x, processing
+ * instructions in 2.x) is skipped. Known aggregates (OFX_AGGREGATES) are opened by their
+ * tag and ended by their closing tag; every other tag is a leaf holding the text after it.
+ */
+function parseOfxTree(text: string): OfxNode {
+  const start = text.search(/<OFX>/i);
+  if (start < 0) {
+    throw new OfxParseError('Not an OFX or QFX file (no <OFX> element found)');
+  }
+
+  const root: OfxNode = { name: 'OFX_FILE', values: {}, children: [] };
+  const stack = [root];
+  const tagPattern = /<(\/?)([A-Za-z0-9._]+)[^>]*>([^<]*)/g;
+  const body = text.slice(start);
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(body)) !== null) {
+    const [, closing, rawName, rawText] = match;
+    const name = rawName.toUpperCase();
+    if (closing) {
+      // Ends the aggregate and anything left open inside it; closing tags of leaves are ignored
+      const openIndex = stack.map(node => node.name).lastIndexOf(name);
+      if (openIndex > 0) stack.length = openIndex;
+      continue;
+    }
+    const current = stack[stack.length - 1];
+    if (OFX_AGGREGATES.has(name)) {
+      const node: OfxNode = { name, values: {}, children: [] };
+      current.children.push(node);
+      stack.push(node);
+    } else {
+      current.values[name] = decodeEntities(rawText.trim()); // Empty for a leaf without a value
+    }
+  }
+  return root;
+}
+
+// Every aggregate with the given name below `node`, in file order
+function findAll(node: OfxNode, name: string): OfxNode[] {
+  const found: OfxNode[] = [];
+  for (const child of node.children) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+  return found;
+}
+
+function findFirst(node: OfxNode, name: string): OfxNode | null {
+  return findAll(node, name)[0] ?? null;
+}
+
+/**
+ * Reads the calendar date of an OFX date-time (YYYYMMDD, optionally followed by the time,
+ * fractional seconds and a [offset:zone] suffix) as YYYY-MM-DD. The time is ignored so the
+ * row keeps the day the bank shows it on.
+ */
+export function parseOfxDate(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// OFX amounts are signed decimals; a few banks write them with a decimal comma
+function parseOfxAmount(value: string | undefined): number {
+  if (!value) return NaN;
+  const normalized = value.trim().replace(/^\+/, '');
+  return Number(normalized.includes('.') ? normalized : normalized.replace(',', '.'));
+}
+
+function readTransaction(node: OfxNode, index: number, issues: OfxRowIssue[]): OfxImportRow | null {
+  const fitId = node.values.FITID || null;
+  const rowIssues: OfxRowIssue[] = [];
+
+  if (!fitId) {
+    rowIssues.push({ index, fitId, field: 'fitId', message: 'Transaction has no FITID' });
+  }
+  const date = parseOfxDate(node.values.DTPOSTED);
+  if (!date) {
+    rowIssues.push({ index, fitId, field: 'date', message: `"${node.values.DTPOSTED ?? ''}" is not an OFX date` });
+  }
+  const amount = parseOfxAmount(node.values.TRNAMT);
+  if (!Number.isFinite(amount) || amount === 0) {
+    rowIssues.push({ index, fitId, field: 'amount', message: 'Amount must be a non-zero number' });
+  }
+  // The payee is a NAME element, or a PAYEE aggregate in newer files; cheques may only have a number
+  const payee = node.values.NAME || findFirst(node, 'PAYEE')?.values.NAME || null;
+  const memo = node.values.MEMO || null;
+  const merchant = payee ?? memo ?? (node.values.CHECKNUM ? `Check ${node.values.CHECKNUM}` : null);
+  if (!merchant) {
+    rowIssues.push({ index, fitId, field: 'merchant', message: 'Transaction has no NAME or MEMO' });
+  }
+
+  issues.push(...rowIssues);
+  if (rowIssues.length > 0) return null;
+
+  return {
+    fitId: fitId as string,
+    merchant: merchant as string,
+    amount,
+    direction: null, // From the sign
+    date: date as string,
+    category: null,
+    items: null,
+    reviewReason: null,
+    description: memo && memo !== merchant ? memo : null,
+  };
+}
+
+/**
+ * Reads every bank (STMTRS) and credit card (CCSTMTRS) statement in an OFX/QFX file.
+ * Rows without a FITID, date, amount or payee are left out and reported in `issues`;
+ * a FITID repeated within a statement is only kept once. Throws OfxParseError when the
+ * text isn't OFX.
+ */
+export function parseOfx(text: string): OfxStatement[] {
+  const root = parseOfxTree(text);
+  const statements = [...findAll(root, 'STMTRS'), ...findAll(root, 'CCSTMTRS')];
+
+  return statements.map(statement => {
+    const account = findFirst(statement, 'BANKACCTFROM') ?? findFirst(statement, 'CCACCTFROM');
+    const transactions: OfxImportRow[] = [];
+    const issues: OfxRowIssue[] = [];
+    const seenFitIds = new Set<string>();
+    findAll(statement, 'STMTTRN').forEach((node, index) => {
+      const row = readTransaction(node, index, issues);
+      if (!row || seenFitIds.has(row.fitId)) return;
+      seenFitIds.add(row.fitId);
+      transactions.push(row);
+    });
+
+    const ledger = findFirst(statement, 'LEDGERBAL');
+    const ledgerAmount = parseOfxAmount(ledger?.values.BALAMT);
+    const ledgerDate = parseOfxDate(ledger?.values.DTASOF);
+    return {
+      accountNumber: account?.values.ACCTID || null,
+      currency: statement.values.CURDEF || null,
+      transactions,
+      issues,
+      ledgerBalance: Number.isFinite(ledgerAmount) && ledgerDate ? { amount: ledgerAmount, asOf: ledgerDate } : null,
+    };
+  });
+}
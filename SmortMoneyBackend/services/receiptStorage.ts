@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import multer from 'multer';
+import { Prisma } from '@prisma/client';
+
+// Uploaded receipts are kept on local disk so the evidence behind an extracted transaction
+// can be looked at later. Only the file name is stored on the Receipt row.
+
+// Directory the files live in; relative paths are resolved against the working directory
+export const RECEIPTS_DIR = path.resolve(process.env.RECEIPTS_DIR || 'uploads/receipts');
+
+// multer storage writing each upload to RECEIPTS_DIR under a random name (keeping the extension)
+export const receiptDiskStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    fs.mkdir(RECEIPTS_DIR, { recursive: true }, (error) => cb(error, RECEIPTS_DIR));
+  },
+  filename: (req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    cb(null, `${crypto.randomUUID()}${extension}`);
+  },
+});
+
+export function receiptFilePath(fileName: string): string {
+  return path.join(RECEIPTS_DIR, path.basename(fileName));
+}
+
+// Deletes a stored file; a file that is already gone is not an error
+export async function removeReceiptFile(fileName: string): Promise<void> {
+  try {
+    await fs.promises.unlink(receiptFilePath(fileName));
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error(`Error removing receipt file ${fileName}:`, error);
+    }
+  }
+}
+
+/**
+ * Removes the user's receipts that nothing refers to any more: no transaction, and no draft
+ * of an import still under review. Run after transactions or imports are deleted.
+ * Returns the number of receipts removed.
+ */
+export async function deleteOrphanReceipts(client: Prisma.TransactionClient, userId: string): Promise<number> {
+  const orphans = await client.receipt.findMany({
+    where: {
+      userId,
+      transactions: { none: {} },
+      drafts: { none: { batch: { status: 'pending' } } },
+    },
+    select: { id: true, fileName: true },
+  });
+  if (orphans.length === 0) return 0;
+
+  await client.receipt.deleteMany({ where: { id: { in: orphans.map(receipt => receipt.id) } } });
+  await Promise.all(orphans.map(receipt => removeReceiptFile(receipt.fileName)));
+  return orphans.length;
+}
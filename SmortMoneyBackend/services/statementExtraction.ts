@@ -0,0 +1,115 @@
+import { PDFDocument } from 'pdf-lib';
+import { ExtractionContext, StatementBalances, getExtractionProvider } from './extractionProvider';
+import { validateExtractedTransactions, ValidatedTransaction, ExtractionIssue } from './extractionValidation';
+import { toCents, fromCents } from './money';
+
+// Bank statements arrive as multi-page PDFs. Each page is split off and extracted on its own,
+// and the rows are checked against the statement's opening and closing balance.
+
+export const PDF_MIME_TYPE = 'application/pdf';
+// Longer documents are rejected instead of spending an extraction call per page
+export const MAX_STATEMENT_PAGES = 20;
+
+// How the statement's balance moves: an asset account (checking, savings) goes up with
+// credits, while a credit card statement prints the amount owed, which goes up with spending
+export type StatementBalanceKind = 'asset' | 'credit';
+
+// In cents, like the stored amounts; responses show decimals (see middleware/decimalMoney)
+export interface StatementReconciliation {
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  extractedTotalCents: number; // Sum of the signed amounts of the extracted rows
+  differenceCents: number; // closing - (opening + balance movement of the rows); 0 when every row was read
+  balanced: boolean;
+}
+
+export interface StatementExtractionResult {
+  pageCount: number;
+  transactions: ValidatedTransaction[];
+  issues: ExtractionIssue[]; // `page` is set on each issue
+  reconciliation: StatementReconciliation | null; // null when the balances couldn't be read
+}
+
+// The uploaded PDF can't be used as a statement; reported to the client as a bad request
+export class StatementReadError extends Error {}
+
+/**
+ * Splits a PDF into one single-page PDF per page. Throws when the file can't be read
+ * (corrupt or password-protected) or has more than MAX_STATEMENT_PAGES pages.
+ */
+export async function splitPdfPages(pdfBuffer: Buffer): Promise<Buffer[]> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(pdfBuffer);
+  } catch (error: any) {
+    throw new StatementReadError(`Could not read the PDF: ${error.message}`);
+  }
+  const pageCount = source.getPageCount();
+  if (pageCount > MAX_STATEMENT_PAGES) {
+    throw new StatementReadError(`Statement has ${pageCount} pages (at most ${MAX_STATEMENT_PAGES} are supported)`);
+  }
+
+  const pages: Buffer[] = [];
+  for (let index = 0; index < pageCount; index++) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [index]);
+    single.addPage(page);
+    pages.push(Buffer.from(await single.save()));
+  }
+  return pages;
+}
+
+/**
+ * Compares the balance movement printed on the statement with the extracted rows, in whole
+ * cents. Any difference means rows were missed, repeated or misread.
+ */
+export function reconcileStatement(
+  balances: StatementBalances,
+  transactions: ValidatedTransaction[],
+  balanceKind: StatementBalanceKind = 'asset'
+): StatementReconciliation | null {
+  const { openingBalance, closingBalance } = balances;
+  if (openingBalance === null || closingBalance === null) return null;
+
+  const openingBalanceCents = toCents(openingBalance);
+  const closingBalanceCents = toCents(closingBalance);
+  const extractedTotalCents = transactions.reduce((sum, row) => sum + toCents(row.amount), 0);
+  const movementCents = balanceKind === 'credit' ? -extractedTotalCents : extractedTotalCents;
+  const differenceCents = closingBalanceCents - (openingBalanceCents + movementCents);
+  return { openingBalanceCents, closingBalanceCents, extractedTotalCents, differenceCents, balanced: differenceCents === 0 };
+}
+
+/**
+ * Runs the configured provider over every page, then reads and checks the balances
+ * (see reconcileStatement for `balanceKind`). When the rows don't add up to the balance
+ * movement, every row is marked for review.
+ */
+export async function extractStatement(
+  pdfBuffer: Buffer,
+  context: ExtractionContext,
+  balanceKind: StatementBalanceKind = 'asset'
+): Promise<StatementExtractionResult> {
+  const pages = await splitPdfPages(pdfBuffer);
+  const provider = getExtractionProvider();
+  const categoryNames = context.categories.map(category => category.name);
+
+  const transactions: ValidatedTransaction[] = [];
+  const issues: ExtractionIssue[] = [];
+  for (let index = 0; index < pages.length; index++) {
+    const pageContext = { ...context, statementPage: { page: index + 1, pageCount: pages.length } };
+    const rows = await provider.analyzeImage(pages[index], PDF_MIME_TYPE, pageContext);
+    const result = validateExtractedTransactions(rows, context.uploadedAt, categoryNames);
+    transactions.push(...result.transactions);
+    issues.push(...result.issues.map(issue => ({ ...issue, page: index + 1 })));
+  }
+
+  const balances = await provider.readStatementBalances(pdfBuffer);
+  const reconciliation = reconcileStatement(balances, transactions, balanceKind);
+  if (reconciliation && !reconciliation.balanced) {
+    const reason = `Statement doesn't balance, off by ${fromCents(reconciliation.differenceCents).toFixed(2)}`;
+    for (const row of transactions) {
+      row.reviewReason = row.reviewReason ? `${row.reviewReason}; ${reason}` : reason;
+    }
+  }
+  return { pageCount: pages.length, transactions, issues, reconciliation };
+}
@@ -0,0 +1,20 @@
+// Direction of money movement for a transaction.
+// Amounts are stored as positive magnitudes; the direction carries the sign.
+export const TRANSACTION_DIRECTIONS = ['expense', 'income', 'transfer'] as const;
+export type TransactionDirection = typeof TRANSACTION_DIRECTIONS[number];
+
+export function isTransactionDirection(value: unknown): value is TransactionDirection {
+  return typeof value === 'string' && (TRANSACTION_DIRECTIONS as readonly string[]).includes(value);
+}
+
+// Extractors and bank exports use signed amounts: negative for debits, positive for credits
+export function directionFromSignedAmount(amount: number): TransactionDirection {
+  return amount < 0 ? 'expense' : 'income';
+}
+
+// Signed value of a transaction for net calculations; transfers move money but are not income or spending
+export function signedAmount(amount: number, direction: string): number {
+  if (direction === 'income') return amount;
+  if (direction === 'expense') return -amount;
+  return 0;
+}
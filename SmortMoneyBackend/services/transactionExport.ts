@@ -0,0 +1,176 @@
+import { accountBalanceEffect } from './transferService';
+import { fromCents } from './money';
+
+// Formats for GET /api/transactions/export. CSV opens in spreadsheets, JSON keeps every field,
+// and QIF is read by most personal finance programs (Quicken, GnuCash, Moneydance).
+
+export const EXPORT_FORMATS = ['csv', 'json', 'qif'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  qif: 'application/qif; charset=utf-8',
+};
+
+// A transaction as loaded for export, see exportInclude in transactionRoutes
+export interface ExportSourceTransaction {
+  id: string;
+  date: Date;
+  merchant: string;
+  amountCents: number;
+  direction: string;
+  description: string | null;
+  accountId: string | null;
+  category: { name: string } | null;
+  account: { name: string; type: string } | null;
+  transfer: { fromAccountId: string; fromAccount: { name: string }; toAccount: { name: string } } | null;
+  splits: { amountCents: number; description: string | null; category: { name: string } | null }[];
+}
+
+export interface ExportSplit {
+  category: string | null;
+  amount: number; // Signed like the parent
+  description: string | null;
+}
+
+export interface ExportTransaction {
+  id: string;
+  date: string; // YYYY-MM-DD
+  merchant: string;
+  amount: number; // Signed: negative for money out, positive for money in
+  direction: string;
+  category: string | null; // null for uncategorized and split transactions
+  account: string | null;
+  transferAccount: string | null; // The other account of a transfer leg
+  description: string | null;
+  splits: ExportSplit[];
+}
+
+/**
+ * Flattens a stored transaction for export, with category and account names instead of ids.
+ * Amounts are written in decimal and signed by their effect on the account balance, so an
+ * export adds up to the balances the app shows: transfer legs by the account they're on, and
+ * a transfer that isn't linked to a second account is written as 0, as it's counted.
+ */
+export function toExportTransaction(transaction: ExportSourceTransaction): ExportTransaction {
+  const sign = Math.sign(accountBalanceEffect(transaction));
+  const transfer = transaction.transfer;
+  return {
+    id: transaction.id,
+    date: transaction.date.toISOString().slice(0, 10),
+    merchant: transaction.merchant,
+    amount: sign * fromCents(transaction.amountCents),
+    direction: transaction.direction,
+    category: transaction.category?.name ?? null,
+    account: transaction.account?.name ?? null,
+    transferAccount: transfer
+      ? (transaction.accountId === transfer.fromAccountId ? transfer.toAccount.name : transfer.fromAccount.name)
+      : null,
+    description: transaction.description,
+    splits: transaction.splits.map(split => ({
+      category: split.category?.name ?? null,
+      amount: sign * fromCents(split.amountCents),
+      description: split.description,
+    })),
+  };
+}
+
+// --- CSV ---
+const CSV_COLUMNS = ['Date', 'Merchant', 'Amount', 'Direction', 'Category', 'Account', 'Description', 'Splits'];
+
+// Text starting with one of these runs as a formula when the CSV is opened in a spreadsheet
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+function csvCell(value: string): string {
+  // Merchants and descriptions come from OCR and bank files; a leading ' keeps them text.
+  // Amounts are the only cells meant to start with "-".
+  const text = FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per transaction; split lines go into the last column as "Category: amount" pairs
+export function toCsv(transactions: ExportTransaction[]): string {
+  const lines = transactions.map(transaction => [
+    transaction.date,
+    transaction.merchant,
+    transaction.amount.toFixed(2),
+    transaction.direction,
+    transaction.category ?? (transaction.transferAccount ? `Transfer: ${transaction.transferAccount}` : ''),
+    transaction.account ?? '',
+    transaction.description ?? '',
+    transaction.splits
+      .map(split => `${split.category ?? 'Uncategorized'}: ${split.amount.toFixed(2)}`)
+      .join('; '),
+  ].map(csvCell).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+// --- QIF ---
+// QIF has no escaping; line breaks would start a new field
+const qifText = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+function qifDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+function qifAccountType(type: string | undefined): string {
+  if (type === 'credit') return 'CCard';
+  if (type === 'cash') return 'Cash';
+  return 'Bank';
+}
+
+function qifTransaction(transaction: ExportTransaction): string[] {
+  const lines = [
+    `D${qifDate(transaction.date)}`,
+    `T${transaction.amount.toFixed(2)}`,
+    `P${qifText(transaction.merchant)}`,
+  ];
+  if (transaction.description) lines.push(`M${qifText(transaction.description)}`);
+  // Transfers name the other account in brackets, which QIF readers link up
+  if (transaction.transferAccount) {
+    lines.push(`L[${qifText(transaction.transferAccount)}]`);
+  } else if (transaction.category) {
+    lines.push(`L${qifText(transaction.category)}`);
+  }
+  for (const split of transaction.splits) {
+    lines.push(`S${qifText(split.category ?? '')}`);
+    if (split.description) lines.push(`E${qifText(split.description)}`);
+    lines.push(`$${split.amount.toFixed(2)}`);
+  }
+  lines.push('^');
+  return lines;
+}
+
+/**
+ * Writes the transactions as QIF, one !Account section per account (transactions without an
+ * account come first, as a plain bank register). Dates are written as MM/DD/YYYY.
+ */
+export function toQif(transactions: ExportTransaction[], accountTypes: Map<string, string>): string {
+  const byAccount = new Map<string | null, ExportTransaction[]>();
+  for (const transaction of transactions) {
+    const group = byAccount.get(transaction.account) ?? [];
+    group.push(transaction);
+    byAccount.set(transaction.account, group);
+  }
+
+  const lines: string[] = [];
+  const accountNames = [...byAccount.keys()].sort((a, b) => (a === null ? -1 : b === null ? 1 : a.localeCompare(b)));
+  for (const account of accountNames) {
+    const type = qifAccountType(account === null ? undefined : accountTypes.get(account));
+    if (account !== null) {
+      lines.push('!Account', `N${qifText(account)}`, `T${type}`, '^');
+    }
+    lines.push(`!Type:${type}`);
+    for (const transaction of byAccount.get(account) ?? []) {
+      lines.push(...qifTransaction(transaction));
+    }
+  }
+  return lines.join('\r\n') + '\r\n';
+}
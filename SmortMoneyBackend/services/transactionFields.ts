@@ -0,0 +1,95 @@
+import { isTransactionDirection, TransactionDirection } from './transactionDirection';
+import { toCents } from './money';
+
+// Editable transaction fields as they are stored, shared by transactions and import drafts
+export interface TransactionFieldUpdates {
+  merchant?: string;
+  amountCents?: number; // Positive magnitude
+  direction?: TransactionDirection;
+  date?: Date;
+  categoryId?: string | null;
+  accountId?: string | null;
+  description?: string | null;
+  needsReview?: boolean;
+  reviewReason?: string | null;
+}
+
+export interface TransactionFieldParseResult {
+  data: TransactionFieldUpdates;
+  fieldErrors: { field: string, message: string }[];
+}
+
+/**
+ * Validates the fields of a partial update (PATCH) body. Only fields present in the body
+ * are returned; problems are collected per field in `fieldErrors` instead of thrown.
+ */
+export function parseTransactionFieldUpdates(body: Record<string, any>): TransactionFieldParseResult {
+  const data: TransactionFieldUpdates = {};
+  const fieldErrors: { field: string, message: string }[] = [];
+
+  if (body.merchant !== undefined) {
+    if (typeof body.merchant !== 'string' || !body.merchant.trim()) {
+      fieldErrors.push({ field: 'merchant', message: 'Merchant must be a non-empty string' });
+    } else {
+      data.merchant = body.merchant.trim();
+    }
+  }
+  if (body.amount !== undefined) {
+    const amountNum = body.amount === null || body.amount === '' ? NaN : parseFloat(body.amount);
+    if (isNaN(amountNum)) {
+      fieldErrors.push({ field: 'amount', message: 'Amount must be a number' });
+    } else {
+      data.amountCents = toCents(Math.abs(amountNum)); // Stored as a positive magnitude
+      // A negative amount without a direction is a debit
+      if (amountNum < 0 && body.direction === undefined) data.direction = 'expense';
+    }
+  }
+  if (body.direction !== undefined) {
+    if (!isTransactionDirection(body.direction)) {
+      fieldErrors.push({ field: 'direction', message: 'Direction must be one of expense, income or transfer' });
+    } else {
+      data.direction = body.direction;
+    }
+  }
+  if (body.date !== undefined) {
+    const dateValue = body.date === null ? new Date(NaN) : new Date(body.date);
+    if (isNaN(dateValue.getTime())) {
+      fieldErrors.push({ field: 'date', message: 'Invalid date format' });
+    } else {
+      data.date = dateValue;
+    }
+  }
+  if (body.categoryId !== undefined) {
+    if (body.categoryId !== null && typeof body.categoryId !== 'string') {
+      fieldErrors.push({ field: 'categoryId', message: 'Category ID must be a string or null' });
+    } else {
+      data.categoryId = body.categoryId || null; // Empty string clears the category too
+    }
+  }
+  if (body.accountId !== undefined) {
+    if (body.accountId !== null && typeof body.accountId !== 'string') {
+      fieldErrors.push({ field: 'accountId', message: 'Account ID must be a string or null' });
+    } else {
+      data.accountId = body.accountId || null; // Empty string clears the account too
+    }
+  }
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      fieldErrors.push({ field: 'description', message: 'Description must be a string or null' });
+    } else {
+      data.description = body.description ? body.description.trim() : null;
+    }
+  }
+
+  // Only the flag can be set; clearing it marks the extraction as checked
+  if (body.needsReview !== undefined) {
+    if (typeof body.needsReview !== 'boolean') {
+      fieldErrors.push({ field: 'needsReview', message: 'needsReview must be a boolean' });
+    } else {
+      data.needsReview = body.needsReview;
+      if (!body.needsReview) data.reviewReason = null;
+    }
+  }
+
+  return { data, fieldErrors };
+}
@@ -0,0 +1,192 @@
+import { Prisma } from '@prisma/client';
+import { isTransactionDirection } from './transactionDirection';
+import { toCents } from './money';
+
+// Query string value as delivered by Express
+type QueryValue = string | string[] | undefined;
+
+// Special category filter value matching transactions without a category
+export const UNCATEGORIZED = 'uncategorized';
+
+// Fields the list endpoint can sort by
+const SORT_FIELDS = ['date', 'amount', 'merchant', 'createdAt'] as const;
+type SortField = typeof SORT_FIELDS[number];
+
+// Column behind each sort field; amounts are stored in cents
+const SORT_COLUMNS: Record<SortField, keyof Prisma.TransactionOrderByWithRelationInput> = {
+  date: 'date',
+  amount: 'amountCents',
+  merchant: 'merchant',
+  createdAt: 'createdAt',
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface TransactionFilterResult {
+  where: Prisma.TransactionWhereInput;
+  orderBy: Prisma.TransactionOrderByWithRelationInput[];
+  errors: string[];
+}
+
+export interface TransactionPageParams {
+  take: number;
+  cursor?: string;
+}
+
+// --- Helpers for reading query parameters ---
+function firstValue(value: QueryValue): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw === undefined || raw === '' ? undefined : raw;
+}
+
+// Accepts both repeated params (?categoryId=a&categoryId=b) and comma lists (?categoryId=a,b)
+function listValue(value: QueryValue): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values.flatMap(v => v.split(',')).map(v => v.trim()).filter(v => v.length > 0);
+}
+
+function parseDateParam(name: string, value: QueryValue, errors: string[], endOfDay = false): Date | undefined {
+  const raw = firstValue(value);
+  if (raw === undefined) return undefined;
+  const date = new Date(raw);
+  if (isNaN(date.getTime())) {
+    errors.push(`Invalid ${name} parameter`);
+    return undefined;
+  }
+  // A bare YYYY-MM-DD end date should include the whole day
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function parseNumberParam(name: string, value: QueryValue, errors: string[]): number | undefined {
+  const raw = firstValue(value);
+  if (raw === undefined) return undefined;
+  const num = parseFloat(raw);
+  if (isNaN(num)) {
+    errors.push(`Invalid ${name} parameter`);
+    return undefined;
+  }
+  return num;
+}
+
+/**
+ * Builds the Prisma `where`/`orderBy` for a transaction list request from its query string.
+ * Supported parameters: startDate, endDate, categoryId (list, may include "uncategorized"),
+ * accountId (list), minAmount, maxAmount, direction (list), merchant (substring), needsReview,
+ * sortBy and sortOrder.
+ * Validation problems are collected in `errors` instead of throwing.
+ */
+export function parseTransactionFilters(query: Record<string, QueryValue>): TransactionFilterResult {
+  const errors: string[] = [];
+  const conditions: Prisma.TransactionWhereInput[] = [];
+
+  // Date range
+  const startDate = parseDateParam('startDate', query.startDate, errors);
+  const endDate = parseDateParam('endDate', query.endDate, errors, true);
+  if (startDate || endDate) {
+    conditions.push({ date: { gte: startDate, lte: endDate } });
+  }
+
+  // Categories, with "uncategorized" mapping onto a null categoryId.
+  // Split transactions match through any of their split lines.
+  const categoryIds = listValue(query.categoryId);
+  if (categoryIds.length > 0) {
+    const realIds = categoryIds.filter(id => id.toLowerCase() !== UNCATEGORIZED);
+    const categoryConditions: Prisma.TransactionWhereInput[] = [];
+    if (realIds.length > 0) {
+      categoryConditions.push({ categoryId: { in: realIds }, splits: { none: {} } });
+      categoryConditions.push({ splits: { some: { categoryId: { in: realIds } } } });
+    }
+    if (realIds.length < categoryIds.length) {
+      categoryConditions.push({ categoryId: null, splits: { none: {} } });
+      categoryConditions.push({ splits: { some: { categoryId: null } } });
+    }
+    conditions.push({ OR: categoryConditions });
+  }
+
+  // Accounts, as a list
+  const accountIds = listValue(query.accountId);
+  if (accountIds.length > 0) {
+    conditions.push({ accountId: { in: accountIds } });
+  }
+
+  // Amount range
+  const minAmount = parseNumberParam('minAmount', query.minAmount, errors);
+  const maxAmount = parseNumberParam('maxAmount', query.maxAmount, errors);
+  if (minAmount !== undefined || maxAmount !== undefined) {
+    conditions.push({
+      amountCents: {
+        gte: minAmount === undefined ? undefined : toCents(minAmount),
+        lte: maxAmount === undefined ? undefined : toCents(maxAmount),
+      },
+    });
+  }
+
+  // Direction (expense, income, transfer), as a list
+  const directions = listValue(query.direction);
+  if (directions.length > 0) {
+    if (directions.every(isTransactionDirection)) {
+      conditions.push({ direction: { in: directions } });
+    } else {
+      errors.push('Invalid direction parameter (expected expense, income or transfer)');
+    }
+  }
+
+  // Merchant substring (SQLite LIKE is case-insensitive for ASCII)
+  const merchant = firstValue(query.merchant);
+  if (merchant) {
+    conditions.push({ merchant: { contains: merchant.trim() } });
+  }
+
+  // Transactions extraction flagged for review (needsReview=true), or the rest (false)
+  const needsReview = firstValue(query.needsReview);
+  if (needsReview !== undefined) {
+    if (needsReview === 'true' || needsReview === 'false') {
+      conditions.push({ needsReview: needsReview === 'true' });
+    } else {
+      errors.push('Invalid needsReview parameter (expected true or false)');
+    }
+  }
+
+  // Sorting, with id as a tie-breaker so cursor pagination is stable
+  const sortBy = (firstValue(query.sortBy) ?? 'date') as SortField;
+  if (!SORT_FIELDS.includes(sortBy)) {
+    errors.push(`Invalid sortBy parameter (expected one of ${SORT_FIELDS.join(', ')})`);
+  }
+  const sortOrder = (firstValue(query.sortOrder) ?? 'desc').toLowerCase();
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    errors.push('Invalid sortOrder parameter (expected asc or desc)');
+  }
+  const sortDirection: Prisma.SortOrder = sortOrder === 'asc' ? 'asc' : 'desc';
+  const orderBy: Prisma.TransactionOrderByWithRelationInput[] = [
+    { [SORT_FIELDS.includes(sortBy) ? SORT_COLUMNS[sortBy] : 'date']: sortDirection },
+    { id: sortDirection },
+  ];
+
+  return {
+    where: conditions.length > 0 ? { AND: conditions } : {},
+    orderBy,
+    errors,
+  };
+}
+
+/**
+ * Reads the `limit` and `cursor` query parameters for cursor-based pagination.
+ * The cursor is the id of the last transaction of the previous page.
+ */
+export function parsePageParams(query: Record<string, QueryValue>, errors: string[]): TransactionPageParams {
+  let take = DEFAULT_PAGE_SIZE;
+  const rawLimit = firstValue(query.limit);
+  if (rawLimit !== undefined) {
+    const limit = parseInt(rawLimit, 10);
+    if (isNaN(limit) || limit < 1) {
+      errors.push('Invalid limit parameter');
+    } else {
+      take = Math.min(limit, MAX_PAGE_SIZE);
+    }
+  }
+  return { take, cursor: firstValue(query.cursor) };
+}
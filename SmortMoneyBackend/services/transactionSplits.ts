@@ -0,0 +1,124 @@
+// Split lines let one transaction (e.g. a warehouse-store receipt) count towards several categories.
+// Each line carries a positive amount; together they must add up to the parent amount.
+import { toCents, fromCents } from './money';
+
+export interface SplitInput {
+  categoryId: string | null;
+  amountCents: number;
+  description: string | null;
+}
+
+export interface SplitParseResult {
+  splits: SplitInput[];
+  error?: string;
+}
+
+export function splitTotal(splits: { amountCents: number }[]): number {
+  return splits.reduce((sum, split) => sum + split.amountCents, 0);
+}
+
+// True when there are no splits or they add up to the parent amount (both in cents, so exactly)
+export function splitsMatchAmount(splits: { amountCents: number }[], amountCents: number): boolean {
+  return splits.length === 0 || splitTotal(splits) === amountCents;
+}
+
+// A split line of a period with the direction of its transaction, for the summary
+export interface PeriodSplitLine {
+  categoryId: string | null;
+  amountCents: number;
+  transactionId: string;
+  direction: string;
+}
+
+// Totals per (category, direction), in the shape of a transaction groupBy
+export interface SplitLineGroup {
+  categoryId: string | null;
+  direction: string;
+  sum: number;
+  count: number; // Distinct transactions, so two lines of one transaction in a category count once
+}
+
+export function groupSplitLines(lines: PeriodSplitLine[]): SplitLineGroup[] {
+  const groups = new Map<string, SplitLineGroup & { transactionIds: Set<string> }>();
+  for (const line of lines) {
+    const key = JSON.stringify([line.categoryId, line.direction]);
+    let group = groups.get(key);
+    if (!group) {
+      group = { categoryId: line.categoryId, direction: line.direction, sum: 0, count: 0, transactionIds: new Set() };
+      groups.set(key, group);
+    }
+    group.sum += line.amountCents;
+    group.transactionIds.add(line.transactionId);
+  }
+  return Array.from(groups.values(), ({ transactionIds, ...group }) => ({ ...group, count: transactionIds.size }));
+}
+
+/**
+ * Validates the `splits` array of a create/update request against the parent amount
+ * (in cents; line amounts in the request are decimal). An empty array means the
+ * transaction is not split. Problems are returned in `error`
+ * instead of thrown, like the query parsers in transactionQuery.
+ */
+export function parseSplits(raw: unknown, parentAmountCents: number): SplitParseResult {
+  if (!Array.isArray(raw)) {
+    return { splits: [], error: 'Splits must be an array' };
+  }
+
+  const splits: SplitInput[] = [];
+  for (const [index, line] of raw.entries()) {
+    if (!line || typeof line !== 'object') {
+      return { splits: [], error: `Split ${index + 1} must be an object` };
+    }
+    const { categoryId, amount, description } = line as Record<string, unknown>;
+    if (categoryId !== undefined && categoryId !== null && typeof categoryId !== 'string') {
+      return { splits: [], error: `Split ${index + 1}: categoryId must be a string or null` };
+    }
+    const amountNum = typeof amount === 'number' ? amount : parseFloat(String(amount));
+    if (isNaN(amountNum) || toCents(amountNum) <= 0) {
+      return { splits: [], error: `Split ${index + 1}: amount must be a positive number` };
+    }
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      return { splits: [], error: `Split ${index + 1}: description must be a string or null` };
+    }
+    splits.push({
+      categoryId: categoryId || null,
+      amountCents: toCents(amountNum),
+      description: description ? description.trim() : null,
+    });
+  }
+
+  if (splits.length === 1) {
+    return { splits: [], error: 'A split needs at least two lines; use categoryId for a single category' };
+  }
+  if (!splitsMatchAmount(splits, parentAmountCents)) {
+    return { splits: [], error: `Splits add up to ${fromCents(splitTotal(splits)).toFixed(2)} but the transaction amount is ${fromCents(parentAmountCents).toFixed(2)}` };
+  }
+  return { splits };
+}
+
+/**
+ * Works out the split lines a create/update leaves a transaction with.
+ * `rawSplits` is the request's `splits` field (undefined keeps `currentSplits`);
+ * `amountCents` and `direction` are the values the transaction will have afterwards.
+ * `replace` tells the caller whether the stored lines must be rewritten.
+ */
+export function resolveSplitUpdate(
+  rawSplits: unknown,
+  currentSplits: { amountCents: number }[],
+  amountCents: number,
+  direction: string
+): SplitParseResult & { replace: boolean } {
+  let lines: { amountCents: number }[] = currentSplits;
+  let splits: SplitInput[] = [];
+  if (rawSplits !== undefined) {
+    const parsed = parseSplits(rawSplits, amountCents);
+    if (parsed.error) return { ...parsed, replace: false };
+    lines = splits = parsed.splits;
+  } else if (!splitsMatchAmount(currentSplits, amountCents)) {
+    return { splits, replace: false, error: 'Amount no longer matches the split lines; send updated splits with the new amount' };
+  }
+  if (lines.length > 0 && direction === 'transfer') {
+    return { splits, replace: false, error: 'Transfers cannot be split across categories' };
+  }
+  return { splits, replace: rawSplits !== undefined };
+}
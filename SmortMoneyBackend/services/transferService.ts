@@ -0,0 +1,82 @@
+import { Prisma } from '@prisma/client';
+import { signedAmount } from './transactionDirection';
+
+// Fields kept identical on a transfer and both of its legs
+export interface TransferSharedFields {
+  amountCents?: number;
+  date?: Date;
+  description?: string | null;
+}
+
+interface AccountRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * Builds the outgoing and incoming legs of a transfer. Both legs use the
+ * "transfer" direction so they never count as spending or income.
+ */
+export function buildTransferLegs(
+  userId: string,
+  from: AccountRef,
+  to: AccountRef,
+  fields: { amountCents: number; date: Date; description: string | null }
+): Prisma.TransactionCreateWithoutTransferInput[] {
+  return [
+    {
+      merchant: `Transfer to ${to.name}`,
+      amountCents: fields.amountCents,
+      direction: 'transfer',
+      date: fields.date,
+      description: fields.description,
+      user: { connect: { id: userId } },
+      account: { connect: { id: from.id } },
+    },
+    {
+      merchant: `Transfer from ${from.name}`,
+      amountCents: fields.amountCents,
+      direction: 'transfer',
+      date: fields.date,
+      description: fields.description,
+      user: { connect: { id: userId } },
+      account: { connect: { id: to.id } },
+    },
+  ];
+}
+
+/**
+ * Writes amount/date/description to a transfer and every one of its legs,
+ * so editing either side keeps the pair consistent.
+ */
+export async function syncTransferFields(
+  tx: Prisma.TransactionClient,
+  transferId: string,
+  fields: TransferSharedFields
+): Promise<void> {
+  const data: TransferSharedFields = {};
+  if (fields.amountCents !== undefined) data.amountCents = fields.amountCents;
+  if (fields.date !== undefined) data.date = fields.date;
+  if (fields.description !== undefined) data.description = fields.description;
+  if (Object.keys(data).length === 0) return;
+
+  await tx.transfer.update({ where: { id: transferId }, data });
+  await tx.transaction.updateMany({ where: { transferId }, data });
+}
+
+/**
+ * Signed effect of a transaction on its own account's balance, in cents. Linked transfer
+ * legs take money out of the source account and put it into the destination;
+ * everything else follows the direction (see signedAmount).
+ */
+export function accountBalanceEffect(transaction: {
+  amountCents: number;
+  direction: string;
+  accountId: string | null;
+  transfer?: { fromAccountId: string } | null;
+}): number {
+  if (transaction.transfer) {
+    return transaction.accountId === transaction.transfer.fromAccountId ? -transaction.amountCents : transaction.amountCents;
+  }
+  return signedAmount(transaction.amountCents, transaction.direction);
+}
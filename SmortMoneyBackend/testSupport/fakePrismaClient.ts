@@ -0,0 +1,46 @@
+import { Prisma } from '@prisma/client';
+
+// In-memory stand-in for a Prisma client in service tests. Every call to a model delegate is
+// recorded; `answers` can answer a call per model and method, anything else behaves like an
+// empty database that accepts every write.
+
+export interface RecordedCall {
+  model: string; // Delegate name, e.g. "transaction"
+  method: string;
+  args: unknown;
+}
+
+export type FakeAnswers = Record<string, Record<string, (args: unknown) => unknown>>;
+
+function defaultAnswer(model: string, method: string, args: unknown, callCount: number): unknown {
+  const { data, create } = (args ?? {}) as { data?: unknown; create?: unknown };
+  switch (method) {
+    case 'findMany':
+      return [];
+    case 'findUnique':
+    case 'findFirst':
+      return null;
+    case 'createMany':
+      return { count: Array.isArray(data) ? data.length : 1 };
+    case 'updateMany':
+    case 'deleteMany':
+      return { count: 0 };
+    default: // create, update, upsert: the written row
+      return { id: `${model}-${callCount}`, ...(data ?? create) as object };
+  }
+}
+
+export function fakePrismaClient(answers: FakeAnswers = {}) {
+  const calls: RecordedCall[] = [];
+  const delegate = (model: string) => new Proxy({}, {
+    get: (_target, method) => typeof method !== 'string' ? undefined : async (args: unknown) => {
+      calls.push({ model, method, args });
+      const answer = answers[model]?.[method];
+      return answer ? answer(args) : defaultAnswer(model, method, args, calls.length);
+    },
+  });
+  const client = new Proxy({}, {
+    get: (_target, model) => typeof model === 'string' ? delegate(model) : undefined,
+  });
+  return { client: client as Prisma.TransactionClient, calls };
+}